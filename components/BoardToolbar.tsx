@@ -0,0 +1,98 @@
+import React from "react";
+import { defaultBoardView, isViewFiltered, type BoardView, type ReserveFilter } from "../lib/boardView";
+import { DRIVER_STATUSES } from "../lib/driverStatus";
+import type { MessageKey, Translator } from "../lib/i18n";
+import type { Palette } from "../lib/theme";
+import type { DriverStatus } from "../lib/types";
+
+type Props = {
+  view: BoardView;
+  onChange: (next: BoardView) => void;
+  /** States present on the board, for the state filter */
+  states: string[];
+  shown: number;
+  total: number;
+  colors: Palette;
+  tr: Translator;
+};
+
+const RESERVE_FILTERS: [ReserveFilter, MessageKey][] = [
+  ["all", "toolbar.anyReserve"],
+  ["reserved", "toolbar.reserved"],
+  ["free", "toolbar.free"],
+  ["expired", "toolbar.expired"],
+];
+
+export default function BoardToolbar({ view, onChange, states, shown, total, colors, tr }: Props) {
+  const { t, tn } = tr;
+  const set = <K extends keyof BoardView>(key: K, value: BoardView[K]) => onChange({ ...view, [key]: value });
+
+  const fieldStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+
+  return (
+    <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center", marginTop: 16 }}>
+      <input
+        value={view.search}
+        onChange={(e) => set("search", e.target.value)}
+        placeholder={t("toolbar.search")}
+        style={{ ...fieldStyle, width: 240 }}
+      />
+      <select value={view.reserve} onChange={(e) => set("reserve", e.target.value as ReserveFilter)} style={fieldStyle}>
+        {RESERVE_FILTERS.map(([v, key]) => (
+          <option key={v} value={v}>
+            {t(key)}
+          </option>
+        ))}
+      </select>
+      <select value={view.status} onChange={(e) => set("status", e.target.value as DriverStatus | "")} style={fieldStyle}>
+        <option value="">{t("toolbar.anyStatus")}</option>
+        {DRIVER_STATUSES.map((st) => (
+          <option key={st} value={st}>
+            {t(`status.${st}` as MessageKey)}
+          </option>
+        ))}
+      </select>
+      <select value={view.state} onChange={(e) => set("state", e.target.value)} style={fieldStyle}>
+        <option value="">{t("toolbar.anyState")}</option>
+        {states.map((st) => (
+          <option key={st} value={st}>
+            {st}
+          </option>
+        ))}
+      </select>
+      <input
+        value={view.availableBefore}
+        onChange={(e) => set("availableBefore", e.target.value)}
+        placeholder={t("toolbar.availableBy")}
+        style={{ ...fieldStyle, width: 200 }}
+      />
+      <label style={{ display: "flex", alignItems: "center", gap: 6, fontSize: 13 }}>
+        <input type="checkbox" checked={view.groupByState} onChange={(e) => set("groupByState", e.target.checked)} />
+        {t("toolbar.groupByState")}
+      </label>
+      {isViewFiltered(view) && (
+        <button
+          onClick={() => onChange({ ...defaultBoardView, sortKey: view.sortKey, sortDir: view.sortDir, groupByState: view.groupByState })}
+          style={{
+            padding: "6px 10px",
+            borderRadius: 10,
+            border: `1px solid ${colors.btnGhostBorder}`,
+            background: colors.cardBg,
+            color: colors.text,
+          }}
+        >
+          {t("toolbar.clear")}
+        </button>
+      )}
+      <span style={{ marginLeft: "auto", fontSize: 12, color: colors.subtext }}>
+        {shown === total ? tn("toolbar.count", total) : tn("toolbar.countOf", total, { shown })}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from "react";
+import type { Translator } from "../lib/i18n";
+import { supabase } from "../lib/supabase";
+import { modalStyle, overlayStyle, type Palette } from "../lib/theme";
+import type { Board, BoardMember, Dispatcher } from "../lib/types";
+
+type Props = {
+  boards: Board[];
+  currentBoardId: string | null;
+  colors: Palette;
+  onBoardsChanged: (boards: Board[]) => void;
+  onClose: () => void;
+  tr: Translator;
+};
+
+/** Admin-only: create/rename boards and choose which dispatchers are on each */
+export default function BoardsModal({ boards, currentBoardId, colors, onBoardsChanged, onClose, tr }: Props) {
+  const { t } = tr;
+  const [selectedId, setSelectedId] = useState<string | null>(currentBoardId ?? boards[0]?.id ?? null);
+  const [dispatchers, setDispatchers] = useState<Dispatcher[]>([]);
+  const [members, setMembers] = useState<BoardMember[]>([]);
+  const [newName, setNewName] = useState("");
+  const [rename, setRename] = useState("");
+  const [addId, setAddId] = useState("");
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const selected = boards.find((b) => b.id === selectedId) ?? null;
+
+  useEffect(() => {
+    supabase
+      .from("dispatchers")
+      .select("*")
+      .order("display_name", { ascending: true })
+      .then(({ data }) => setDispatchers((data as Dispatcher[]) ?? []));
+  }, []);
+
+  useEffect(() => {
+    setRename(selected?.name ?? "");
+    setAddId("");
+    if (!selectedId) {
+      setMembers([]);
+      return;
+    }
+    supabase
+      .from("board_members")
+      .select("*")
+      .eq("board_id", selectedId)
+      .then(({ data, error }) => {
+        setProblem(error?.message ?? null);
+        setMembers((data as BoardMember[]) ?? []);
+      });
+  }, [selectedId, selected?.name]);
+
+  async function createBoard() {
+    if (!newName.trim()) return;
+    const { data, error } = await supabase.from("boards").insert({ name: newName.trim() }).select("*").single();
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    setNewName("");
+    onBoardsChanged([...boards, data as Board].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedId((data as Board).id);
+  }
+
+  async function renameBoard() {
+    if (!selected || !rename.trim() || rename.trim() === selected.name) return;
+    const { data, error } = await supabase.from("boards").update({ name: rename.trim() }).eq("id", selected.id).select("*").single();
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    onBoardsChanged(boards.map((b) => (b.id === selected.id ? (data as Board) : b)));
+  }
+
+  async function addMember() {
+    if (!selected || !addId) return;
+    const { data, error } = await supabase
+      .from("board_members")
+      .insert({ board_id: selected.id, dispatcher_id: addId })
+      .select("*")
+      .single();
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    setMembers((prev) => [...prev, data as BoardMember]);
+    setAddId("");
+  }
+
+  async function removeMember(dispatcherId: string) {
+    if (!selected) return;
+    const { error } = await supabase
+      .from("board_members")
+      .delete()
+      .eq("board_id", selected.id)
+      .eq("dispatcher_id", dispatcherId);
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    setMembers((prev) => prev.filter((m) => m.dispatcher_id !== dispatcherId));
+  }
+
+  const nameOf = (id: string) => dispatchers.find((d) => d.id === id)?.display_name ?? t("common.unknown");
+  const outside = dispatchers.filter((d) => !members.some((m) => m.dispatcher_id === d.id));
+
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${colors.btnGhostBorder}`,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+
+  return (
+    <div style={overlayStyle}>
+      <div
+        style={{
+          ...modalStyle,
+          width: 620,
+          background: colors.cardBg,
+          color: colors.text,
+          border: `1px solid ${colors.panelBorder}`,
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("boards.title")}</h3>
+        <div style={{ fontSize: 12, color: colors.subtext, marginTop: 4 }}>{t("boards.help")}</div>
+
+        <div style={{ display: "flex", gap: 16, marginTop: 12 }}>
+          <div style={{ width: 200 }}>
+            {boards.map((b) => (
+              <div
+                key={b.id}
+                onClick={() => setSelectedId(b.id)}
+                style={{
+                  padding: "6px 10px",
+                  borderRadius: 8,
+                  cursor: "pointer",
+                  background: b.id === selectedId ? colors.headerBg : undefined,
+                  fontWeight: b.id === currentBoardId ? 700 : 400,
+                }}
+              >
+                {b.name}
+              </div>
+            ))}
+            <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && createBoard()}
+                placeholder={t("boards.newBoard")}
+                style={{ ...inputStyle, flex: 1, minWidth: 0 }}
+              />
+              <button onClick={createBoard} style={buttonStyle}>
+                +
+              </button>
+            </div>
+          </div>
+
+          {selected && (
+            <div style={{ flex: 1 }}>
+              <div style={{ display: "flex", gap: 6 }}>
+                <input value={rename} onChange={(e) => setRename(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+                <button onClick={renameBoard} disabled={!rename.trim() || rename.trim() === selected.name} style={buttonStyle}>
+                  {t("boards.rename")}
+                </button>
+              </div>
+
+              <div style={{ marginTop: 12, fontSize: 12, color: colors.subtext }}>{t("boards.members")}</div>
+              <div style={{ marginTop: 4, border: `1px solid ${colors.panelBorder}`, borderRadius: 8, maxHeight: 220, overflowY: "auto" }}>
+                {members.length === 0 ? (
+                  <div style={{ padding: 10, color: colors.subtext }}>{t("boards.noMembers")}</div>
+                ) : (
+                  members.map((m) => (
+                    <div
+                      key={m.dispatcher_id}
+                      style={{ display: "flex", alignItems: "center", padding: "6px 10px", borderTop: `1px solid ${colors.panelBorder}` }}
+                    >
+                      <span style={{ flex: 1 }}>{nameOf(m.dispatcher_id)}</span>
+                      <button
+                        onClick={() => removeMember(m.dispatcher_id)}
+                        style={{ ...buttonStyle, padding: "2px 8px", color: colors.dangerText }}
+                      >
+                        {t("boards.remove")}
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+                <select value={addId} onChange={(e) => setAddId(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+                  <option value="">{t("boards.addDispatcher")}</option>
+                  {outside.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      {d.display_name}
+                      {d.is_admin ? t("boards.admin") : ""}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={addMember} disabled={!addId} style={buttonStyle}>
+                  {t("common.add")}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {problem && <div style={{ marginTop: 10, color: colors.dangerText }}>{problem}</div>}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 14 }}>
+          <button onClick={onClose} style={{ ...buttonStyle, background: colors.btnPrimaryBg, color: colors.btnPrimaryText }}>
+            {t("common.done")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from "react";
+import { findDrivers, parseCommand, type PaletteCommand } from "../lib/commands";
+import { driverStatus } from "../lib/driverStatus";
+import type { MessageKey, Translator } from "../lib/i18n";
+import { isReserveActive } from "../lib/reserves";
+import { overlayStyle, type Palette } from "../lib/theme";
+import type { Driver } from "../lib/types";
+
+type Props = {
+  drivers: Driver[];
+  colors: Palette;
+  /** Minutes used when a reserve/extend command gives none */
+  defaultMinutes: number;
+  onRun: (cmd: PaletteCommand) => void;
+  onClose: () => void;
+  tr: Translator;
+};
+
+function label(d: Driver) {
+  return d.unit_no ? `${d.unit_no} · ${d.name}` : d.name;
+}
+
+/** Ctrl+K: find a driver and act on it without opening the modals */
+export default function CommandPalette({ drivers, colors, defaultMinutes, onRun, onClose, tr }: Props) {
+  const { t } = tr;
+  const [text, setText] = useState("");
+  const [index, setIndex] = useState(0);
+
+  const parsed = parseCommand(text, drivers);
+  const matches = useMemo(
+    () => (parsed?.action === "copy" ? [] : findDrivers(parsed ? parsed.query : text, drivers)),
+    [text, drivers]
+  );
+  const selected = matches[Math.min(index, matches.length - 1)] ?? null;
+  // without an action word, Enter opens the highlighted driver's profile
+  const cmd: PaletteCommand | null = parsed
+    ? { ...parsed, driver: parsed.action === "copy" ? null : selected }
+    : selected
+      ? { action: "profile", query: text, driver: selected, minutes: null, note: "" }
+      : null;
+
+  function describe(c: PaletteCommand) {
+    const action = t(`palette.action.${c.action}` as MessageKey);
+    if (c.action === "copy") return action;
+    if (!c.driver) return t("palette.noDriver", { action });
+    const timed = c.action === "reserve" || c.action === "extend" || c.action === "shorten";
+    const minutes = timed ? t(c.action === "reserve" ? "palette.for" : "palette.by", { minutes: c.minutes ?? defaultMinutes }) : "";
+    return `${action} ${label(c.driver)}${minutes}${c.note ? ` — “${c.note}”` : ""}`;
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.key === "Escape") onClose();
+    else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setIndex((i) => Math.min(i + 1, Math.max(matches.length - 1, 0)));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && cmd && (cmd.action === "copy" || cmd.driver)) {
+      e.preventDefault();
+      onRun(cmd);
+    }
+  }
+
+  return (
+    <div style={{ ...overlayStyle, alignItems: "flex-start", paddingTop: 80 }} onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: 560,
+          maxWidth: "100%",
+          borderRadius: 14,
+          background: colors.cardBg,
+          color: colors.text,
+          border: `1px solid ${colors.panelBorder}`,
+          boxShadow: "0 10px 25px rgba(0,0,0,0.2)",
+          overflow: "hidden",
+        }}
+      >
+        <input
+          autoFocus
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setIndex(0);
+          }}
+          onKeyDown={onKeyDown}
+          placeholder={t("palette.placeholder")}
+          style={{
+            width: "100%",
+            padding: 14,
+            fontSize: 16,
+            border: "none",
+            borderBottom: `1px solid ${colors.panelBorder}`,
+            background: colors.cardBg,
+            color: colors.text,
+            outline: "none",
+          }}
+        />
+        {cmd && (
+          <div style={{ padding: "8px 14px", fontSize: 13, background: colors.headerBg }}>
+            ↵ {describe(cmd)}
+          </div>
+        )}
+        <div style={{ maxHeight: 320, overflowY: "auto" }}>
+          {matches.map((d, i) => (
+            <div
+              key={d.id}
+              onMouseEnter={() => setIndex(i)}
+              onClick={() => cmd && onRun({ ...cmd, driver: d })}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                padding: "8px 14px",
+                cursor: "pointer",
+                background: d === selected ? colors.softBg : undefined,
+                borderLeft: `3px solid ${d === selected ? colors.text : "transparent"}`,
+              }}
+            >
+              <span>{label(d)}</span>
+              <span style={{ fontSize: 12, color: colors.subtext }}>
+                {isReserveActive(d)
+                  ? t("palette.heldBy", { who: d.reserved_by_name ?? t("common.someone") })
+                  : t(`status.${driverStatus(d)}` as MessageKey)}
+              </span>
+            </div>
+          ))}
+        </div>
+        <div style={{ padding: "6px 14px", fontSize: 11, color: colors.subtext, borderTop: `1px solid ${colors.panelBorder}` }}>
+          {t("palette.help")}
+        </div>
+      </div>
+    </div>
+  );
+}
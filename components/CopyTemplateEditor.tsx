@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { browserTimeZone } from "../lib/availability";
+import { PLACEHOLDERS, renderUpdate, type CopyTemplate } from "../lib/copyUpdate";
+import type { MessageKey, Translator } from "../lib/i18n";
+import { modalStyle, overlayStyle, type Palette } from "../lib/theme";
+import type { Driver } from "../lib/types";
+
+type Props = {
+  template: CopyTemplate;
+  drivers: Driver[];
+  colors: Palette;
+  /** Built-ins are saved as a new copy */
+  onSave: (t: CopyTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  tr: Translator;
+  /** Dispatcher's time zone, where "today" ends ("" = browser) */
+  timeZone: string;
+};
+
+const FORMATS: [CopyTemplate["format"], MessageKey][] = [
+  ["text", "template.text"],
+  ["markdown", "template.markdown"],
+  ["csv", "template.csv"],
+];
+const SEPARATORS: [CopyTemplate["separator"], MessageKey][] = [
+  ["blank", "template.blank"],
+  ["newline", "template.newline"],
+];
+const FILTERS: [CopyTemplate["filter"], MessageKey][] = [
+  ["all", "template.all"],
+  ["unreserved", "template.unreserved"],
+  ["today", "template.today"],
+];
+const ORDERS: [CopyTemplate["order"], MessageKey][] = [
+  ["board", "template.orderBoard"],
+  ["unit", "field.unit_no"],
+  ["name", "field.name"],
+  ["location", "template.orderLocation"],
+  ["available", "template.orderAvailable"],
+];
+
+export default function CopyTemplateEditor({ template, drivers, colors, onSave, onDelete, onClose, tr, timeZone }: Props) {
+  const { t } = tr;
+  const [draft, setDraft] = useState<CopyTemplate>(
+    template.builtin ? { ...template, id: "", name: t("template.copyName", { name: template.name }), builtin: false } : template
+  );
+  const set = <K extends keyof CopyTemplate>(key: K, value: CopyTemplate[K]) => setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const fieldStyle: React.CSSProperties = {
+    width: "100%",
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, color: colors.subtext, marginTop: 12 };
+
+  function select<T extends string>(value: T, options: [T, MessageKey][], onChange: (v: T) => void) {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value as T)} style={fieldStyle}>
+        {options.map(([v, key]) => (
+          <option key={v} value={v}>
+            {t(key)}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <div style={overlayStyle}>
+      <div
+        style={{
+          ...modalStyle,
+          width: 640,
+          background: colors.cardBg,
+          color: colors.text,
+          border: `1px solid ${colors.panelBorder}`,
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("template.title")}</h3>
+
+        <label style={labelStyle}>{t("field.name")}</label>
+        <input value={draft.name} onChange={(e) => set("name", e.target.value)} style={fieldStyle} />
+
+        <label style={labelStyle}>{t("template.line")}</label>
+        <input value={draft.line} onChange={(e) => set("line", e.target.value)} style={fieldStyle} />
+        <div style={{ fontSize: 12, color: colors.subtext, marginTop: 4 }}>
+          {Object.keys(PLACEHOLDERS)
+            .map((k) => `{${k}}`)
+            .join(" ")}
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+          <div>
+            <label style={labelStyle}>{t("template.output")}</label>
+            {select(draft.format, FORMATS, (v) => set("format", v))}
+          </div>
+          <div>
+            <label style={labelStyle}>{t("template.separator")}</label>
+            {select(draft.separator, SEPARATORS, (v) => set("separator", v))}
+          </div>
+          <div>
+            <label style={labelStyle}>{t("template.include")}</label>
+            {select(draft.filter, FILTERS, (v) => set("filter", v))}
+          </div>
+          <div>
+            <label style={labelStyle}>{t("template.order")}</label>
+            {select(draft.order, ORDERS, (v) => set("order", v))}
+          </div>
+        </div>
+
+        <label style={labelStyle}>{t("template.preview")}</label>
+        <pre
+          style={{
+            margin: 0,
+            padding: 8,
+            maxHeight: 180,
+            overflow: "auto",
+            fontSize: 12,
+            background: colors.softBg,
+            border: `1px solid ${colors.panelBorder}`,
+            borderRadius: 8,
+            whiteSpace: "pre-wrap",
+          }}
+        >
+          {renderUpdate(drivers.slice(0, 8), draft, Date.now(), timeZone || browserTimeZone()) || t("template.noMatch")}
+        </pre>
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
+          {!template.builtin && (
+            <button
+              onClick={() => onDelete(template.id)}
+              style={{
+                marginRight: "auto",
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${colors.btnGhostBorder}`,
+                background: "#dc2626",
+                color: "#ffffff",
+              }}
+            >
+              {t("common.delete")}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={() => draft.name.trim() && draft.line.trim() && onSave({ ...draft, name: draft.name.trim() })}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.btnPrimaryBg,
+              color: colors.btnPrimaryText,
+            }}
+          >
+            {template.builtin ? t("template.saveAsNew") : t("common.save")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import { displayUrl } from "../lib/display";
+import type { Translator } from "../lib/i18n";
+import { supabase } from "../lib/supabase";
+import { modalStyle, overlayStyle, type Palette } from "../lib/theme";
+import type { DisplayToken } from "../lib/types";
+
+type Props = {
+  boardId: string;
+  boardName: string;
+  colors: Palette;
+  onCopied: (msg: string) => void;
+  onClose: () => void;
+  tr: Translator;
+  fmtTime: (iso: string) => string;
+};
+
+/** Read-only share links for wall screens; anyone with a live link can watch the board, nobody can edit through it */
+export default function DisplayLinksModal({ boardId, boardName, colors, onCopied, onClose, tr, fmtTime }: Props) {
+  const { t } = tr;
+  const [links, setLinks] = useState<DisplayToken[]>([]);
+  const [label, setLabel] = useState("");
+  const [showRevoked, setShowRevoked] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from("display_tokens")
+      .select("*")
+      .eq("board_id", boardId)
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        setProblem(error?.message ?? null);
+        setLinks((data as DisplayToken[]) ?? []);
+      });
+  }, [boardId]);
+
+  async function createLink() {
+    const { data, error } = await supabase
+      .from("display_tokens")
+      .insert({ board_id: boardId, label: label.trim() })
+      .select("*")
+      .single();
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    setLabel("");
+    setLinks((prev) => [data as DisplayToken, ...prev]);
+    copyLink(data as DisplayToken);
+  }
+
+  async function revoke(link: DisplayToken) {
+    if (!confirm(t("display.confirmRevoke", { label: link.label || t("display.untitled") }))) return;
+    const { data, error } = await supabase
+      .from("display_tokens")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", link.id)
+      .select("*")
+      .single();
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    setLinks((prev) => prev.map((l) => (l.id === link.id ? (data as DisplayToken) : l)));
+  }
+
+  async function copyLink(link: DisplayToken) {
+    await navigator.clipboard.writeText(displayUrl(window.location.origin, link.token));
+    onCopied(link.label ? t("display.copiedLabel", { label: link.label }) : t("display.copied"));
+  }
+
+  const shown = links.filter((l) => showRevoked || !l.revoked_at);
+  const revokedCount = links.filter((l) => l.revoked_at).length;
+
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${colors.btnGhostBorder}`,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+
+  return (
+    <div style={overlayStyle}>
+      <div
+        style={{
+          ...modalStyle,
+          width: 560,
+          background: colors.cardBg,
+          color: colors.text,
+          border: `1px solid ${colors.panelBorder}`,
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("display.title", { board: boardName })}</h3>
+        <div style={{ fontSize: 12, color: colors.subtext, marginTop: 4 }}>{t("display.help")}</div>
+
+        <div style={{ display: "flex", gap: 6, marginTop: 12 }}>
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && createLink()}
+            placeholder={t("display.labelPlaceholder")}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button onClick={createLink} style={{ ...buttonStyle, background: colors.btnPrimaryBg, color: colors.btnPrimaryText }}>
+            {t("display.newLink")}
+          </button>
+        </div>
+
+        <div style={{ marginTop: 12, border: `1px solid ${colors.panelBorder}`, borderRadius: 8, maxHeight: 280, overflowY: "auto" }}>
+          {shown.length === 0 ? (
+            <div style={{ padding: 10, color: colors.subtext }}>{t("display.none")}</div>
+          ) : (
+            shown.map((l) => (
+              <div
+                key={l.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  padding: "8px 10px",
+                  borderTop: `1px solid ${colors.panelBorder}`,
+                  opacity: l.revoked_at ? 0.55 : 1,
+                }}
+              >
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontWeight: 600 }}>{l.label || t("display.untitled")}</div>
+                  <div style={{ fontSize: 12, color: colors.subtext }}>
+                    {l.revoked_at
+                      ? t("display.revoked", { time: fmtTime(l.revoked_at) })
+                      : t("display.created", { who: l.created_by_name ?? t("common.someone"), time: fmtTime(l.created_at) })}
+                  </div>
+                </div>
+                {!l.revoked_at && (
+                  <>
+                    <button onClick={() => copyLink(l)} style={{ ...buttonStyle, padding: "2px 8px" }}>
+                      {t("display.copy")}
+                    </button>
+                    <button onClick={() => revoke(l)} style={{ ...buttonStyle, padding: "2px 8px", color: colors.dangerText }}>
+                      {t("display.revoke")}
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {problem && <div style={{ marginTop: 10, color: colors.dangerText }}>{problem}</div>}
+
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: 14 }}>
+          {revokedCount > 0 ? (
+            <label style={{ fontSize: 12, color: colors.subtext }}>
+              <input type="checkbox" checked={showRevoked} onChange={(e) => setShowRevoked(e.target.checked)} />{" "}
+              {t("display.showRevoked", { n: revokedCount })}
+            </label>
+          ) : (
+            <span />
+          )}
+          <button onClick={onClose} style={buttonStyle}>
+            {t("common.done")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from "react";
+import type { Translator } from "../lib/i18n";
+import { applyNoteChange, canEditNote, fetchNotesPage, NOTE_PAGE_SIZE, parseTags } from "../lib/notes";
+import { supabase } from "../lib/supabase";
+import type { Palette } from "../lib/theme";
+import type { Dispatcher, DriverNote } from "../lib/types";
+
+type Props = {
+  driverId: string;
+  me: Dispatcher | null;
+  colors: Palette;
+  tr: Translator;
+  /** Timestamp formatter, so notes follow the dispatcher's language and time zone */
+  fmtTime?: (iso: string) => string;
+};
+
+type Draft = { id: string; body: string; tags: string };
+
+const defaultFmtTime = (iso: string) => new Date(iso).toLocaleString();
+
+/** Full note history for one driver, live while the profile is open */
+export default function DriverNotes({ driverId, me, colors, tr, fmtTime = defaultFmtTime }: Props) {
+  const { t } = tr;
+  const [notes, setNotes] = useState<DriverNote[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [body, setBody] = useState("");
+  const [tags, setTags] = useState("");
+  const [pinned, setPinned] = useState(false);
+  const [editing, setEditing] = useState<Draft | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setNotes([]);
+    setEditing(null);
+    setLoading(true);
+    fetchNotesPage(driverId).then(({ notes: page, error }) => {
+      if (cancelled) return;
+      setLoading(false);
+      setProblem(error);
+      setNotes(page);
+      setHasMore(page.length === NOTE_PAGE_SIZE);
+    });
+
+    const ch = supabase
+      .channel(`driver-notes-${driverId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "driver_notes", filter: `driver_id=eq.${driverId}` },
+        (payload) => {
+          setNotes((prev) =>
+            applyNoteChange(prev, payload.eventType, payload.new as DriverNote, (payload.old as any)?.id)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(ch);
+    };
+  }, [driverId]);
+
+  async function loadMore() {
+    const oldest = notes[notes.length - 1];
+    if (!oldest) return;
+    setLoading(true);
+    const { notes: page, error } = await fetchNotesPage(driverId, oldest.created_at);
+    setLoading(false);
+    setProblem(error);
+    setNotes((prev) => prev.concat(page.filter((n) => !prev.some((p) => p.id === n.id))));
+    setHasMore(page.length === NOTE_PAGE_SIZE);
+  }
+
+  async function addNote() {
+    if (!body.trim()) return;
+    const { data, error } = await supabase
+      .from("driver_notes")
+      .insert({ driver_id: driverId, body: body.trim(), tags: parseTags(tags), pinned })
+      .select("*")
+      .single();
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setProblem(null);
+    setNotes((prev) => applyNoteChange(prev, "INSERT", data as DriverNote));
+    setBody("");
+    setTags("");
+    setPinned(false);
+  }
+
+  async function patchNote(id: string, patch: Partial<DriverNote>) {
+    const { data, error } = await supabase.from("driver_notes").update(patch).eq("id", id).select("*").maybeSingle();
+    if (error || !data) {
+      setProblem(error?.message ?? t("notes.forbidden"));
+      return false;
+    }
+    setProblem(null);
+    setNotes((prev) => applyNoteChange(prev, "UPDATE", data as DriverNote));
+    return true;
+  }
+
+  async function saveEdit() {
+    if (!editing || !editing.body.trim()) return;
+    if (await patchNote(editing.id, { body: editing.body.trim(), tags: parseTags(editing.tags) })) setEditing(null);
+  }
+
+  async function deleteNote(n: DriverNote) {
+    if (!confirm(t("notes.confirmDelete"))) return;
+    const { error } = await supabase.from("driver_notes").delete().eq("id", n.id);
+    if (error) {
+      setProblem(error.message);
+      return;
+    }
+    setNotes((prev) => applyNoteChange(prev, "DELETE", null, n.id));
+  }
+
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const linkStyle: React.CSSProperties = {
+    border: "none",
+    background: "transparent",
+    color: colors.subtext,
+    cursor: "pointer",
+    fontSize: 12,
+    padding: 0,
+  };
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${colors.btnGhostBorder}`,
+    background: colors.btnPrimaryBg,
+    color: colors.btnPrimaryText,
+  };
+
+  const ordered = [...notes.filter((n) => n.pinned), ...notes.filter((n) => !n.pinned)];
+
+  return (
+    <div style={{ marginTop: 12 }}>
+      <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{t("notes.add")}</label>
+      <div style={{ display: "flex", gap: 8 }}>
+        <input
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addNote()}
+          placeholder={t("notes.placeholder")}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <button onClick={addNote} style={buttonStyle}>
+          {t("common.save")}
+        </button>
+      </div>
+      <div style={{ display: "flex", gap: 8, marginTop: 6, alignItems: "center" }}>
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder={t("notes.tagsPlaceholder")}
+          style={{ ...inputStyle, flex: 1, fontSize: 12, padding: 6 }}
+        />
+        <label style={{ fontSize: 12, color: colors.subtext, whiteSpace: "nowrap" }}>
+          <input type="checkbox" checked={pinned} onChange={(e) => setPinned(e.target.checked)} /> {t("notes.pinToBoard")}
+        </label>
+      </div>
+
+      {problem && <div style={{ marginTop: 8, color: colors.dangerText, fontSize: 13 }}>{problem}</div>}
+
+      <div
+        style={{
+          marginTop: 12,
+          maxHeight: 320,
+          overflowY: "auto",
+          border: `1px solid ${colors.panelBorder}`,
+          borderRadius: 8,
+        }}
+      >
+        {ordered.length === 0 ? (
+          <div style={{ padding: 12, color: colors.subtext }}>{loading ? t("notes.loading") : t("notes.none")}</div>
+        ) : (
+          ordered.map((n) => (
+            <div
+              key={n.id}
+              style={{
+                padding: 12,
+                borderTop: `1px solid ${colors.panelBorder}`,
+                background: n.pinned ? colors.warnBg : undefined,
+              }}
+            >
+              <div style={{ fontSize: 12, color: colors.subtext, marginBottom: 4, display: "flex", gap: 8 }}>
+                <span style={{ flex: 1 }}>
+                  {n.pinned ? "📌 " : ""}
+                  {n.author_name || t("common.unknown")} · {fmtTime(n.created_at)}
+                  {n.edited_at ? t("notes.edited", { time: fmtTime(n.edited_at) }) : ""}
+                </span>
+                {canEditNote(n, me) && editing?.id !== n.id && (
+                  <>
+                    <button onClick={() => patchNote(n.id, { pinned: !n.pinned })} style={linkStyle}>
+                      {n.pinned ? t("notes.unpin") : t("notes.pin")}
+                    </button>
+                    <button
+                      onClick={() => setEditing({ id: n.id, body: n.body, tags: (n.tags ?? []).join(", ") })}
+                      style={linkStyle}
+                    >
+                      {t("notes.edit")}
+                    </button>
+                    <button onClick={() => deleteNote(n)} style={{ ...linkStyle, color: colors.dangerText }}>
+                      {t("common.delete")}
+                    </button>
+                  </>
+                )}
+              </div>
+              {editing?.id === n.id ? (
+                <div style={{ display: "grid", gap: 6 }}>
+                  <textarea
+                    rows={2}
+                    value={editing.body}
+                    onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                    style={inputStyle}
+                  />
+                  <input
+                    value={editing.tags}
+                    onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                    placeholder={t("notes.tags")}
+                    style={{ ...inputStyle, fontSize: 12, padding: 6 }}
+                  />
+                  <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+                    <button onClick={() => setEditing(null)} style={linkStyle}>
+                      {t("common.cancel")}
+                    </button>
+                    <button onClick={saveEdit} style={{ ...buttonStyle, padding: "4px 10px" }}>
+                      {t("common.save")}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div style={{ whiteSpace: "pre-wrap" }}>{n.body}</div>
+                  {n.tags && n.tags.length > 0 && (
+                    <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginTop: 4 }}>
+                      {n.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          style={{
+                            fontSize: 11,
+                            padding: "1px 6px",
+                            borderRadius: 999,
+                            border: `1px solid ${colors.panelBorder}`,
+                            color: colors.subtext,
+                          }}
+                        >
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))
+        )}
+        {hasMore && (
+          <div style={{ padding: 8, textAlign: "center", borderTop: `1px solid ${colors.panelBorder}` }}>
+            <button onClick={loadMore} disabled={loading} style={linkStyle}>
+              {loading ? t("notes.loading") : t("notes.loadOlder")}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
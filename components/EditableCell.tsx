@@ -0,0 +1,73 @@
+import React, { useEffect, useRef, useState } from "react";
+
+type Props = {
+  value: string;
+  /**
+   * Saves the text; `base` is the value when editing began. Resolves true when
+   * saved, false to show the stored value again, "keep" to leave the rejected
+   * text in place for the dispatcher to fix.
+   */
+  onCommit: (text: string, base: string) => Promise<boolean | "keep">;
+  onDraftChange?: (text: string) => void;
+  onFocusChange?: (focused: boolean) => void;
+  placeholder?: string;
+  list?: string;
+  style?: React.CSSProperties;
+};
+
+/**
+ * Inline board input. Unlike a `defaultValue` input it follows realtime
+ * changes to `value` while the dispatcher is not typing in it, and hands the
+ * value seen at focus to `onCommit` so the caller can detect conflicting edits.
+ */
+export default function EditableCell({
+  value,
+  onCommit,
+  onDraftChange,
+  onFocusChange,
+  placeholder,
+  list,
+  style,
+}: Props) {
+  const [draft, setDraft] = useState(value);
+  const [focused, setFocused] = useState(false);
+  const [held, setHeld] = useState<string | null>(null);
+  const base = useRef(value);
+
+  // someone else's change replaces a rejected draft too
+  useEffect(() => {
+    setHeld(null);
+    if (!focused) setDraft(value);
+  }, [value]);
+
+  return (
+    <input
+      value={focused ? draft : held ?? value}
+      onFocus={() => {
+        base.current = value;
+        setDraft(held ?? value);
+        setFocused(true);
+        onFocusChange?.(true);
+      }}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        onDraftChange?.(e.target.value);
+      }}
+      onBlur={async () => {
+        setFocused(false);
+        onFocusChange?.(false);
+        const text = draft;
+        if (text === base.current) {
+          setHeld(null);
+          return;
+        }
+        setHeld(text);
+        const result = await onCommit(text, base.current);
+        setHeld(result === "keep" ? text : null);
+      }}
+      placeholder={placeholder}
+      list={list}
+      style={style}
+    />
+  );
+}
@@ -0,0 +1,206 @@
+import React, { useState } from "react";
+import { browserTimeZone } from "../lib/availability";
+import type { MessageKey, Translator } from "../lib/i18n";
+import { resolveLocations } from "../lib/locationApi";
+import { friendlyDbError } from "../lib/roster";
+import { parseRosterCsv, planImport, type ImportChange } from "../lib/rosterCsv";
+import { supabase } from "../lib/supabase";
+import { modalStyle, overlayStyle, type Palette } from "../lib/theme";
+import type { Driver } from "../lib/types";
+
+type Props = {
+  /** New rows are created on this board */
+  boardId: string;
+  drivers: Driver[];
+  colors: Palette;
+  /** Saved (and reloaded) rows; `done` is false when some rows need a new preview */
+  onApplied: (rows: Driver[], done: boolean) => void;
+  onClose: () => void;
+  tr: Translator;
+  /** Dispatcher's time zone for typed availability ("" = browser) */
+  timeZone: string;
+};
+
+const STATUS_LABEL: Record<ImportChange["status"], MessageKey> = {
+  new: "import.new",
+  changed: "import.changed",
+  unchanged: "import.unchanged",
+  error: "import.error",
+};
+
+export default function ImportRosterModal({ boardId, drivers, colors, onApplied, onClose, tr, timeZone }: Props) {
+  const { t, tn } = tr;
+  const [text, setText] = useState("");
+  const [plan, setPlan] = useState<ImportChange[] | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const pending = (plan ?? []).filter((c) => c.record);
+  const count = (s: ImportChange["status"]) => (plan ?? []).filter((c) => c.status === s).length;
+
+  async function readFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+    setPlan(null);
+  }
+
+  async function preview() {
+    const parsed = parseRosterCsv(text, tr);
+    if ("error" in parsed) {
+      setProblem(parsed.error);
+      setPlan(null);
+      return;
+    }
+    setBusy(true);
+    const resolved = await resolveLocations(parsed.rows.map((r) => r.location));
+    setPlan(planImport(parsed.rows, drivers, resolved, () => crypto.randomUUID(), tr, timeZone || browserTimeZone()));
+    setProblem(null);
+    setBusy(false);
+  }
+
+  /**
+   * Applies the plan in one transaction (`import_roster`): new rows are
+   * inserted and existing drivers overwritten only if every one of them still
+   * has the `version` seen in the preview. Otherwise nothing is saved, the
+   * rows someone edited are reloaded and listed, and the plan is dropped so
+   * the next preview starts from the current board.
+   */
+  async function apply() {
+    if (pending.length === 0) return;
+    setBusy(true);
+    const { data, error } = await supabase.rpc("import_roster", {
+      p_board_id: boardId,
+      p_rows: pending.map((c) => ({ ...c.record, expected_version: c.driver?.version ?? null })),
+    });
+    if (error) {
+      setBusy(false);
+      setProblem(friendlyDbError(error, tr));
+      return;
+    }
+    const { saved, conflicts } = data as { saved: Driver[]; conflicts: string[] };
+    if (conflicts.length === 0) {
+      setBusy(false);
+      onApplied(saved, true);
+      return;
+    }
+
+    const { data: latest } = await supabase.from("drivers").select("*").in("id", conflicts);
+    setBusy(false);
+    if (latest?.length) onApplied(latest as Driver[], false);
+    const lines = pending.filter((c) => c.driver && conflicts.includes(c.driver.id)).map((c) => c.row.line);
+    setProblem(tn("import.conflicts", conflicts.length, { lines: lines.join(", ") }));
+    setPlan(null);
+  }
+
+  const statusColor = (s: ImportChange["status"]) =>
+    s === "new" ? colors.successText : s === "changed" ? colors.warnText : s === "error" ? colors.dangerText : colors.subtext;
+
+  const buttonStyle: React.CSSProperties = {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: `1px solid ${colors.btnGhostBorder}`,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+
+  return (
+    <div style={overlayStyle}>
+      <div
+        style={{
+          ...modalStyle,
+          width: 760,
+          background: colors.cardBg,
+          color: colors.text,
+          border: `1px solid ${colors.panelBorder}`,
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("import.title")}</h3>
+        <div style={{ fontSize: 12, color: colors.subtext, marginTop: 4 }}>{t("import.help")}</div>
+
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => readFile(e.target.files?.[0])}
+          style={{ marginTop: 12 }}
+        />
+        <textarea
+          rows={5}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setPlan(null);
+          }}
+          placeholder={"unit_no,name,location,available_time\n1401,Mike Smith,\"Dallas, TX\",ava now"}
+          style={{
+            width: "100%",
+            marginTop: 8,
+            padding: 8,
+            fontFamily: "monospace",
+            fontSize: 12,
+            border: `1px solid ${colors.panelBorder}`,
+            borderRadius: 8,
+            background: colors.cardBg,
+            color: colors.text,
+          }}
+        />
+
+        {problem && <div style={{ marginTop: 8, color: colors.dangerText }}>{problem}</div>}
+
+        {plan && (
+          <>
+            <div style={{ marginTop: 12, fontSize: 13 }}>
+              {t("import.summary", { new: count("new"), changed: count("changed"), unchanged: count("unchanged") })}
+              {count("error") ? t("import.withErrors", { n: count("error") }) : ""}
+            </div>
+            <div
+              style={{
+                marginTop: 8,
+                maxHeight: 260,
+                overflowY: "auto",
+                border: `1px solid ${colors.panelBorder}`,
+                borderRadius: 8,
+              }}
+            >
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                <tbody>
+                  {plan.map((c) => (
+                    <tr key={c.row.line} style={{ borderTop: `1px solid ${colors.panelBorder}` }}>
+                      <td style={{ padding: 6, color: colors.subtext }}>{c.row.line}</td>
+                      <td style={{ padding: 6, color: statusColor(c.status), fontWeight: 600 }}>{t(STATUS_LABEL[c.status])}</td>
+                      <td style={{ padding: 6 }}>
+                        {c.row.unit_no ? `${c.row.unit_no} · ` : ""}
+                        {c.row.name || "—"}
+                      </td>
+                      <td style={{ padding: 6, color: colors.subtext }}>
+                        {c.error ??
+                          (c.status === "changed"
+                            ? c.fields.map((f) => t(`field.${f}` as MessageKey)).join(", ")
+                            : c.row.location)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
+          <button onClick={onClose} style={buttonStyle}>
+            {t("common.cancel")}
+          </button>
+          <button onClick={preview} disabled={busy || !text.trim()} style={buttonStyle}>
+            {t("import.preview")}
+          </button>
+          <button
+            onClick={apply}
+            disabled={busy || pending.length === 0}
+            style={{ ...buttonStyle, background: colors.btnPrimaryBg, color: colors.btnPrimaryText }}
+          >
+            {pending.length ? tn("import.apply", pending.length) : t("import.applyNone")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from "react";
+import { browserTimeZone, fmtAvailability, parseAvailability } from "../lib/availability";
+import { errorText, fmtDayTime, type Translator } from "../lib/i18n";
+import { resolveLocation } from "../lib/locationApi";
+import { formatLocation, type ParsedLocation } from "../lib/locations";
+import { rankDriversForLoad } from "../lib/matching";
+import { canManageReserve } from "../lib/reserves";
+import type { Palette } from "../lib/theme";
+import type { Dispatcher, Driver } from "../lib/types";
+
+type Props = {
+  drivers: Driver[];
+  me: Dispatcher | null;
+  colors: Palette;
+  /** Opens the Reserve modal with the note prefilled */
+  onReserve: (d: Driver, note: string) => void;
+  /** Feeds the shared `location-suggestions` datalist */
+  onLocationInput: (text: string) => void;
+  onClose: () => void;
+  tr: Translator;
+  /** Dispatcher's time zone for pickup times and ETAs ("" = browser) */
+  timeZone: string;
+};
+
+type LoadQuery = { pickup: ParsedLocation; pickupAtMs: number; ref: string };
+
+const MAX_RESULTS = 10;
+
+/** "A load came in at X at time Y — who can take it?" */
+export default function MatchLoadPanel({ drivers, me, colors, onReserve, onLocationInput, onClose, tr, timeZone }: Props) {
+  const { t } = tr;
+  const zone = timeZone || browserTimeZone();
+  const fmtClock = (ms: number) => fmtDayTime(new Date(ms), tr.lang, timeZone);
+  const [pickupText, setPickupText] = useState("");
+  const [timeText, setTimeText] = useState("");
+  const [refText, setRefText] = useState("");
+  const [query, setQuery] = useState<LoadQuery | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const matches = useMemo(
+    () => (query ? rankDriversForLoad(drivers, query.pickup, query.pickupAtMs, me).slice(0, MAX_RESULTS) : []),
+    [drivers, query, me]
+  );
+
+  async function findDrivers() {
+    const when = parseAvailability(timeText, Date.now(), zone);
+    if (!when) {
+      setProblem(t("match.badTime"));
+      return;
+    }
+    const resolved = await resolveLocation(pickupText);
+    if ("error" in resolved || !resolved.location) {
+      setProblem(t("match.badPickup", { error: "error" in resolved ? errorText(resolved, tr) : t("match.enterPickup") }));
+      return;
+    }
+    setProblem(null);
+    setQuery({
+      pickup: resolved.location,
+      pickupAtMs: when === "now" ? Date.now() : when.at.getTime(),
+      ref: refText.trim(),
+    });
+  }
+
+  function loadNote(q: LoadQuery) {
+    const at = fmtAvailability(new Date(q.pickupAtMs).toISOString(), zone, tr.lang);
+    const pickup = formatLocation(q.pickup);
+    return q.ref ? t("match.note", { ref: q.ref, pickup, at }) : t("match.noteNoRef", { pickup, at });
+  }
+
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: 16,
+        padding: 16,
+        borderRadius: 16,
+        border: `1px solid ${colors.panelBorder}`,
+        background: colors.softBg,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <div style={{ fontWeight: 700 }}>{t("match.title")}</div>
+        <button
+          onClick={onClose}
+          style={{ ...inputStyle, padding: "4px 10px", borderRadius: 10, border: `1px solid ${colors.btnGhostBorder}` }}
+        >
+          {t("common.close")}
+        </button>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 12, alignItems: "flex-end" }}>
+        <div>
+          <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{t("match.pickup")}</label>
+          <input
+            value={pickupText}
+            onChange={(e) => {
+              setPickupText(e.target.value);
+              onLocationInput(e.target.value);
+            }}
+            list="location-suggestions"
+            placeholder={t("match.pickupPlaceholder")}
+            style={{ ...inputStyle, width: 220 }}
+          />
+        </div>
+        <div>
+          <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{t("match.pickupTime")}</label>
+          <input
+            value={timeText}
+            onChange={(e) => setTimeText(e.target.value)}
+            placeholder="now, 2pm, 6am tmrw"
+            style={{ ...inputStyle, width: 160 }}
+          />
+        </div>
+        <div>
+          <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{t("match.loadNo")}</label>
+          <input
+            value={refText}
+            onChange={(e) => setRefText(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && findDrivers()}
+            placeholder="LD-4821"
+            style={{ ...inputStyle, width: 120 }}
+          />
+        </div>
+        <button
+          onClick={findDrivers}
+          style={{
+            padding: "8px 12px",
+            borderRadius: 10,
+            border: `1px solid ${colors.btnGhostBorder}`,
+            background: colors.btnPrimaryBg,
+            color: colors.btnPrimaryText,
+          }}
+        >
+          {t("match.find")}
+        </button>
+      </div>
+
+      {problem && <div style={{ marginTop: 8, fontSize: 13, color: colors.dangerText }}>{problem}</div>}
+
+      {query && (
+        <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}>
+          <thead>
+            <tr style={{ fontSize: 12, color: colors.subtext }}>
+              <th style={{ textAlign: "left", padding: 6 }}>{t("match.driver")}</th>
+              <th style={{ textAlign: "left", padding: 6 }}>{t("match.nowAt")}</th>
+              <th style={{ textAlign: "right", padding: 6 }}>{t("match.deadhead")}</th>
+              <th style={{ textAlign: "left", padding: 6 }}>{t("match.free")}</th>
+              <th style={{ textAlign: "left", padding: 6 }}>{t("match.eta")}</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {matches.length === 0 && (
+              <tr>
+                <td colSpan={6} style={{ padding: 6, color: colors.subtext }}>
+                  {t("match.none")}
+                </td>
+              </tr>
+            )}
+            {matches.map((m) => (
+              <tr key={m.driver.id} style={{ borderTop: `1px solid ${colors.panelBorder}` }}>
+                <td style={{ padding: 6, fontWeight: 600 }}>
+                  {m.driver.unit_no ? `${m.driver.unit_no} · ` : ""}
+                  {m.driver.name}
+                </td>
+                <td style={{ padding: 6 }}>{m.driver.location ?? "—"}</td>
+                <td style={{ padding: 6, textAlign: "right" }}>{m.miles == null ? "?" : t("match.miles", { n: Math.round(m.miles) })}</td>
+                <td style={{ padding: 6 }}>{m.readyAtMs <= Date.now() ? t("match.now") : fmtClock(m.readyAtMs)}</td>
+                <td style={{ padding: 6, color: m.lateMinutes ? colors.warnText : colors.successText }}>
+                  {m.etaMs == null
+                    ? t("match.unknownLocation")
+                    : `${fmtClock(m.etaMs)}${m.lateMinutes ? t("match.late", { n: m.lateMinutes }) : t("match.onTime")}`}
+                </td>
+                <td style={{ padding: 6, textAlign: "right" }}>
+                  <button
+                    onClick={() => onReserve(m.driver, loadNote(query))}
+                    disabled={!canManageReserve(m.driver, me)}
+                    style={{
+                      padding: "4px 10px",
+                      borderRadius: 10,
+                      border: `1px solid ${colors.btnGhostBorder}`,
+                      background: colors.btnPrimaryBg,
+                      color: colors.btnPrimaryText,
+                    }}
+                  >
+                    {t("palette.action.reserve")}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
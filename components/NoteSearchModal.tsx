@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import type { Translator } from "../lib/i18n";
+import { searchNotes } from "../lib/notes";
+import { modalStyle, overlayStyle, type Palette } from "../lib/theme";
+import type { Driver, DriverNote } from "../lib/types";
+
+type Props = {
+  boardId: string;
+  drivers: Driver[];
+  colors: Palette;
+  onOpenDriver: (d: Driver) => void;
+  tr: Translator;
+  /** Timestamp formatter, so results follow the dispatcher's language and time zone */
+  fmtTime?: (iso: string) => string;
+  onClose: () => void;
+};
+
+const defaultFmtTime = (iso: string) => new Date(iso).toLocaleString();
+
+/** Searches note text (or `#tag`) across every driver on the board */
+export default function NoteSearchModal({ boardId, drivers, colors, onOpenDriver, tr, fmtTime = defaultFmtTime, onClose }: Props) {
+  const { t } = tr;
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<DriverNote[] | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function run() {
+    setBusy(true);
+    const { notes, error } = await searchNotes(query, boardId);
+    setBusy(false);
+    setProblem(error);
+    setResults(notes);
+  }
+
+  const driverById = (id: string) => drivers.find((d) => d.id === id);
+
+  return (
+    <div style={overlayStyle}>
+      <div
+        style={{
+          ...modalStyle,
+          width: 620,
+          background: colors.cardBg,
+          color: colors.text,
+          border: `1px solid ${colors.panelBorder}`,
+        }}
+      >
+        <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("notes.searchTitle")}</h3>
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && run()}
+            placeholder={t("notes.searchPlaceholder")}
+            style={{
+              flex: 1,
+              padding: 8,
+              border: `1px solid ${colors.panelBorder}`,
+              borderRadius: 8,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          />
+          <button
+            onClick={run}
+            disabled={busy || !query.trim()}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.btnPrimaryBg,
+              color: colors.btnPrimaryText,
+            }}
+          >
+            {t("notes.search")}
+          </button>
+        </div>
+
+        {problem && <div style={{ marginTop: 8, color: colors.dangerText }}>{problem}</div>}
+
+        {results && (
+          <div
+            style={{
+              marginTop: 12,
+              maxHeight: 360,
+              overflowY: "auto",
+              border: `1px solid ${colors.panelBorder}`,
+              borderRadius: 8,
+            }}
+          >
+            {results.length === 0 ? (
+              <div style={{ padding: 12, color: colors.subtext }}>{t("notes.noMatches")}</div>
+            ) : (
+              results.map((n) => {
+                const d = driverById(n.driver_id);
+                return (
+                  <div
+                    key={n.id}
+                    onClick={() => d && onOpenDriver(d)}
+                    style={{
+                      padding: 10,
+                      borderTop: `1px solid ${colors.panelBorder}`,
+                      cursor: d ? "pointer" : "default",
+                    }}
+                  >
+                    <div style={{ fontSize: 12, color: colors.subtext }}>
+                      {d ? `${d.unit_no ? `${d.unit_no} · ` : ""}${d.name}` : t("notes.unknownDriver")} ·{" "}
+                      {n.author_name || t("common.unknown")} · {fmtTime(n.created_at)}
+                      {n.pinned ? " · 📌" : ""}
+                    </div>
+                    <div>{n.body}</div>
+                    {n.tags && n.tags.length > 0 && (
+                      <div style={{ fontSize: 11, color: colors.subtext }}>{n.tags.map((tag) => `#${tag}`).join(" ")}</div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 14 }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("common.close")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
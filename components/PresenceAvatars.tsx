@@ -0,0 +1,33 @@
+import React from "react";
+import type { Translator } from "../lib/i18n";
+import { avatarColor, describeActivity, initials, type Peer } from "../lib/presence";
+
+type Props = { peers: Peer[]; tr: Translator; size?: number };
+
+/** Row of initials bubbles; hover shows what each dispatcher is doing */
+export default function PresenceAvatars({ peers, tr, size = 24 }: Props) {
+  return (
+    <span style={{ display: "inline-flex", gap: 4, verticalAlign: "middle" }}>
+      {peers.map((p) => (
+        <span
+          key={p.user_id}
+          title={describeActivity(p, tr)}
+          style={{
+            width: size,
+            height: size,
+            borderRadius: 999,
+            background: avatarColor(p.user_id),
+            color: "#ffffff",
+            fontSize: size * 0.42,
+            fontWeight: 700,
+            display: "inline-flex",
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          {initials(p.name)}
+        </span>
+      ))}
+    </span>
+  );
+}
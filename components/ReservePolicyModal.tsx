@@ -0,0 +1,134 @@
+import React, { useState } from "react";
+import { fmtDuration, type Translator } from "../lib/i18n";
+import { parseLimit, type ReservePolicy } from "../lib/reservePolicy";
+import { supabase } from "../lib/supabase";
+import { modalStyle, overlayStyle, type Palette } from "../lib/theme";
+import type { Dispatcher } from "../lib/types";
+
+type Props = {
+  policy: ReservePolicy;
+  me: Dispatcher;
+  colors: Palette;
+  onSaved: (p: ReservePolicy) => void;
+  onClose: () => void;
+  tr: Translator;
+  fmtTime: (iso: string) => string;
+};
+
+const text = (n: number | null) => (n == null ? "" : String(n));
+
+/** Admin-only editor for `reserve_policies` */
+export default function ReservePolicyModal({ policy, me, colors, onSaved, onClose, tr, fmtTime }: Props) {
+  const { t } = tr;
+  const [defaultMinutes, setDefaultMinutes] = useState(String(policy.default_minutes));
+  const [maxTotal, setMaxTotal] = useState(text(policy.max_total_minutes));
+  const [maxHolds, setMaxHolds] = useState(text(policy.max_holds_per_dispatcher));
+  const [noteOver, setNoteOver] = useState(text(policy.note_required_over_minutes));
+  const [problem, setProblem] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function save() {
+    const fields = {
+      default_minutes: parseLimit(defaultMinutes, t("policy.default"), tr, 1),
+      max_total_minutes: parseLimit(maxTotal, t("policy.max"), tr, 1),
+      max_holds_per_dispatcher: parseLimit(maxHolds, t("policy.holds"), tr, 1),
+      note_required_over_minutes: parseLimit(noteOver, t("policy.noteOver"), tr),
+    };
+    const bad = Object.values(fields).find((v) => typeof v === "string");
+    if (bad) {
+      setProblem(bad as string);
+      return;
+    }
+    if (fields.default_minutes === null) {
+      setProblem(t("policy.defaultRequired"));
+      return;
+    }
+    setBusy(true);
+    const { data, error } = await supabase
+      .from("reserve_policies")
+      .update({ ...fields, updated_at: new Date().toISOString(), updated_by_name: me.display_name })
+      .eq("id", true)
+      .select("*")
+      .maybeSingle();
+    setBusy(false);
+    if (error || !data) {
+      setProblem(error?.message ?? t("policy.adminsOnly"));
+      return;
+    }
+    onSaved(data as ReservePolicy);
+  }
+
+  const inputStyle: React.CSSProperties = {
+    width: 90,
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const row = (label: string, value: string, set: (v: string) => void, hint: string) => (
+    <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 10 }}>
+      <span style={{ flex: 1 }}>
+        {label}
+        <div style={{ fontSize: 12, color: colors.subtext }}>{hint}</div>
+      </span>
+      <input value={value} onChange={(e) => set(e.target.value)} inputMode="numeric" style={inputStyle} />
+    </label>
+  );
+
+  return (
+    <div style={overlayStyle}>
+      <div style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}>
+        <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("policy.title")}</h3>
+        <div style={{ fontSize: 12, color: colors.subtext, marginTop: 4 }}>
+          {t("policy.help")}
+          {policy.updated_by_name && policy.updated_at
+            ? t("policy.lastChanged", { name: policy.updated_by_name, time: fmtTime(policy.updated_at) })
+            : ""}
+        </div>
+
+        {row(t("policy.inMinutes", { label: t("policy.default") }), defaultMinutes, setDefaultMinutes, t("policy.defaultHint"))}
+        {row(
+          t("policy.inMinutes", { label: t("policy.max") }),
+          maxTotal,
+          setMaxTotal,
+          policy.max_total_minutes
+            ? t("policy.maxNow", { limit: fmtDuration(policy.max_total_minutes * 60, tr) })
+            : t("policy.maxHint")
+        )}
+        {row(t("policy.holds"), maxHolds, setMaxHolds, t("policy.holdsHint"))}
+        {row(t("policy.inMinutes", { label: t("policy.noteOver") }), noteOver, setNoteOver, t("policy.noteOverHint"))}
+
+        {problem && <div style={{ marginTop: 10, color: colors.dangerText }}>{problem}</div>}
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("common.cancel")}
+          </button>
+          <button
+            onClick={save}
+            disabled={busy}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.btnPrimaryBg,
+              color: colors.btnPrimaryText,
+            }}
+          >
+            {t("common.save")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useRef } from "react";
+import type { Translator } from "./i18n";
+import { isReserveActive } from "./reserves";
+import type { Dispatcher, Driver } from "./types";
+
+export type AlertSettings = {
+  enabled: boolean;
+  /** Minutes before expiry to warn at; 0 means "at expiry" */
+  thresholds: number[];
+  sound: boolean;
+  /** Mute alerts for holds owned by other dispatchers */
+  onlyMine: boolean;
+};
+
+export const defaultAlertSettings: AlertSettings = {
+  enabled: true,
+  thresholds: [5, 0],
+  sound: true,
+  onlyMine: true,
+};
+
+/** A threshold crossed longer ago than this (e.g. before the page was opened) is not announced */
+const LATE_GRACE_MS = 60_000;
+
+const storageKey = (userId: string) => `driver_alerts:${userId}`;
+
+export function loadAlertSettings(userId: string): AlertSettings {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    return raw ? { ...defaultAlertSettings, ...JSON.parse(raw) } : defaultAlertSettings;
+  } catch {
+    return defaultAlertSettings;
+  }
+}
+
+export function saveAlertSettings(userId: string, settings: AlertSettings) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(settings));
+}
+
+/** "5, 1, 0" → [5, 1, 0]; ignores junk, sorted high to low */
+export function parseThresholds(text: string) {
+  const nums = text
+    .split(/[\s,]+/)
+    .map((t) => Number(t))
+    .filter((n) => Number.isFinite(n) && n >= 0 && n <= 240);
+  return Array.from(new Set(nums)).sort((a, b) => b - a);
+}
+
+/** Short two-tone beep; no audio asset needed */
+export function playAlertSound() {
+  const Ctx = window.AudioContext ?? (window as any).webkitAudioContext;
+  if (!Ctx) return;
+  const ctx = new Ctx();
+  [880, 660].forEach((freq, i) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = freq;
+    gain.gain.value = 0.15;
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(ctx.currentTime + i * 0.2);
+    osc.stop(ctx.currentTime + i * 0.2 + 0.15);
+  });
+  setTimeout(() => ctx.close(), 1000);
+}
+
+/** One notification per driver: a later alert for the same hold replaces the earlier one, other drivers' stay */
+function notify(driverId: string, title: string, body: string) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return false;
+  new Notification(title, { body, tag: `reserve:${driverId}` });
+  return true;
+}
+
+/**
+ * Announces holds crossing the configured thresholds. Each (hold, threshold)
+ * pair fires once; extending a hold changes `reserve_until` and re-arms it.
+ * Falls back to `onFallback` (a toast) when notifications are not permitted.
+ */
+export function useExpiryAlerts(
+  drivers: Driver[],
+  me: Dispatcher | null,
+  settings: AlertSettings,
+  onFallback: (msg: string) => void,
+  tr: Translator
+) {
+  const fired = useRef(new Set<string>());
+  const latest = useRef({ drivers, me, settings, onFallback, tr });
+  latest.current = { drivers, me, settings, onFallback, tr };
+
+  useEffect(() => {
+    const id = setInterval(() => {
+      const { drivers, me, settings, onFallback, tr } = latest.current;
+      if (!settings.enabled || !me) return;
+      const nowMs = Date.now();
+
+      for (const d of drivers) {
+        if (!d.reserve_until || d.archived_at) continue;
+        if (settings.onlyMine && d.reserved_by && d.reserved_by !== me.id) continue;
+        const msLeft = new Date(d.reserve_until).getTime() - nowMs;
+
+        for (const t of settings.thresholds) {
+          const tMs = t * 60_000;
+          const key = `${d.id}:${d.reserve_until}:${t}`;
+          if (msLeft > tMs || msLeft <= tMs - LATE_GRACE_MS || fired.current.has(key)) continue;
+          fired.current.add(key);
+
+          const label = d.unit_no ? `${d.unit_no} ${d.name}` : d.name;
+          const msg =
+            t === 0 || !isReserveActive(d, nowMs)
+              ? tr.t("alerts.expired", { label })
+              : tr.t("alerts.endsIn", { label, n: t });
+          if (!notify(d.id, tr.t("alerts.notifyTitle"), msg) || document.visibilityState === "visible") onFallback(msg);
+          if (settings.sound) playAlertSound();
+        }
+      }
+    }, 1000);
+    return () => clearInterval(id);
+  }, []);
+}
+
+/** How long after leaving the queue a hand-off is still announced (realtime events can arrive out of order) */
+const HANDOFF_GRACE_MS = 15_000;
+
+/**
+ * Announces a hold landing on `me` from the waitlist: a driver we were queued
+ * for becomes reserved by us. Returns `forget(driverId)` for holds we took
+ * ourselves, so those stay quiet.
+ */
+export function useHandOffAlerts(
+  drivers: Driver[],
+  queuedDriverIds: string[],
+  me: Dispatcher | null,
+  settings: AlertSettings,
+  onFallback: (msg: string) => void,
+  { t }: Translator
+) {
+  const lastQueued = useRef(new Map<string, number>());
+  const nowMs = Date.now();
+  for (const id of queuedDriverIds) lastQueued.current.set(id, nowMs);
+
+  useEffect(() => {
+    if (!me) return;
+    for (const [id, at] of Array.from(lastQueued.current)) {
+      const d = drivers.find((x) => x.id === id);
+      if (d && d.reserved_by === me.id && isReserveActive(d, nowMs) && !queuedDriverIds.includes(id)) {
+        lastQueued.current.delete(id);
+        const label = d.unit_no ? `${d.unit_no} ${d.name}` : d.name;
+        const msg = t("alerts.handedOff", { label });
+        if (!settings.enabled) continue;
+        if (!notify(d.id, t("alerts.notifyTitle"), msg) || document.visibilityState === "visible") onFallback(msg);
+        if (settings.sound) playAlertSound();
+      } else if (!queuedDriverIds.includes(id) && nowMs - at > HANDOFF_GRACE_MS) {
+        lastQueued.current.delete(id);
+      }
+    }
+  });
+
+  return (driverId: string) => lastQueued.current.delete(driverId);
+}
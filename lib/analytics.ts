@@ -0,0 +1,153 @@
+import { toCsv } from "./csv";
+import type { AvailabilityLogEntry, Driver, ReserveEvent } from "./types";
+
+export type HoldOutcome = "released" | "expired" | "open";
+
+/** One hold, rebuilt from its reserve events */
+export type HoldRecord = {
+  driver_id: string;
+  dispatcher_id: string | null;
+  dispatcher_name: string;
+  /** null when the hold started before the loaded range */
+  started_at: string | null;
+  ended_at: string | null;
+  outcome: HoldOutcome;
+  held_seconds: number | null;
+  /** Time the driver sat available before this (first) reserve */
+  idle_seconds: number | null;
+};
+
+export type HoldStats = {
+  key: string;
+  label: string;
+  holds: number;
+  released: number;
+  expired: number;
+  open: number;
+  totalSeconds: number;
+  avgSeconds: number | null;
+  medianSeconds: number | null;
+};
+
+const ms = (iso: string) => new Date(iso).getTime();
+
+export function median(values: number[]) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function average(values: number[]) {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+/**
+ * Pairs start events (started/handed_off) with the release or expiry that ends
+ * them, per driver. Ends without a start in range still count, using the
+ * event's own `held_seconds`. Idle time is measured from the availability in
+ * effect when the hold started, for the first hold after each change only.
+ */
+export function buildHolds(events: ReserveEvent[], availability: AvailabilityLogEntry[] = []): HoldRecord[] {
+  const holds: HoldRecord[] = [];
+  const open = new Map<string, HoldRecord>();
+  const sorted = [...events].sort((a, b) => ms(a.created_at) - ms(b.created_at) || a.seq - b.seq);
+
+  for (const ev of sorted) {
+    if (ev.kind === "started" || ev.kind === "handed_off") {
+      const rec: HoldRecord = {
+        driver_id: ev.driver_id,
+        dispatcher_id: ev.actor_id,
+        dispatcher_name: ev.actor_name ?? "Unknown",
+        started_at: ev.created_at,
+        ended_at: null,
+        outcome: "open",
+        held_seconds: null,
+        idle_seconds: null,
+      };
+      open.set(ev.driver_id, rec);
+      holds.push(rec);
+    } else if (ev.kind === "released" || ev.kind === "expired") {
+      let rec = open.get(ev.driver_id);
+      if (!rec) {
+        rec = {
+          driver_id: ev.driver_id,
+          dispatcher_id: ev.kind === "released" ? ev.actor_id : null,
+          dispatcher_name: ev.kind === "released" ? ev.actor_name ?? "Unknown" : "Unknown",
+          started_at: null,
+          ended_at: null,
+          outcome: "open",
+          held_seconds: null,
+          idle_seconds: null,
+        };
+        holds.push(rec);
+      }
+      open.delete(ev.driver_id);
+      rec.ended_at = ev.created_at;
+      rec.outcome = ev.kind;
+      rec.held_seconds =
+        ev.held_seconds ?? (rec.started_at ? Math.round((ms(ev.created_at) - ms(rec.started_at)) / 1000) : null);
+    }
+  }
+
+  const byDriver = new Map<string, AvailabilityLogEntry[]>();
+  for (const a of [...availability].sort((x, y) => ms(x.created_at) - ms(y.created_at))) {
+    byDriver.set(a.driver_id, [...(byDriver.get(a.driver_id) ?? []), a]);
+  }
+  const used = new Set<string>();
+  for (const rec of holds) {
+    if (!rec.started_at) continue;
+    const startMs = ms(rec.started_at);
+    const entries = byDriver.get(rec.driver_id) ?? [];
+    const current = entries.filter((a) => ms(a.created_at) <= startMs).pop();
+    if (!current || used.has(current.id)) continue;
+    used.add(current.id);
+    const fromMs = current.available_at ? ms(current.available_at) : ms(current.created_at);
+    rec.idle_seconds = Math.max(0, Math.round((startMs - fromMs) / 1000));
+  }
+
+  return holds;
+}
+
+/** Groups holds (by dispatcher, driver…) into counts and durations, busiest first */
+export function summarizeHolds(holds: HoldRecord[], keyOf: (h: HoldRecord) => string, labelOf: (key: string) => string) {
+  const groups = new Map<string, HoldRecord[]>();
+  for (const h of holds) groups.set(keyOf(h), [...(groups.get(keyOf(h)) ?? []), h]);
+  return Array.from(groups, ([key, list]): HoldStats => {
+    const durations = list.map((h) => h.held_seconds).filter((s): s is number => s != null);
+    return {
+      key,
+      label: labelOf(key),
+      holds: list.length,
+      released: list.filter((h) => h.outcome === "released").length,
+      expired: list.filter((h) => h.outcome === "expired").length,
+      open: list.filter((h) => h.outcome === "open").length,
+      totalSeconds: durations.reduce((a, b) => a + b, 0),
+      avgSeconds: average(durations),
+      medianSeconds: median(durations),
+    };
+  }).sort((a, b) => b.holds - a.holds || a.label.localeCompare(b.label));
+}
+
+export function driverLabel(d: Pick<Driver, "unit_no" | "name"> | undefined) {
+  if (!d) return "Removed driver";
+  return d.unit_no ? `${d.unit_no} ${d.name}` : d.name;
+}
+
+/** The hold records behind the dashboard, one row each */
+export function holdsCsv(holds: HoldRecord[], drivers: Driver[]) {
+  const byId = new Map(drivers.map((d) => [d.id, d]));
+  const minutes = (s: number | null) => (s == null ? "" : (s / 60).toFixed(1));
+  return toCsv([
+    ["driver", "dispatcher", "started_at", "ended_at", "outcome", "held_minutes", "idle_minutes"],
+    ...holds.map((h) => [
+      driverLabel(byId.get(h.driver_id)),
+      h.dispatcher_name,
+      h.started_at ?? "",
+      h.ended_at ?? "",
+      h.outcome,
+      minutes(h.held_seconds),
+      minutes(h.idle_seconds),
+    ]),
+  ]);
+}
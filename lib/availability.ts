@@ -0,0 +1,207 @@
+/**
+ * Structured availability. Dispatchers keep typing the same free text
+ * ("ava now", "6am tmrw", "10/21 14:00 CST"); we store that text verbatim in
+ * `available_time` (so `copyUpdate` output is unchanged) plus the parsed
+ * instant in `available_at` and the zone it was meant in `available_tz`.
+ * `available_at = null` means available now, unless `available_unparsed` says
+ * the text could not be read — then nobody knows when the driver is free.
+ */
+
+import { LOCALES, type Lang } from "./i18n";
+
+export type AvailabilityPatch = {
+  available_time: string | null;
+  available_at: string | null;
+  available_tz: string | null;
+  available_unparsed: boolean;
+};
+
+/** "now", or the instant plus the zone it was typed in */
+export type ParsedAvailability = "now" | { at: Date; tz: string };
+
+const TZ_ABBR: Record<string, string> = {
+  et: "America/New_York",
+  est: "America/New_York",
+  edt: "America/New_York",
+  ct: "America/Chicago",
+  cst: "America/Chicago",
+  cdt: "America/Chicago",
+  mt: "America/Denver",
+  mst: "America/Denver",
+  mdt: "America/Denver",
+  pt: "America/Los_Angeles",
+  pst: "America/Los_Angeles",
+  pdt: "America/Los_Angeles",
+  az: "America/Phoenix",
+};
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const NOW_WORDS = new Set(["now", "asap", "rn", "ready", "immediately"]);
+const FILLER = new Set(["ava", "avail", "available", "at", "@", "by", "after", "around", "from", "on", "~"]);
+
+export function browserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "America/Chicago";
+}
+
+/** Milliseconds the zone is ahead of UTC at instant `ms` */
+function zoneOffset(ms: number, tz: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(ms));
+  const get = (t: string) => Number(parts.find((p) => p.type === t)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - ms;
+}
+
+/** Wall-clock date/time in `tz` → UTC instant (DST-aware) */
+function zonedToUtc(y: number, mo: number, d: number, h: number, mi: number, tz: string) {
+  const guess = Date.UTC(y, mo, d, h, mi);
+  const first = guess - zoneOffset(guess, tz);
+  return new Date(guess - zoneOffset(first, tz));
+}
+
+/** Today's calendar date (and weekday) in `tz` */
+function zonedToday(nowMs: number, tz: string) {
+  const shifted = new Date(nowMs + zoneOffset(nowMs, tz));
+  return { y: shifted.getUTCFullYear(), mo: shifted.getUTCMonth(), d: shifted.getUTCDate(), dow: shifted.getUTCDay() };
+}
+
+/** Last millisecond of today's calendar date in `tz` */
+export function endOfDayMs(nowMs: number, tz = browserTimeZone()) {
+  const { y, mo, d } = zonedToday(nowMs, tz);
+  return zonedToUtc(y, mo, d + 1, 0, 0, tz).getTime() - 1;
+}
+
+function isZone(tz: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Reads dispatcher shorthand; returns null when the text is not a time we understand */
+export function parseAvailability(text: string, nowMs = Date.now(), defaultTz = browserTimeZone()): ParsedAvailability | null {
+  const raw = text.trim();
+  if (!raw) return "now";
+
+  let tz = defaultTz;
+  let dayOffset: number | null = null;
+  let date: { mo: number; d: number; y?: number } | null = null;
+  let weekday: number | null = null;
+  let time: { h: number; mi: number } | null = null;
+
+  const words = raw
+    .replace(/,/g, " ")
+    .replace(/(\d)\s+(am|pm|a|p)\b/gi, "$1$2")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  for (const word of words) {
+    const tok = word.toLowerCase();
+    let m: RegExpMatchArray | null;
+    if (FILLER.has(tok) || NOW_WORDS.has(tok)) continue;
+    if (TZ_ABBR[tok]) {
+      tz = TZ_ABBR[tok];
+      continue;
+    }
+    if (/^[a-z]+\/[a-z_]+$/i.test(word) && isZone(word)) {
+      tz = word;
+      continue;
+    }
+    if (["today", "tdy", "tonight", "tonite"].includes(tok)) {
+      dayOffset = 0;
+      continue;
+    }
+    if (["tomorrow", "tmrw", "tmr", "tom", "tmw"].includes(tok)) {
+      dayOffset = 1;
+      continue;
+    }
+    if ((m = tok.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/))) {
+      const y = m[3] ? Number(m[3].length === 2 ? `20${m[3]}` : m[3]) : undefined;
+      date = { mo: Number(m[1]) - 1, d: Number(m[2]), y };
+      continue;
+    }
+    if (/^[a-z]+$/.test(tok) && WEEKDAYS.includes(tok.slice(0, 3))) {
+      weekday = WEEKDAYS.indexOf(tok.slice(0, 3));
+      continue;
+    }
+    if (tok === "noon" || tok === "midnight") {
+      time = { h: tok === "noon" ? 12 : 0, mi: 0 };
+      continue;
+    }
+    if ((m = tok.match(/^([01]\d|2[0-3])([0-5]\d)$/))) {
+      time = { h: Number(m[1]), mi: Number(m[2]) };
+      continue;
+    }
+    if ((m = tok.match(/^(\d{1,2})(?::(\d{2}))?(am|pm|a|p)?$/))) {
+      let h = Number(m[1]);
+      const mi = m[2] ? Number(m[2]) : 0;
+      const ampm = m[3]?.[0];
+      if (ampm && (h < 1 || h > 12)) return null;
+      if (ampm === "p" && h < 12) h += 12;
+      if (ampm === "a" && h === 12) h = 0;
+      if (h > 23 || mi > 59) return null;
+      time = { h, mi };
+      continue;
+    }
+    return null;
+  }
+
+  // only "ava", "now", a zone… — nothing time-like
+  if (!time && !date && dayOffset === null && weekday === null) return "now";
+
+  const today = zonedToday(nowMs, tz);
+  let y = today.y;
+  let mo = today.mo;
+  let d = today.d;
+  if (date) {
+    mo = date.mo;
+    d = date.d;
+    if (mo < 0 || mo > 11 || d < 1 || d > 31) return null;
+    if (date.y) y = date.y;
+    else if (Date.UTC(y, mo, d) < Date.UTC(today.y, today.mo, today.d) - 60 * 86_400_000) y += 1;
+    // 2/30, 4/31, 2/29 outside leap years
+    if (d > new Date(Date.UTC(y, mo + 1, 0)).getUTCDate()) return null;
+  } else if (weekday !== null) {
+    d += (weekday - today.dow + 7) % 7;
+  } else if (dayOffset !== null) {
+    d += dayOffset;
+  }
+
+  const at = zonedToUtc(y, mo, d, time?.h ?? 0, time?.mi ?? 0, tz);
+  return { at, tz };
+}
+
+/** Column values for a typed availability text */
+export function availabilityPatch(text: string, nowMs = Date.now(), defaultTz = browserTimeZone()): AvailabilityPatch {
+  const clean = text.trim();
+  const parsed = parseAvailability(clean, nowMs, defaultTz);
+  if (!parsed || parsed === "now") {
+    return { available_time: clean || null, available_at: null, available_tz: null, available_unparsed: !parsed };
+  }
+  return { available_time: clean, available_at: parsed.at.toISOString(), available_tz: parsed.tz, available_unparsed: false };
+}
+
+/** "Tue 10/21 06:00 CDT" in the zone the time was entered in, in the dispatcher's language */
+export function fmtAvailability(at: string, tz?: string | null, lang: Lang = "en") {
+  return new Intl.DateTimeFormat(LOCALES[lang], {
+    timeZone: tz || undefined,
+    weekday: "short",
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  })
+    .format(new Date(at))
+    .replace(/,/g, "");
+}
@@ -0,0 +1,156 @@
+import { browserTimeZone, parseAvailability } from "./availability";
+import { DRIVER_STATUSES, driverStatus } from "./driverStatus";
+import { isReserveActive } from "./reserves";
+import type { Driver, DriverStatus } from "./types";
+
+/** Board toolbar state: search, filters, sort and grouping (persisted per dispatcher) */
+
+export type ReserveFilter = "all" | "reserved" | "free" | "expired";
+export type SortKey = "board" | "unit" | "name" | "status" | "location" | "available" | "reserve";
+export type SortDir = "asc" | "desc";
+
+export type BoardView = {
+  search: string;
+  reserve: ReserveFilter;
+  /** Duty status, "" for any */
+  status: DriverStatus | "";
+  /** Two-letter state, "" for any */
+  state: string;
+  /** Free text such as "6pm" or "tmrw 8am"; "" for no limit */
+  availableBefore: string;
+  sortKey: SortKey;
+  sortDir: SortDir;
+  groupByState: boolean;
+};
+
+export type DriverGroup = { key: string; label: string; drivers: Driver[] };
+
+export const defaultBoardView: BoardView = {
+  search: "",
+  reserve: "all",
+  status: "",
+  state: "",
+  availableBefore: "",
+  sortKey: "board",
+  sortDir: "asc",
+  groupByState: false,
+};
+
+const storageKey = (userId: string) => `driver_board_view:${userId}`;
+
+export function loadBoardView(userId: string): BoardView {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    return raw ? { ...defaultBoardView, ...JSON.parse(raw) } : defaultBoardView;
+  } catch {
+    return defaultBoardView;
+  }
+}
+
+export function saveBoardView(userId: string, view: BoardView) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(view));
+}
+
+export function isViewFiltered(v: BoardView) {
+  return !!(v.search.trim() || v.reserve !== "all" || v.status || v.state || v.availableBefore.trim());
+}
+
+/** When the driver is free; available-now drivers sort first, unreadable text last */
+export function availableAtMs(d: Driver) {
+  if (d.available_unparsed) return Infinity;
+  return d.available_at ? new Date(d.available_at).getTime() : 0;
+}
+
+const textCmp = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+/** Rows with nothing to sort on for `key` (no unit, no location, unreadable availability, no active hold) */
+function sortBlank(key: SortKey, d: Driver, nowMs: number) {
+  switch (key) {
+    case "unit":
+      return !d.unit_no;
+    case "location":
+      return !d.location_state && !d.location;
+    case "available":
+      return !!d.available_unparsed;
+    case "reserve":
+      return !isReserveActive(d, nowMs);
+    default:
+      return false;
+  }
+}
+
+/** Comparator for `key` in `dir`; blanks go last either way. "board" keeps the incoming order. */
+export function driverComparator(
+  key: SortKey,
+  nowMs = Date.now(),
+  dir: SortDir = "asc"
+): ((a: Driver, b: Driver) => number) | null {
+  let cmp: (a: Driver, b: Driver) => number;
+  switch (key) {
+    case "unit":
+      cmp = (a, b) => textCmp(a.unit_no, b.unit_no);
+      break;
+    case "name":
+      cmp = (a, b) => textCmp(a.name, b.name);
+      break;
+    case "status":
+      cmp = (a, b) => DRIVER_STATUSES.indexOf(driverStatus(a)) - DRIVER_STATUSES.indexOf(driverStatus(b));
+      break;
+    case "location":
+      cmp = (a, b) =>
+        textCmp(a.location_state || "~", b.location_state || "~") || textCmp(a.location || "~", b.location || "~");
+      break;
+    case "available":
+      cmp = (a, b) => availableAtMs(a) - availableAtMs(b);
+      break;
+    case "reserve":
+      cmp = (a, b) => new Date(a.reserve_until as string).getTime() - new Date(b.reserve_until as string).getTime();
+      break;
+    default:
+      return null;
+  }
+  const sign = dir === "asc" ? 1 : -1;
+  return (a, b) => {
+    const blankA = sortBlank(key, a, nowMs);
+    const blankB = sortBlank(key, b, nowMs);
+    if (blankA || blankB) return blankA === blankB ? 0 : blankA ? 1 : -1;
+    return sign * cmp(a, b);
+  };
+}
+
+function matchesReserve(d: Driver, f: ReserveFilter, nowMs: number) {
+  const active = isReserveActive(d, nowMs);
+  if (f === "reserved") return active;
+  if (f === "free") return !active;
+  if (f === "expired") return !!d.reserve_until && !active;
+  return true;
+}
+
+/** Filters, sorts and groups the roster; "available before" is read in `tz` */
+export function applyBoardView(drivers: Driver[], v: BoardView, nowMs = Date.now(), tz = browserTimeZone()): DriverGroup[] {
+  const q = v.search.trim().toLowerCase();
+  const before = v.availableBefore.trim() ? parseAvailability(v.availableBefore, nowMs, tz) : null;
+  const beforeMs = before === "now" ? nowMs : before ? before.at.getTime() : null;
+
+  const rows = drivers.filter((d) => {
+    if (q && ![d.name, d.unit_no, d.location].some((f) => (f ?? "").toLowerCase().includes(q))) return false;
+    if (!matchesReserve(d, v.reserve, nowMs)) return false;
+    if (v.status && driverStatus(d) !== v.status) return false;
+    if (v.state && d.location_state !== v.state) return false;
+    if (beforeMs != null && availableAtMs(d) > beforeMs) return false;
+    return true;
+  });
+
+  const cmp = driverComparator(v.sortKey, nowMs, v.sortDir);
+  if (cmp) rows.sort(cmp);
+
+  if (!v.groupByState) return [{ key: "all", label: "", drivers: rows }];
+  const groups = new Map<string, Driver[]>();
+  for (const d of rows) {
+    const key = d.location_state || "";
+    groups.set(key, [...(groups.get(key) ?? []), d]);
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => textCmp(a || "~", b || "~"))
+    .map(([key, list]) => ({ key: key || "none", label: key || "No state", drivers: list }));
+}
@@ -0,0 +1,24 @@
+import type { Board } from "./types";
+
+const lastBoardKey = (userId: string) => `driver_board:${userId}`;
+
+export function boardPath(boardId: string) {
+  return `/boards/${encodeURIComponent(boardId)}`;
+}
+
+export function loadLastBoardId(userId: string) {
+  try {
+    return localStorage.getItem(lastBoardKey(userId));
+  } catch {
+    return null;
+  }
+}
+
+export function saveLastBoardId(userId: string, boardId: string) {
+  localStorage.setItem(lastBoardKey(userId), boardId);
+}
+
+/** Board to open from `/`: the last one used if still allowed, else the first by name */
+export function pickBoard(boards: Board[], lastId: string | null) {
+  return boards.find((b) => b.id === lastId) ?? boards[0] ?? null;
+}
@@ -0,0 +1,111 @@
+import type { Driver } from "./types";
+
+/** Command palette grammar: `<action> <unit or name> [minutes] [note…]`, e.g. "reserve 1401 30 min no NYC" */
+
+export type CommandAction = "reserve" | "extend" | "shorten" | "reset" | "profile" | "copy";
+
+export type PaletteCommand = {
+  action: CommandAction;
+  /** What was typed for the driver */
+  query: string;
+  driver: Driver | null;
+  minutes: number | null;
+  note: string;
+};
+
+const ACTION_WORDS: Record<string, CommandAction> = {
+  reserve: "reserve",
+  res: "reserve",
+  r: "reserve",
+  hold: "reserve",
+  extend: "extend",
+  ext: "extend",
+  e: "extend",
+  shorten: "shorten",
+  s: "shorten",
+  reset: "reset",
+  release: "reset",
+  x: "reset",
+  profile: "profile",
+  p: "profile",
+  notes: "profile",
+  copy: "copy",
+  c: "copy",
+};
+
+/**
+ * Subsequence match: every query character appears in order. Higher is
+ * better; consecutive runs and word starts score extra. -1 = no match.
+ */
+export function fuzzyScore(query: string, text: string) {
+  const q = query.toLowerCase().replace(/\s+/g, "");
+  const t = text.toLowerCase();
+  if (!q) return 0;
+  let score = 0;
+  let ti = 0;
+  let prev = -2;
+  for (const ch of q) {
+    const at = t.indexOf(ch, ti);
+    if (at === -1) return -1;
+    score += at === prev + 1 ? 3 : 1;
+    if (at === 0 || t[at - 1] === " ") score += 2;
+    prev = at;
+    ti = at + 1;
+  }
+  return score - (t.length - q.length) * 0.01;
+}
+
+/** Best drivers for a query: exact unit first, then fuzzy name/unit */
+export function findDrivers(query: string, drivers: Driver[], limit = 8) {
+  const q = query.trim();
+  if (!q) return drivers.slice(0, limit);
+  const unit = drivers.find((d) => (d.unit_no ?? "").toLowerCase() === q.toLowerCase());
+  const scored = drivers
+    .filter((d) => d !== unit)
+    .map((d) => {
+      const unitScore = fuzzyScore(q, d.unit_no ?? "");
+      return { d, score: Math.max(fuzzyScore(q, d.name), unitScore >= 0 ? unitScore + 1 : -1) };
+    })
+    .filter((x) => x.score >= 0)
+    .sort((a, b) => b.score - a.score)
+    .map((x) => x.d);
+  return (unit ? [unit, ...scored] : scored).slice(0, limit);
+}
+
+/** "30", "30m", "30 min", "1h", "1.5 hours" → minutes; consumes the unit word when present */
+function readMinutes(words: string[], i: number): { minutes: number; next: number } | null {
+  const m = words[i]?.toLowerCase().match(/^(\d+(?:\.\d+)?)(m|min|mins|h|hr|hrs|hour|hours)?$/);
+  if (!m) return null;
+  let unit = m[2];
+  let next = i + 1;
+  if (!unit && /^(m|min|mins|minutes|h|hr|hrs|hour|hours)$/i.test(words[next] ?? "")) {
+    unit = words[next].toLowerCase();
+    next++;
+  }
+  const n = Number(m[1]);
+  const minutes = Math.round(unit && unit.startsWith("h") ? n * 60 : n);
+  return minutes > 0 ? { minutes, next } : null;
+}
+
+/**
+ * Reads palette text. The driver part runs up to the first number (the
+ * minutes); the rest is the note. Returns null until an action word is typed.
+ * `driver` is the best match, so the palette can show what Enter will do.
+ */
+export function parseCommand(text: string, drivers: Driver[]): PaletteCommand | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const action = ACTION_WORDS[words[0]?.toLowerCase() ?? ""];
+  if (!action) return null;
+  if (action === "copy") return { action, query: "", driver: null, minutes: null, note: "" };
+
+  // a unit number can look like minutes, so the first word after the action is always the driver
+  let i = 1;
+  const who: string[] = [];
+  while (i < words.length && (who.length === 0 || !readMinutes(words, i))) who.push(words[i++]);
+  const read = readMinutes(words, i);
+  const minutes = read ? read.minutes : null;
+  const note = words.slice(read ? read.next : i).join(" ");
+  const query = who.join(" ");
+  const driver = query ? findDrivers(query, drivers, 1)[0] ?? null : null;
+  return { action, query, driver, minutes, note };
+}
@@ -0,0 +1,170 @@
+import { browserTimeZone, endOfDayMs } from "./availability";
+import { availableAtMs, driverComparator, type SortKey } from "./boardView";
+import { csvCell } from "./csv";
+import { isDispatchable } from "./driverStatus";
+import { isReserveActive } from "./reserves";
+import type { Driver } from "./types";
+
+/**
+ * Copy Update templates. A template is one line per driver with {placeholders};
+ * Markdown and CSV outputs turn the placeholders used in that line into columns.
+ * The built-in "Group update" reproduces the original hard-coded text exactly.
+ * Drivers who are not dispatchable (on load, off duty…) are always left out.
+ */
+
+export type CopyFormat = "text" | "markdown" | "csv";
+export type CopyFilter = "all" | "unreserved" | "today";
+export type CopyOrder = Exclude<SortKey, "reserve" | "status">;
+
+export type CopyTemplate = {
+  id: string;
+  name: string;
+  line: string;
+  /** Between drivers in text output */
+  separator: "blank" | "newline";
+  format: CopyFormat;
+  filter: CopyFilter;
+  order: CopyOrder;
+  builtin?: boolean;
+};
+
+export const PLACEHOLDERS = {
+  unit: "Unit",
+  name: "Name",
+  location: "Location",
+  state: "State",
+  zip: "ZIP",
+  availability: "Availability",
+  reserve: "Reserve",
+  holder: "Reserved by",
+} as const;
+
+type Placeholder = keyof typeof PLACEHOLDERS;
+
+export const BUILTIN_TEMPLATES: CopyTemplate[] = [
+  {
+    id: "group",
+    name: "Group update",
+    line: "{name} // {location} {availability}",
+    separator: "blank",
+    format: "text",
+    filter: "all",
+    order: "board",
+    builtin: true,
+  },
+  {
+    id: "units",
+    name: "With unit numbers",
+    line: "{unit} {name} // {location} {availability}",
+    separator: "newline",
+    format: "text",
+    filter: "all",
+    order: "unit",
+    builtin: true,
+  },
+  {
+    id: "free-table",
+    name: "Free trucks (Markdown)",
+    line: "{unit} {name} {location} {availability}",
+    separator: "newline",
+    format: "markdown",
+    filter: "unreserved",
+    order: "location",
+    builtin: true,
+  },
+];
+
+const TEMPLATES_KEY = "driver_copy_templates";
+const SELECTED_KEY = "driver_copy_template";
+
+export function loadTemplates(): CopyTemplate[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? "[]") as CopyTemplate[];
+    return [...BUILTIN_TEMPLATES, ...saved.filter((t) => !t.builtin)];
+  } catch {
+    return BUILTIN_TEMPLATES;
+  }
+}
+
+export function saveTemplates(all: CopyTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(all.filter((t) => !t.builtin)));
+}
+
+export function loadSelectedTemplateId() {
+  return localStorage.getItem(SELECTED_KEY) ?? "group";
+}
+
+export function saveSelectedTemplateId(id: string) {
+  localStorage.setItem(SELECTED_KEY, id);
+}
+
+function placeholderValue(d: Driver, key: Placeholder, nowMs: number) {
+  switch (key) {
+    case "unit":
+      return d.unit_no?.trim() ?? "";
+    case "name":
+      return d.name?.trim() ?? "";
+    case "location":
+      return (d.location ?? "").toUpperCase();
+    case "state":
+      return d.location_state ?? "";
+    case "zip":
+      return d.location_zip ?? "";
+    case "availability":
+      return (d.available_time ?? "").trim() || "ava now";
+    case "reserve":
+      return isReserveActive(d, nowMs) ? "reserved" : "";
+    case "holder":
+      return isReserveActive(d, nowMs) ? d.reserved_by_name ?? "" : "";
+  }
+}
+
+/** Placeholders in the order they appear in the line (unknown ones ignored) */
+export function usedPlaceholders(line: string): Placeholder[] {
+  const found = Array.from(line.matchAll(/\{(\w+)\}/g), (m) => m[1]).filter((k): k is Placeholder => k in PLACEHOLDERS);
+  return Array.from(new Set(found));
+}
+
+/** "today" ends at midnight in `tz`, the dispatcher's zone */
+export function selectDrivers(
+  drivers: Driver[],
+  t: Pick<CopyTemplate, "filter" | "order">,
+  nowMs = Date.now(),
+  tz = browserTimeZone()
+) {
+  const picked = drivers.filter((d) => {
+    if (!isDispatchable(d)) return false;
+    if (t.filter === "unreserved") return !isReserveActive(d, nowMs);
+    if (t.filter === "today") return availableAtMs(d) <= endOfDayMs(nowMs, tz);
+    return true;
+  });
+  const cmp = driverComparator(t.order, nowMs);
+  return cmp ? [...picked].sort(cmp) : picked;
+}
+
+export function renderUpdate(drivers: Driver[], t: CopyTemplate, nowMs = Date.now(), tz = browserTimeZone()) {
+  const rows = selectDrivers(drivers, t, nowMs, tz);
+  const cols = usedPlaceholders(t.line);
+
+  if (t.format === "csv") {
+    const header = cols.map((c) => csvCell(PLACEHOLDERS[c])).join(",");
+    return [header, ...rows.map((d) => cols.map((c) => csvCell(placeholderValue(d, c, nowMs))).join(","))].join("\n");
+  }
+
+  if (t.format === "markdown") {
+    const esc = (v: string) => v.replace(/\|/g, "\\|");
+    return [
+      `| ${cols.map((c) => PLACEHOLDERS[c]).join(" | ")} |`,
+      `| ${cols.map(() => "---").join(" | ")} |`,
+      ...rows.map((d) => `| ${cols.map((c) => esc(placeholderValue(d, c, nowMs))).join(" | ")} |`),
+    ].join("\n");
+  }
+
+  const lines = rows.map((d) =>
+    t.line
+      .replace(/\{(\w+)\}/g, (whole, key) => (key in PLACEHOLDERS ? placeholderValue(d, key as Placeholder, nowMs) : whole))
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+  return lines.join(t.separator === "blank" ? "\n\n" : "\n");
+}
@@ -0,0 +1,34 @@
+import type { Board } from "./types";
+
+/** Response of POST /api/display/session */
+export type DisplaySession = {
+  /** Short-lived anon JWT that can only read the token's board */
+  access_token: string;
+  expires_at: string;
+  board: Board;
+};
+
+export type DisplaySessionResponse = DisplaySession | { error: string };
+
+/** The JWT lives an hour; the page trades the share token for a new one well before that */
+export const DISPLAY_JWT_TTL_SECONDS = 60 * 60;
+export const DISPLAY_REFRESH_MS = 15 * 60_000;
+
+/** How long each page of drivers stays up before the display flips */
+export const DISPLAY_PAGE_SECONDS = 12;
+
+export function displayUrl(origin: string, token: string) {
+  return `${origin}/display?token=${encodeURIComponent(token)}`;
+}
+
+/** Rows that fit under the header at `rowPx` each (at least a few, even on odd screens) */
+export function rowsPerPage(viewportPx: number, rowPx: number, reservedPx: number) {
+  return Math.max(3, Math.floor((viewportPx - reservedPx) / rowPx));
+}
+
+/** Slice for page `page` (wraps around); pages are 0-based */
+export function pageOf<T>(rows: T[], size: number, page: number) {
+  const pages = Math.max(1, Math.ceil(rows.length / size));
+  const p = ((page % pages) + pages) % pages;
+  return { rows: rows.slice(p * size, p * size + size), page: p, pages };
+}
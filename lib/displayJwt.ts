@@ -0,0 +1,20 @@
+import { createHmac } from "crypto";
+import { DISPLAY_JWT_TTL_SECONDS } from "./display";
+
+const b64url = (s: string | Buffer) => Buffer.from(s).toString("base64url");
+
+/**
+ * Signs the JWT a wall display uses in place of a dispatcher session: role
+ * `anon` plus the share token, which RLS (`display_board_id()`) checks on
+ * every read. Server only — needs SUPABASE_JWT_SECRET.
+ */
+export function signDisplayJwt(shareToken: string, nowMs = Date.now()) {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error("SUPABASE_JWT_SECRET is not set");
+  const iat = Math.floor(nowMs / 1000);
+  const exp = iat + DISPLAY_JWT_TTL_SECONDS;
+  const header = b64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = b64url(JSON.stringify({ iss: "supabase", role: "anon", display_token: shareToken, iat, exp }));
+  const signature = createHmac("sha256", secret).update(`${header}.${payload}`).digest("base64url");
+  return { jwt: `${header}.${payload}.${signature}`, expiresAt: new Date(exp * 1000) };
+}
@@ -0,0 +1,54 @@
+import type { Problem } from "./i18n";
+import type { Palette } from "./theme";
+import type { Driver, DriverStatus } from "./types";
+
+export const DRIVER_STATUSES: DriverStatus[] = ["available", "on_load", "off_duty", "home_time", "out_of_service"];
+
+export const STATUS_LABELS: Record<DriverStatus, string> = {
+  available: "Available",
+  on_load: "On load",
+  off_duty: "Off duty",
+  home_time: "Home time",
+  out_of_service: "Out of service",
+};
+
+/** Allowed moves; the `enforce_driver_status` trigger checks the same list */
+export const STATUS_TRANSITIONS: Record<DriverStatus, DriverStatus[]> = {
+  available: ["on_load", "off_duty", "home_time", "out_of_service"],
+  on_load: ["available", "off_duty", "out_of_service"],
+  off_duty: ["available", "home_time", "out_of_service"],
+  home_time: ["available", "off_duty", "out_of_service"],
+  out_of_service: ["available", "off_duty"],
+};
+
+export function driverStatus(d: Pick<Driver, "status">): DriverStatus {
+  return d.status ?? "available";
+}
+
+export function canTransition(from: DriverStatus, to: DriverStatus) {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** Can be offered a load: on the active roster and available */
+export function isDispatchable(d: Pick<Driver, "status" | "archived_at">) {
+  return !d.archived_at && driverStatus(d) === "available";
+}
+
+/** Why a reserve is refused, or null when the status allows it */
+export function statusBlocksReserve(d: Pick<Driver, "status" | "name">): Problem | null {
+  const s = driverStatus(d);
+  return s === "available" ? null : { code: "err.statusBlocksReserve", params: { name: d.name, status: s } };
+}
+
+export function statusBadgeColors(status: DriverStatus, colors: Palette) {
+  switch (status) {
+    case "available":
+      return { bg: colors.successBg, text: colors.successText };
+    case "on_load":
+      return { bg: colors.warnBg, text: colors.warnText };
+    case "out_of_service":
+      return { bg: colors.dangerBg, text: colors.dangerText };
+    default:
+      return { bg: colors.headerBg, text: colors.subtext };
+  }
+}
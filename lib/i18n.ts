@@ -0,0 +1,977 @@
+/**
+ * UI strings for the board in English and Russian, plus the dispatcher's
+ * chosen time zone. Both settings are per browser, stored like the theme.
+ *
+ * Messages use `{name}` placeholders. Plural messages list their forms with
+ * `|` in the order of `PLURAL_FORMS` for the language (en: one|other,
+ * ru: one|few|many) and are read with `tn`.
+ */
+
+export type Lang = "en" | "ru";
+
+export const LANGS: { id: Lang; label: string }[] = [
+  { id: "en", label: "English" },
+  { id: "ru", label: "Русский" },
+];
+
+const en = {
+  "app.title": "Driver Reserve Timers",
+
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.add": "Add",
+  "common.close": "Close",
+  "common.dismiss": "Dismiss",
+  "common.unknown": "Unknown",
+  "common.system": "System",
+  "common.anotherDispatcher": "another dispatcher",
+  "common.AnotherDispatcher": "Another dispatcher",
+  "common.you": "you",
+
+  "ago.seconds": "{n}s ago",
+  "ago.minutes": "{n} min ago",
+  "duration.minutes": "{m} min",
+  "duration.hours": "{h}h {mm}m",
+
+  "field.name": "Name",
+  "field.unit_no": "Unit",
+  "field.location": "Location",
+  "field.available_time": "Available time",
+  "field.status": "Status",
+
+  "status.available": "Available",
+  "status.on_load": "On load",
+  "status.off_duty": "Off duty",
+  "status.home_time": "Home time",
+  "status.out_of_service": "Out of service",
+
+  "event.started": "{who} reserved for {minutes} min",
+  "event.extended": "{who} extended by {minutes} min",
+  "event.shortened": "{who} shortened by {minutes} min",
+  "event.released": "{who} released",
+  "event.expired": "Hold expired",
+  "event.handed_off": "Handed to {who} from the waitlist for {minutes} min",
+  "event.after": " after {duration}",
+
+  "auth.heading": "Dispatcher sign-in",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.displayName": "Display name (new accounts)",
+  "auth.createAccount": "Create account",
+  "auth.signIn": "Sign in",
+  "auth.signOut": "Sign out",
+  "auth.confirmEmail": "Check your email to confirm the account",
+
+  "boards.none": "No boards yet",
+  "boards.noneAdmin": "Create a board and add dispatchers to it.",
+  "boards.noneMember": "You are not a member of any board. Ask an admin to add you.",
+  "boards.notFound": "That board does not exist or you are not a member of it",
+
+  "settings.language": "Language",
+  "settings.timeZone": "Time zone",
+  "settings.browserZone": "Browser time ({zone})",
+
+  "header.light": "☀️ Light",
+  "header.dark": "🌙 Dark",
+  "header.alertsOn": "🔔 Alerts",
+  "header.alertsOff": "🔕 Alerts",
+  "header.policies": "⚙ Policies",
+  "header.boards": "⚙ Boards",
+  "header.hideArchived": "Hide archived",
+  "header.archived": "Archived ({n})",
+  "header.matchLoad": "🎯 Match load",
+  "header.notes": "🔎 Notes",
+  "header.palette": "Command palette — press ? for all shortcuts",
+  "header.analytics": "📊 Analytics",
+  "header.webhooks": "🔗 Webhooks",
+  "header.display": "📺 Display",
+  "header.addDriver": "+ Add driver",
+  "header.import": "Import CSV",
+  "header.export": "Export CSV",
+  "header.template": "Copy Update template",
+  "header.editTemplate": "Edit template",
+  "header.copyUpdate": "Copy Update",
+  "header.admin": "{name} (admin)",
+
+  "offline.offline": "Offline — showing the roster as of {time}. Edits and reserves are saved when the connection is back.",
+  "offline.reconnecting": "Reconnecting — showing the roster as of {time}. Edits and reserves are saved when the connection is back.",
+  "offline.sending": "Sending changes made offline…",
+  "offline.queued": "{n} queued change.|{n} queued changes.",
+  "offline.failed": "{n} offline change could not be saved|{n} offline changes could not be saved",
+  "offline.willSend": "Offline — “{label}” will be sent when you're back online",
+  "offline.reserve": "reserve {minutes} min",
+  "offline.reserveUntil": "reserve until {time}",
+  "offline.extend": "extend {minutes} min",
+  "offline.shorten": "shorten {minutes} min",
+  "offline.release": "reset",
+  "offline.driverGone": "The driver is no longer on this board",
+  "offline.notSaved": "Not saved — someone else changed it, or the value was rejected",
+  "offline.discardOnSignOut":
+    "{n} change made offline has not been sent yet. Sign out and discard it?|{n} changes made offline have not been sent yet. Sign out and discard them?",
+
+  "col.unit": "Unit",
+  "col.name": "Name",
+  "col.status": "Status",
+  "col.location": "Location",
+  "col.available": "Available Time",
+  "col.reserve": "Reserve",
+  "col.actions": "Actions",
+
+  "table.loading": "Loading…",
+  "table.noMatch": "No drivers match the filters.",
+  "table.empty": "No drivers found.",
+
+  "row.queued": "⏳ {n} queued",
+  "row.statusSince": "Since {time}",
+  "row.locationPlaceholder": "City, ST | ZIP",
+  "row.availablePlaceholder": "ava now, 6am tmrw, 10/21 14:00 CST",
+  "row.locationNotSaved": "⚠ {error} — not saved",
+  "row.shortenBy": "Shorten by {n} min",
+  "row.extendBy": "Extend by {n} min",
+  "row.queueEntry": "{pos}. {name} ({minutes} min)",
+  "row.queue": "Queue: {n}",
+  "row.queuePosition": " · you're #{n}",
+  "row.leaveQueue": "Leave queue (#{n})",
+  "row.heldJoin": "Held by {who} — join the queue",
+  "row.heldBy": "Held by {who}",
+  "row.joinQueue": "Join queue…",
+  "row.reserve": "Reserve…",
+  "row.profile": "Profile",
+  "row.reset": "Reset",
+  "row.archive": "Archive",
+  "row.unarchive": "Unarchive",
+  "row.reserveNote": "Note for this reserve",
+
+  "hint.now": "→ now",
+  "hint.unreadable": "⚠ not a time I can read — saved as text",
+  "hint.unrecognized": "⚠ unrecognized time",
+
+  "err.noNotifications": "This browser does not support notifications",
+  "err.alreadyQueued": "You're already in line for {name}",
+  "err.reservedBy": "{name} is reserved by {who}",
+  "err.notOnHold": "{name} is not on hold",
+  "err.driverGone": "This driver no longer exists",
+  "err.badTransition": "A driver cannot go from {from} to {to}",
+  "err.releaseBeforeStatus": "Release the hold on {name} before changing their status",
+  "err.releaseBeforeArchive": "Release the hold on {name} before archiving",
+  "err.statusBlocksReserve": "{name} is {status} — set them Available to reserve",
+  "err.location": "Location: {error}",
+  "err.justReserved": "{name} was just reserved by {who}",
+  "err.changedMeanwhile": "{name} changed while you were looking — it is no longer reserved",
+  "err.archived": "{name} is archived",
+  "err.wentToNext": "{name} went to {who} (next in line)",
+  "err.endPassed": "That end time has already passed",
+  "err.holdExpired": "The hold on {name} has already expired",
+  "err.extendEarlier": "That is earlier than the current end — shorten the hold instead",
+  "err.shortenTooFar": "Less than a minute would be left — use Reset to end the hold",
+  "err.untilRange": "Pick an end time within the next 24 hours",
+  "err.badMinutes": "Minutes must be a whole number between 1 and {max}",
+  "err.unknownAction": "Unknown action",
+  "err.methodNotAllowed": "Method not allowed",
+  "err.notSignedIn": "Not signed in",
+  "err.sessionExpired": "Session expired, sign in again",
+  "err.noProfile": "No dispatcher profile for this account",
+  "err.notConfigured": "Server is not configured for reserves",
+  "err.driverNotFound": "Driver not found",
+  "err.network": "Network error — check the connection",
+  "err.server": "Server error: {error}",
+  "err.maxHolds": "You already hold {n} driver (limit {max}) — release one first|You already hold {n} drivers (limit {max}) — release one first",
+  "err.maxTotal": "Holds are limited to {limitMinutes} in total — this would make it {totalMinutes}",
+  "err.noteRequired": "Add a note — it is required for holds over {overMinutes}",
+  "err.unknownZip": "Unknown ZIP {zip}",
+  "err.zipElsewhere": "ZIP {zip} is in {city}, {state}, not {typed}",
+  "err.locationFormat": "Use City, ST or a 5-digit ZIP",
+  "err.placeNotFound": "Can't find {city}, {state}",
+
+  "toast.queued": "Queued for {name} (#{pos})",
+  "toast.added": "Added {name}",
+  "toast.imported": "Imported {n} driver|Imported {n} drivers",
+  "toast.archived": "Archived {name}",
+  "toast.restored": "Restored {name}",
+  "toast.copied": "Copied “{name}” to clipboard",
+  "toast.extended": "Extended {name} by {minutes} min",
+  "toast.shortened": "Shortened {name} by {minutes} min",
+  "toast.reserved": "Reserved {name} for {minutes} min",
+  "toast.policiesSaved": "Reserve policies saved",
+
+  "keys.title": "Keyboard shortcuts",
+  "keys.or": "or",
+  "keys.move": "Move between rows",
+  "keys.reserve": "Reserve the focused driver",
+  "keys.extend": "Extend the focused hold by {n} min",
+  "keys.reset": "Reset the focused hold",
+  "keys.profile": "Open the profile",
+  "keys.copy": "Copy update",
+  "keys.palette": "Command palette, e.g. “reserve 1401 30 min waiting on broker”",
+  "keys.clear": "Clear the focused row",
+
+  "conflict.title": "Someone else edited this",
+  "conflict.changed": "{who} changed {field} for",
+  "conflict.to": "to “{value}” {ago} — keep yours or theirs?",
+  "conflict.blank": "(blank)",
+  "conflict.yours": "Yours: “{value}”",
+  "conflict.keepTheirs": "Keep theirs",
+  "conflict.keepMine": "Keep mine",
+
+  "alerts.title": "Expiry alerts",
+  "alerts.enabled": "Alert me before holds run out",
+  "alerts.sound": "Play a sound",
+  "alerts.onlyMine": "Only for holds I own",
+  "alerts.warnAt": "Warn at (minutes left, 0 = at expiry)",
+  "alerts.permission": "Browser notifications: {state}",
+  "alerts.enable": "Enable",
+  "alerts.notifyTitle": "Driver reserve",
+  "alerts.expired": "Hold on {label} has expired",
+  "alerts.endsIn": "Hold on {label} ends in {n} min",
+  "alerts.handedOff": "You're up: {label} is now reserved for you",
+
+  "add.title": "Add driver",
+  "add.name": "Name",
+  "add.unit": "Unit (optional)",
+  "add.location": "Location (optional)",
+  "add.available": "Available time (optional)",
+
+  "reserve.title": "Reserve",
+  "reserve.joinQueue": "Join queue",
+  "reserve.heldBy": "Held by {who}",
+  "reserve.ahead": ", {n} ahead of you",
+  "reserve.handOff": ". When the hold ends it is handed to the next dispatcher in line for the minutes below.",
+  "reserve.minutesToAdd": "Minutes to add",
+  "reserve.minutes": "Minutes",
+  "reserve.orUntil": "or until",
+  "reserve.maxPerHold": "Max {limit} per hold",
+  "reserve.holdsPerDispatcher": "{n} holds per dispatcher",
+  "reserve.noteOver": "note required over {limit}",
+  "reserve.note": "Note (optional)",
+  "reserve.notePlaceholder": "Anything to remember…",
+  "reserve.needMinutes": "Enter the minutes to hold, or an end time",
+  "reserve.extend": "Extend",
+  "reserve.start": "Start",
+
+  "profile.title": "Profile — {name}",
+  "profile.history": "Reserve history",
+  "profile.noHistory": "No reserves yet.",
+
+  "common.done": "Done",
+  "common.delete": "Delete",
+  "common.someone": "someone",
+
+  "toolbar.search": "Search name, unit, location…",
+  "toolbar.anyReserve": "Any reserve",
+  "toolbar.reserved": "Reserved",
+  "toolbar.free": "Free",
+  "toolbar.expired": "Expired, not cleared",
+  "toolbar.anyStatus": "Any status",
+  "toolbar.anyState": "Any state",
+  "toolbar.availableBy": "Available by… (6pm, tmrw 8am)",
+  "toolbar.groupByState": "Group by state",
+  "toolbar.clear": "Clear filters",
+  "toolbar.count": "{n} driver|{n} drivers",
+  "toolbar.countOf": "{shown} of {n} driver|{shown} of {n} drivers",
+
+  "palette.placeholder": "reserve 1401 30 min note…  ·  extend mike 15  ·  reset 220  ·  copy",
+  "palette.action.reserve": "Reserve",
+  "palette.action.extend": "Extend",
+  "palette.action.shorten": "Shorten",
+  "palette.action.reset": "Reset hold",
+  "palette.action.profile": "Open profile",
+  "palette.action.copy": "Copy update",
+  "palette.noDriver": "{action} — no matching driver",
+  "palette.for": " for {minutes} min",
+  "palette.by": " by {minutes} min",
+  "palette.heldBy": "held by {who}",
+  "palette.help": "Actions: reserve (r), extend (e), shorten (s), reset (x), profile (p), copy (c) · ↑↓ pick driver · Esc close",
+
+  "import.title": "Import roster CSV",
+  "import.help": "Columns: unit_no, name, location, available_time. Rows match existing drivers by unit, then by name; blank cells keep the current value.",
+  "import.new": "New",
+  "import.changed": "Changed",
+  "import.unchanged": "Unchanged",
+  "import.error": "Error",
+  "import.summary": "{new} new · {changed} changed · {unchanged} unchanged",
+  "import.withErrors": " · {n} with errors (skipped)",
+  "import.preview": "Preview",
+  "import.apply": "Apply {n} change|Apply {n} changes",
+  "import.applyNone": "Apply changes",
+  "import.conflicts": "Nothing was saved: {n} row changed on the board after the preview (line {lines}). Preview again to review it.|Nothing was saved: {n} rows changed on the board after the preview (lines {lines}). Preview again to review them.",
+  "import.empty": "The file is empty",
+  "import.noHeader": "The first row must be a header with at least a “name” column",
+  "import.duplicateUnit": "Unit {unit} also on line {line}",
+  "import.duplicateDriver": "{name} matches an earlier line",
+  "import.unitAssigned": "Unit {unit} is assigned to {name}",
+
+  "roster.nameRequired": "Name is required",
+  "roster.nameTooLong": "Name is too long",
+  "roster.unitTooLong": "Unit number is too long",
+  "roster.unitTaken": "Unit {unit} is already assigned to {name}",
+  "roster.unitInUse": "That unit number is already in use",
+
+  "reserve.untilInvalid": "“{text}” is not a time — try 3pm or 15:30",
+  "reserve.untilPassed": "{text} has already passed",
+
+  "policy.title": "Reserve policies",
+  "policy.help": "Apply to every dispatcher, checked when a hold is saved. Leave blank for no limit.",
+  "policy.lastChanged": " Last changed by {name}, {time}.",
+  "policy.default": "Default length",
+  "policy.defaultHint": "Prefilled in the Reserve dialog",
+  "policy.max": "Maximum hold length",
+  "policy.maxNow": "Now {limit}, start to end",
+  "policy.maxHint": "Start to end, including extensions",
+  "policy.holds": "Holds per dispatcher",
+  "policy.holdsHint": "Active holds at the same time",
+  "policy.noteOver": "Note required over",
+  "policy.noteOverHint": "Holds longer than this need a note",
+  "policy.inMinutes": "{label} (min)",
+  "policy.badNumber": "{label}: enter a whole number ({min}–1440) or leave blank",
+  "policy.defaultRequired": "Default length is required",
+  "policy.adminsOnly": "Only admins can change reserve policies",
+
+  "match.title": "Match load",
+  "match.pickup": "Pickup",
+  "match.pickupPlaceholder": "City, ST | ZIP",
+  "match.pickupTime": "Pickup time",
+  "match.loadNo": "Load # (optional)",
+  "match.find": "Find drivers",
+  "match.badTime": "Pickup time: try “now”, “2pm”, “6am tmrw” or “10/21 14:00 CST”",
+  "match.badPickup": "Pickup: {error}",
+  "match.enterPickup": "enter City, ST or a ZIP",
+  "match.driver": "Driver",
+  "match.nowAt": "Now at",
+  "match.deadhead": "Deadhead",
+  "match.free": "Free",
+  "match.eta": "ETA to pickup",
+  "match.none": "No free drivers.",
+  "match.miles": "{n} mi",
+  "match.now": "now",
+  "match.unknownLocation": "unknown location",
+  "match.late": " ({n} min late)",
+  "match.onTime": " (on time)",
+  "match.note": "Load {ref}: PU {pickup} @ {at}",
+  "match.noteNoRef": "Load: PU {pickup} @ {at}",
+
+  "template.title": "Copy Update template",
+  "template.line": "Line per driver",
+  "template.output": "Output",
+  "template.text": "Plain text",
+  "template.markdown": "Markdown table",
+  "template.csv": "CSV",
+  "template.separator": "Between drivers",
+  "template.blank": "Blank line",
+  "template.newline": "New line",
+  "template.include": "Include",
+  "template.all": "All drivers",
+  "template.unreserved": "Only unreserved",
+  "template.today": "Only available today",
+  "template.order": "Order",
+  "template.orderBoard": "Board order",
+  "template.orderLocation": "State, then location",
+  "template.orderAvailable": "Soonest available",
+  "template.preview": "Preview",
+  "template.noMatch": "(no drivers match)",
+  "template.copyName": "{name} (copy)",
+  "template.saveAsNew": "Save as new",
+
+  "display.title": "Wall display · {board}",
+  "display.help": "A display link opens a large, read-only view of this board that pages through drivers by itself. No sign-in needed — treat links like passwords and revoke any you no longer use.",
+  "display.labelPlaceholder": "Label, e.g. Ops room TV",
+  "display.newLink": "New link",
+  "display.none": "No active links.",
+  "display.untitled": "Untitled",
+  "display.revoked": "Revoked {time}",
+  "display.created": "Created by {who}, {time}",
+  "display.copy": "Copy link",
+  "display.revoke": "Revoke",
+  "display.confirmRevoke": "Revoke “{label}”? Screens using it go blank within a few minutes.",
+  "display.copied": "Copied display link",
+  "display.copiedLabel": "Copied display link “{label}”",
+  "display.showRevoked": "Show revoked ({n})",
+
+  "boards.title": "Boards",
+  "boards.help": "Dispatchers only see drivers, notes and holds on boards they belong to. Admins see every board.",
+  "boards.newBoard": "New board",
+  "boards.rename": "Rename",
+  "boards.members": "Members",
+  "boards.noMembers": "Nobody yet.",
+  "boards.remove": "Remove",
+  "boards.addDispatcher": "Add dispatcher…",
+  "boards.admin": " (admin)",
+
+  "notes.add": "Add note",
+  "notes.placeholder": "Type a note…",
+  "notes.tagsPlaceholder": "Tags, comma separated (no NYC, hazmat)",
+  "notes.tags": "Tags",
+  "notes.pinToBoard": "Pin to board",
+  "notes.loading": "Loading…",
+  "notes.none": "No notes yet.",
+  "notes.edited": " · edited {time}",
+  "notes.pin": "Pin",
+  "notes.unpin": "Unpin",
+  "notes.edit": "Edit",
+  "notes.loadOlder": "Load older notes",
+  "notes.forbidden": "Only the author or an admin can change this note.",
+  "notes.confirmDelete": "Delete this note?",
+  "notes.searchTitle": "Search notes",
+  "notes.searchPlaceholder": "Text, or #tag (e.g. #hazmat)",
+  "notes.search": "Search",
+  "notes.noMatches": "No matching notes.",
+  "notes.unknownDriver": "Unknown driver",
+
+  "presence.online": "Online",
+  "presence.editing": "{name} is editing",
+  "presence.editingField": "{name} is editing {field}",
+  "presence.reserving": "{name} is reserving",
+  "presence.profile": "{name} has the profile open",
+};
+
+export type MessageKey = keyof typeof en;
+export type MessageParams = Record<string, string | number>;
+
+const ru: Record<MessageKey, string> = {
+  "app.title": "Таймеры резерва водителей",
+
+  "common.cancel": "Отмена",
+  "common.save": "Сохранить",
+  "common.add": "Добавить",
+  "common.close": "Закрыть",
+  "common.dismiss": "Скрыть",
+  "common.unknown": "Неизвестно",
+  "common.system": "Система",
+  "common.anotherDispatcher": "другой диспетчер",
+  "common.AnotherDispatcher": "Другой диспетчер",
+  "common.you": "вы",
+
+  "ago.seconds": "{n} с назад",
+  "ago.minutes": "{n} мин назад",
+  "duration.minutes": "{m} мин",
+  "duration.hours": "{h} ч {mm} мин",
+
+  "field.name": "Имя",
+  "field.unit_no": "Юнит",
+  "field.location": "Локация",
+  "field.available_time": "Время готовности",
+  "field.status": "Статус",
+
+  "status.available": "Свободен",
+  "status.on_load": "В рейсе",
+  "status.off_duty": "Не на смене",
+  "status.home_time": "Дома",
+  "status.out_of_service": "Не в строю",
+
+  "event.started": "{who} зарезервировал(а) на {minutes} мин",
+  "event.extended": "{who} продлил(а) на {minutes} мин",
+  "event.shortened": "{who} сократил(а) на {minutes} мин",
+  "event.released": "{who} снял(а) резерв",
+  "event.expired": "Резерв истёк",
+  "event.handed_off": "Передан {who} из очереди на {minutes} мин",
+  "event.after": " через {duration}",
+
+  "auth.heading": "Вход для диспетчеров",
+  "auth.email": "Эл. почта",
+  "auth.password": "Пароль",
+  "auth.displayName": "Отображаемое имя (для новых аккаунтов)",
+  "auth.createAccount": "Создать аккаунт",
+  "auth.signIn": "Войти",
+  "auth.signOut": "Выйти",
+  "auth.confirmEmail": "Проверьте почту, чтобы подтвердить аккаунт",
+
+  "boards.none": "Досок пока нет",
+  "boards.noneAdmin": "Создайте доску и добавьте на неё диспетчеров.",
+  "boards.noneMember": "Вы не состоите ни в одной доске. Попросите администратора добавить вас.",
+  "boards.notFound": "Такой доски нет, или вы не состоите в ней",
+
+  "settings.language": "Язык",
+  "settings.timeZone": "Часовой пояс",
+  "settings.browserZone": "Время браузера ({zone})",
+
+  "header.light": "☀️ Светлая",
+  "header.dark": "🌙 Тёмная",
+  "header.alertsOn": "🔔 Оповещения",
+  "header.alertsOff": "🔕 Оповещения",
+  "header.policies": "⚙ Правила",
+  "header.boards": "⚙ Доски",
+  "header.hideArchived": "Скрыть архив",
+  "header.archived": "Архив ({n})",
+  "header.matchLoad": "🎯 Подбор под груз",
+  "header.notes": "🔎 Заметки",
+  "header.palette": "Командная палитра — ? покажет все сочетания клавиш",
+  "header.analytics": "📊 Аналитика",
+  "header.webhooks": "🔗 Вебхуки",
+  "header.display": "📺 Экран",
+  "header.addDriver": "+ Добавить водителя",
+  "header.import": "Импорт CSV",
+  "header.export": "Экспорт CSV",
+  "header.template": "Шаблон сводки",
+  "header.editTemplate": "Изменить шаблон",
+  "header.copyUpdate": "Копировать сводку",
+  "header.admin": "{name} (админ)",
+
+  "offline.offline": "Нет сети — показан список на {time}. Правки и резервы сохранятся, когда связь вернётся.",
+  "offline.reconnecting": "Переподключение — показан список на {time}. Правки и резервы сохранятся, когда связь вернётся.",
+  "offline.sending": "Отправляем изменения, сделанные без сети…",
+  "offline.queued": "{n} изменение в очереди.|{n} изменения в очереди.|{n} изменений в очереди.",
+  "offline.failed":
+    "{n} изменение без сети не удалось сохранить|{n} изменения без сети не удалось сохранить|{n} изменений без сети не удалось сохранить",
+  "offline.willSend": "Нет сети — «{label}» отправится, когда связь вернётся",
+  "offline.reserve": "резерв на {minutes} мин",
+  "offline.reserveUntil": "резерв до {time}",
+  "offline.extend": "продлить на {minutes} мин",
+  "offline.shorten": "сократить на {minutes} мин",
+  "offline.release": "сброс",
+  "offline.driverGone": "Водителя больше нет на этой доске",
+  "offline.notSaved": "Не сохранено — кто-то уже изменил это поле, или значение отклонено",
+  "offline.discardOnSignOut":
+    "{n} изменение без сети ещё не отправлено. Выйти и отменить его?|{n} изменения без сети ещё не отправлены. Выйти и отменить их?|{n} изменений без сети ещё не отправлены. Выйти и отменить их?",
+
+  "col.unit": "Юнит",
+  "col.name": "Имя",
+  "col.status": "Статус",
+  "col.location": "Локация",
+  "col.available": "Время готовности",
+  "col.reserve": "Резерв",
+  "col.actions": "Действия",
+
+  "table.loading": "Загрузка…",
+  "table.noMatch": "Под фильтры не подходит ни один водитель.",
+  "table.empty": "Водителей нет.",
+
+  "row.queued": "⏳ в очереди: {n}",
+  "row.statusSince": "С {time}",
+  "row.locationPlaceholder": "Город, ST | ZIP",
+  "row.availablePlaceholder": "ava now, 6am tmrw, 10/21 14:00 CST",
+  "row.locationNotSaved": "⚠ {error} — не сохранено",
+  "row.shortenBy": "Сократить на {n} мин",
+  "row.extendBy": "Продлить на {n} мин",
+  "row.queueEntry": "{pos}. {name} ({minutes} мин)",
+  "row.queue": "Очередь: {n}",
+  "row.queuePosition": " · вы №{n}",
+  "row.leaveQueue": "Выйти из очереди (№{n})",
+  "row.heldJoin": "В резерве у: {who} — встаньте в очередь",
+  "row.heldBy": "В резерве у: {who}",
+  "row.joinQueue": "В очередь…",
+  "row.reserve": "Резерв…",
+  "row.profile": "Профиль",
+  "row.reset": "Сброс",
+  "row.archive": "В архив",
+  "row.unarchive": "Из архива",
+  "row.reserveNote": "Заметка к резерву",
+
+  "hint.now": "→ сейчас",
+  "hint.unreadable": "⚠ не удалось разобрать время — сохранено как текст",
+  "hint.unrecognized": "⚠ время не распознано",
+
+  "err.noNotifications": "Этот браузер не поддерживает уведомления",
+  "err.alreadyQueued": "Вы уже в очереди на {name}",
+  "err.reservedBy": "{name} в резерве у: {who}",
+  "err.notOnHold": "{name} не в резерве",
+  "err.driverGone": "Этого водителя больше нет",
+  "err.badTransition": "Водитель не может перейти из «{from}» в «{to}»",
+  "err.releaseBeforeStatus": "Снимите резерв с {name}, прежде чем менять статус",
+  "err.releaseBeforeArchive": "Снимите резерв с {name}, прежде чем отправлять в архив",
+  "err.statusBlocksReserve": "{name}: статус «{status}» — поставьте «Свободен», чтобы зарезервировать",
+  "err.location": "Локация: {error}",
+  "err.justReserved": "{name} только что зарезервировал(а) {who}",
+  "err.changedMeanwhile": "{name}: данные изменились, пока вы смотрели — резерва больше нет",
+  "err.archived": "{name} в архиве",
+  "err.wentToNext": "{name} перешёл к {who} (следующий в очереди)",
+  "err.endPassed": "Это время уже прошло",
+  "err.holdExpired": "Резерв на {name} уже истёк",
+  "err.extendEarlier": "Это раньше текущего окончания — сократите резерв вместо продления",
+  "err.shortenTooFar": "Осталось бы меньше минуты — снимите резерв кнопкой «Сброс»",
+  "err.untilRange": "Выберите время окончания в пределах 24 часов",
+  "err.badMinutes": "Минуты — целое число от 1 до {max}",
+  "err.unknownAction": "Неизвестное действие",
+  "err.methodNotAllowed": "Метод не поддерживается",
+  "err.notSignedIn": "Вы не вошли",
+  "err.sessionExpired": "Сессия истекла, войдите снова",
+  "err.noProfile": "Для этой учётной записи нет профиля диспетчера",
+  "err.notConfigured": "Сервер не настроен для резервов",
+  "err.driverNotFound": "Водитель не найден",
+  "err.network": "Ошибка сети — проверьте подключение",
+  "err.server": "Ошибка сервера: {error}",
+  "err.maxHolds":
+    "У вас уже {n} водитель в резерве (лимит {max}) — сначала снимите один|У вас уже {n} водителя в резерве (лимит {max}) — сначала снимите один|У вас уже {n} водителей в резерве (лимит {max}) — сначала снимите один",
+  "err.maxTotal": "Резерв ограничен {limitMinutes} в сумме — получилось бы {totalMinutes}",
+  "err.noteRequired": "Добавьте заметку — она обязательна для резервов дольше {overMinutes}",
+  "err.unknownZip": "Неизвестный ZIP {zip}",
+  "err.zipElsewhere": "ZIP {zip} относится к {city}, {state}, а не к {typed}",
+  "err.locationFormat": "Введите «Город, ST» или 5-значный ZIP",
+  "err.placeNotFound": "Не найдено: {city}, {state}",
+
+  "toast.queued": "Вы в очереди на {name} (№{pos})",
+  "toast.added": "Добавлен(а) {name}",
+  "toast.imported": "Импортирован {n} водитель|Импортировано {n} водителя|Импортировано {n} водителей",
+  "toast.archived": "{name} — в архиве",
+  "toast.restored": "{name} — восстановлен(а)",
+  "toast.copied": "«{name}» скопировано в буфер обмена",
+  "toast.extended": "Резерв {name} продлён на {minutes} мин",
+  "toast.shortened": "Резерв {name} сокращён на {minutes} мин",
+  "toast.reserved": "{name} в резерве на {minutes} мин",
+  "toast.policiesSaved": "Правила резерва сохранены",
+
+  "keys.title": "Сочетания клавиш",
+  "keys.or": "или",
+  "keys.move": "Переход между строками",
+  "keys.reserve": "Зарезервировать выбранного водителя",
+  "keys.extend": "Продлить выбранный резерв на {n} мин",
+  "keys.reset": "Сбросить выбранный резерв",
+  "keys.profile": "Открыть профиль",
+  "keys.copy": "Копировать сводку",
+  "keys.palette": "Командная палитра, например «reserve 1401 30 min waiting on broker»",
+  "keys.clear": "Снять выделение строки",
+
+  "conflict.title": "Это уже изменили",
+  "conflict.changed": "{who} изменил(а) поле «{field}» у",
+  "conflict.to": "на «{value}» {ago} — оставить ваше или их?",
+  "conflict.blank": "(пусто)",
+  "conflict.yours": "Ваше: «{value}»",
+  "conflict.keepTheirs": "Оставить их",
+  "conflict.keepMine": "Оставить моё",
+
+  "alerts.title": "Оповещения об истечении",
+  "alerts.enabled": "Предупреждать, пока резерв не истёк",
+  "alerts.sound": "Со звуком",
+  "alerts.onlyMine": "Только для моих резервов",
+  "alerts.warnAt": "Предупреждать за (минут до конца, 0 = в момент истечения)",
+  "alerts.permission": "Уведомления браузера: {state}",
+  "alerts.enable": "Включить",
+  "alerts.notifyTitle": "Резерв водителя",
+  "alerts.expired": "Резерв на {label} истёк",
+  "alerts.endsIn": "Резерв на {label} закончится через {n} мин",
+  "alerts.handedOff": "Ваша очередь: {label} теперь в вашем резерве",
+
+  "add.title": "Новый водитель",
+  "add.name": "Имя",
+  "add.unit": "Юнит (необязательно)",
+  "add.location": "Локация (необязательно)",
+  "add.available": "Время готовности (необязательно)",
+
+  "reserve.title": "Резерв",
+  "reserve.joinQueue": "Встать в очередь",
+  "reserve.heldBy": "В резерве у: {who}",
+  "reserve.ahead": ", перед вами: {n}",
+  "reserve.handOff": ". Когда резерв закончится, водитель перейдёт следующему в очереди на указанные минуты.",
+  "reserve.minutesToAdd": "Добавить минут",
+  "reserve.minutes": "Минут",
+  "reserve.orUntil": "или до",
+  "reserve.maxPerHold": "Не больше {limit} на резерв",
+  "reserve.holdsPerDispatcher": "{n} резервов на диспетчера",
+  "reserve.noteOver": "заметка обязательна свыше {limit}",
+  "reserve.note": "Заметка (необязательно)",
+  "reserve.notePlaceholder": "Что стоит запомнить…",
+  "reserve.needMinutes": "Укажите, на сколько минут резерв, или время окончания",
+  "reserve.extend": "Продлить",
+  "reserve.start": "Начать",
+
+  "profile.title": "Профиль — {name}",
+  "profile.history": "История резервов",
+  "profile.noHistory": "Резервов ещё не было.",
+
+  "common.done": "Готово",
+  "common.delete": "Удалить",
+  "common.someone": "кто-то",
+
+  "toolbar.search": "Поиск по имени, юниту, локации…",
+  "toolbar.anyReserve": "Любой резерв",
+  "toolbar.reserved": "В резерве",
+  "toolbar.free": "Свободны",
+  "toolbar.expired": "Истёк, не снят",
+  "toolbar.anyStatus": "Любой статус",
+  "toolbar.anyState": "Любой штат",
+  "toolbar.availableBy": "Свободен к… (6pm, tmrw 8am)",
+  "toolbar.groupByState": "Группировать по штатам",
+  "toolbar.clear": "Сбросить фильтры",
+  "toolbar.count": "{n} водитель|{n} водителя|{n} водителей",
+  "toolbar.countOf": "{shown} из {n} водителя|{shown} из {n} водителей|{shown} из {n} водителей",
+
+  "palette.placeholder": "reserve 1401 30 min заметка…  ·  extend mike 15  ·  reset 220  ·  copy",
+  "palette.action.reserve": "Зарезервировать",
+  "palette.action.extend": "Продлить",
+  "palette.action.shorten": "Сократить",
+  "palette.action.reset": "Снять резерв",
+  "palette.action.profile": "Открыть профиль",
+  "palette.action.copy": "Скопировать сводку",
+  "palette.noDriver": "{action} — водитель не найден",
+  "palette.for": " на {minutes} мин",
+  "palette.by": " на {minutes} мин",
+  "palette.heldBy": "в резерве у: {who}",
+  "palette.help": "Команды: reserve (r) — резерв, extend (e) — продлить, shorten (s) — сократить, reset (x) — снять, profile (p) — профиль, copy (c) — сводка · ↑↓ выбор водителя · Esc закрыть",
+
+  "import.title": "Импорт списка из CSV",
+  "import.help": "Колонки: unit_no, name, location, available_time. Строки сопоставляются с водителями по юниту, затем по имени; пустые ячейки оставляют текущее значение.",
+  "import.new": "Новый",
+  "import.changed": "Изменён",
+  "import.unchanged": "Без изменений",
+  "import.error": "Ошибка",
+  "import.summary": "новых: {new} · изменённых: {changed} · без изменений: {unchanged}",
+  "import.withErrors": " · с ошибками: {n} (пропущены)",
+  "import.preview": "Предпросмотр",
+  "import.apply": "Применить {n} изменение|Применить {n} изменения|Применить {n} изменений",
+  "import.applyNone": "Применить изменения",
+  "import.conflicts":
+    "Ничего не сохранено: {n} строка изменилась на доске после предпросмотра (строка {lines}). Сделайте предпросмотр ещё раз.|Ничего не сохранено: {n} строки изменились на доске после предпросмотра (строки {lines}). Сделайте предпросмотр ещё раз.|Ничего не сохранено: {n} строк изменились на доске после предпросмотра (строки {lines}). Сделайте предпросмотр ещё раз.",
+  "import.empty": "Файл пуст",
+  "import.noHeader": "Первая строка должна быть заголовком хотя бы с колонкой «name»",
+  "import.duplicateUnit": "Юнит {unit} уже есть в строке {line}",
+  "import.duplicateDriver": "{name} уже совпал с одной из строк выше",
+  "import.unitAssigned": "Юнит {unit} закреплён за {name}",
+
+  "roster.nameRequired": "Укажите имя",
+  "roster.nameTooLong": "Слишком длинное имя",
+  "roster.unitTooLong": "Слишком длинный номер юнита",
+  "roster.unitTaken": "Юнит {unit} уже закреплён за {name}",
+  "roster.unitInUse": "Этот номер юнита уже занят",
+
+  "reserve.untilInvalid": "«{text}» — не время, попробуйте 3pm или 15:30",
+  "reserve.untilPassed": "{text} уже прошло",
+
+  "policy.title": "Правила резервов",
+  "policy.help": "Действуют для всех диспетчеров и проверяются при сохранении резерва. Оставьте поле пустым, чтобы не ограничивать.",
+  "policy.lastChanged": " Последнее изменение: {name}, {time}.",
+  "policy.default": "Длительность по умолчанию",
+  "policy.defaultHint": "Подставляется в окно резерва",
+  "policy.max": "Максимальная длина резерва",
+  "policy.maxNow": "Сейчас {limit}, от начала до конца",
+  "policy.maxHint": "От начала до конца, с продлениями",
+  "policy.holds": "Резервов на диспетчера",
+  "policy.holdsHint": "Активных резервов одновременно",
+  "policy.noteOver": "Заметка обязательна свыше",
+  "policy.noteOverHint": "Для более длинных резервов нужна заметка",
+  "policy.inMinutes": "{label} (мин)",
+  "policy.badNumber": "{label}: введите целое число ({min}–1440) или оставьте пустым",
+  "policy.defaultRequired": "Укажите длительность по умолчанию",
+  "policy.adminsOnly": "Менять правила резервов могут только администраторы",
+
+  "match.title": "Подбор под груз",
+  "match.pickup": "Погрузка",
+  "match.pickupPlaceholder": "Город, штат | ZIP",
+  "match.pickupTime": "Время погрузки",
+  "match.loadNo": "№ груза (необязательно)",
+  "match.find": "Найти водителей",
+  "match.badTime": "Время погрузки: попробуйте «now», «2pm», «6am tmrw» или «10/21 14:00 CST»",
+  "match.badPickup": "Погрузка: {error}",
+  "match.enterPickup": "введите «Город, штат» или ZIP",
+  "match.driver": "Водитель",
+  "match.nowAt": "Сейчас в",
+  "match.deadhead": "Холостой пробег",
+  "match.free": "Свободен",
+  "match.eta": "Прибытие на погрузку",
+  "match.none": "Свободных водителей нет.",
+  "match.miles": "{n} миль",
+  "match.now": "сейчас",
+  "match.unknownLocation": "локация неизвестна",
+  "match.late": " (опоздание {n} мин)",
+  "match.onTime": " (вовремя)",
+  "match.note": "Груз {ref}: погрузка {pickup} @ {at}",
+  "match.noteNoRef": "Груз: погрузка {pickup} @ {at}",
+
+  "template.title": "Шаблон сводки",
+  "template.line": "Строка на водителя",
+  "template.output": "Формат",
+  "template.text": "Обычный текст",
+  "template.markdown": "Таблица Markdown",
+  "template.csv": "CSV",
+  "template.separator": "Между водителями",
+  "template.blank": "Пустая строка",
+  "template.newline": "Перенос строки",
+  "template.include": "Включать",
+  "template.all": "Всех водителей",
+  "template.unreserved": "Только без резерва",
+  "template.today": "Только свободных сегодня",
+  "template.order": "Порядок",
+  "template.orderBoard": "Как на доске",
+  "template.orderLocation": "Штат, затем локация",
+  "template.orderAvailable": "Ближайшие свободные",
+  "template.preview": "Пример",
+  "template.noMatch": "(нет подходящих водителей)",
+  "template.copyName": "{name} (копия)",
+  "template.saveAsNew": "Сохранить как новый",
+
+  "display.title": "Экран · {board}",
+  "display.help": "Ссылка открывает крупный вид доски только для чтения, который сам листает водителей. Вход не нужен — храните ссылки как пароли и отзывайте те, что больше не нужны.",
+  "display.labelPlaceholder": "Название, например «ТВ в диспетчерской»",
+  "display.newLink": "Новая ссылка",
+  "display.none": "Активных ссылок нет.",
+  "display.untitled": "Без названия",
+  "display.revoked": "Отозвана {time}",
+  "display.created": "Создал(а) {who}, {time}",
+  "display.copy": "Копировать",
+  "display.revoke": "Отозвать",
+  "display.confirmRevoke": "Отозвать «{label}»? Экраны с этой ссылкой погаснут в течение нескольких минут.",
+  "display.copied": "Ссылка на экран скопирована",
+  "display.copiedLabel": "Ссылка «{label}» скопирована",
+  "display.showRevoked": "Показать отозванные ({n})",
+
+  "boards.title": "Доски",
+  "boards.help": "Диспетчеры видят водителей, заметки и резервы только на своих досках. Администраторы видят все доски.",
+  "boards.newBoard": "Новая доска",
+  "boards.rename": "Переименовать",
+  "boards.members": "Участники",
+  "boards.noMembers": "Пока никого.",
+  "boards.remove": "Убрать",
+  "boards.addDispatcher": "Добавить диспетчера…",
+  "boards.admin": " (админ)",
+
+  "notes.add": "Добавить заметку",
+  "notes.placeholder": "Текст заметки…",
+  "notes.tagsPlaceholder": "Теги через запятую (no NYC, hazmat)",
+  "notes.tags": "Теги",
+  "notes.pinToBoard": "Закрепить на доске",
+  "notes.loading": "Загрузка…",
+  "notes.none": "Заметок пока нет.",
+  "notes.edited": " · изменено {time}",
+  "notes.pin": "Закрепить",
+  "notes.unpin": "Открепить",
+  "notes.edit": "Изменить",
+  "notes.loadOlder": "Загрузить старые заметки",
+  "notes.forbidden": "Изменить заметку может только автор или администратор.",
+  "notes.confirmDelete": "Удалить заметку?",
+  "notes.searchTitle": "Поиск по заметкам",
+  "notes.searchPlaceholder": "Текст или #тег (например, #hazmat)",
+  "notes.search": "Найти",
+  "notes.noMatches": "Ничего не найдено.",
+  "notes.unknownDriver": "Неизвестный водитель",
+
+  "presence.online": "В сети",
+  "presence.editing": "{name} редактирует",
+  "presence.editingField": "{name} редактирует: {field}",
+  "presence.reserving": "{name} оформляет резерв",
+  "presence.profile": "{name} смотрит профиль",
+};
+
+const MESSAGES: Record<Lang, Record<MessageKey, string>> = { en, ru };
+export const LOCALES: Record<Lang, string> = { en: "en-US", ru: "ru-RU" };
+const PLURAL_FORMS: Record<Lang, Intl.LDMLPluralRule[]> = { en: ["one", "other"], ru: ["one", "few", "many"] };
+
+function fill(text: string, params?: MessageParams) {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (m, name) => (name in params ? String(params[name]) : m));
+}
+
+export function translate(lang: Lang, key: MessageKey, params?: MessageParams) {
+  return fill(MESSAGES[lang]?.[key] ?? en[key], params);
+}
+
+/** Plural message for `n`, which is also available as `{n}` */
+export function translatePlural(lang: Lang, key: MessageKey, n: number, params?: MessageParams) {
+  const forms = (MESSAGES[lang]?.[key] ?? en[key]).split("|");
+  const rule = new Intl.PluralRules(LOCALES[lang]).select(n);
+  const idx = PLURAL_FORMS[lang].indexOf(rule);
+  const text = forms[idx >= 0 ? idx : forms.length - 1] ?? forms[0];
+  return fill(text, { n, ...params });
+}
+
+export type Translator = {
+  lang: Lang;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tn: (key: MessageKey, n: number, params?: MessageParams) => string;
+};
+
+export function makeTranslator(lang: Lang): Translator {
+  return {
+    lang,
+    t: (key, params) => translate(lang, key, params),
+    tn: (key, n, params) => translatePlural(lang, key, n, params),
+  };
+}
+
+/** 150 min → "2h 30m" */
+export function fmtDuration(seconds: number, { t }: Translator) {
+  const m = Math.round(seconds / 60);
+  if (m < 60) return t("duration.minutes", { m });
+  return t("duration.hours", { h: Math.floor(m / 60), mm: (m % 60).toString().padStart(2, "0") });
+}
+
+/**
+ * An error sent by the server as a message key with raw params, so the
+ * browser can show it in the dispatcher's language. Params named `…Minutes`
+ * are durations, `status` is a driver status id, `n` picks the plural form
+ * and an empty `who` reads "another dispatcher".
+ */
+export type Problem = { code: MessageKey; params?: MessageParams };
+
+/** API error body: the problem plus its English text for other callers */
+export type ProblemBody = { error: string; code?: MessageKey; params?: MessageParams };
+
+export function problemText({ code, params = {} }: Problem, tr: Translator) {
+  const filled: MessageParams = { ...params };
+  for (const [k, v] of Object.entries(params)) {
+    if (k.endsWith("Minutes") && typeof v === "number") filled[k] = fmtDuration(v * 60, tr);
+  }
+  if (typeof params.status === "string") filled.status = tr.t(`status.${params.status}` as MessageKey).toLowerCase();
+  if (params.who === "") filled.who = tr.t("common.anotherDispatcher");
+  return typeof params.n === "number" ? tr.tn(code, params.n, filled) : tr.t(code, filled);
+}
+
+export function problemBody(problem: Problem): ProblemBody {
+  return { error: problemText(problem, makeTranslator("en")), ...problem };
+}
+
+/** Text for an error body, translated when it carries a code */
+export function errorText(body: ProblemBody, tr: Translator) {
+  return body.code ? problemText({ code: body.code, params: body.params }, tr) : body.error;
+}
+
+export function loadLang(): Lang | null {
+  const saved = localStorage.getItem("driver_lang");
+  return saved === "en" || saved === "ru" ? saved : null;
+}
+
+export function saveLang(lang: Lang) {
+  localStorage.setItem("driver_lang", lang);
+}
+
+/** Browser language on first visit */
+export function guessLang(): Lang {
+  return navigator.language?.toLowerCase().startsWith("ru") ? "ru" : "en";
+}
+
+/* time zone */
+
+/** Zones offered in the picker; "" means the browser's own */
+export const TIME_ZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "Europe/Kaliningrad",
+  "Europe/Moscow",
+  "Asia/Yekaterinburg",
+  "UTC",
+];
+
+export function loadTimeZone() {
+  return localStorage.getItem("driver_tz") ?? "";
+}
+
+export function saveTimeZone(tz: string) {
+  if (tz) localStorage.setItem("driver_tz", tz);
+  else localStorage.removeItem("driver_tz");
+}
+
+/** Date and time in the dispatcher's language and zone ("" = browser zone) */
+export function fmtDateTime(iso: string | Date, lang: Lang, tz: string) {
+  return new Intl.DateTimeFormat(LOCALES[lang], {
+    dateStyle: "short",
+    timeStyle: "short",
+    timeZone: tz || undefined,
+  }).format(new Date(iso));
+}
+
+/** "Tue 14:30" — weekday and time, for the next few days */
+export function fmtDayTime(iso: string | Date, lang: Lang, tz: string) {
+  return new Intl.DateTimeFormat(LOCALES[lang], {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: tz || undefined,
+  }).format(new Date(iso));
+}
+
+export function fmtClock(iso: string | Date, lang: Lang, tz: string) {
+  return new Intl.DateTimeFormat(LOCALES[lang], { hour: "numeric", minute: "2-digit", timeZone: tz || undefined }).format(
+    new Date(iso)
+  );
+}
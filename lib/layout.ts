@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/** Below this width the board renders rows as stacked cards */
+export const NARROW_MAX_PX = 720;
+
+export function useNarrowScreen() {
+  const [narrow, setNarrow] = useState(false);
+  useEffect(() => {
+    const mq = window.matchMedia(`(max-width: ${NARROW_MAX_PX}px)`);
+    setNarrow(mq.matches);
+    const onChange = (e: MediaQueryListEvent) => setNarrow(e.matches);
+    mq.addEventListener("change", onChange);
+    return () => mq.removeEventListener("change", onChange);
+  }, []);
+  return narrow;
+}
@@ -0,0 +1,44 @@
+import { problemBody, type ProblemBody } from "./i18n";
+import type { LocationLookupResponse, ParsedLocation } from "./locations";
+
+export async function resolveLocation(text: string): Promise<{ location: ParsedLocation | null } | ProblemBody> {
+  try {
+    const res = await fetch(`/api/locations?q=${encodeURIComponent(text)}`);
+    const body = (await res.json()) as LocationLookupResponse;
+    if ("error" in body) return body;
+    if ("location" in body) return body;
+    return problemBody({ code: "err.server", params: { error: "unexpected response" } });
+  } catch {
+    return problemBody({ code: "err.network" });
+  }
+}
+
+export async function suggestLocations(text: string): Promise<string[]> {
+  try {
+    const res = await fetch(`/api/locations?suggest=1&q=${encodeURIComponent(text)}`);
+    const body = (await res.json()) as LocationLookupResponse;
+    return "suggestions" in body ? body.suggestions : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Resolves many texts in one request (CSV import); a network failure marks every entry */
+export async function resolveLocations(texts: string[]): Promise<(ParsedLocation | null | ProblemBody)[]> {
+  try {
+    const res = await fetch("/api/locations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ q: texts }),
+    });
+    const body = await res.json();
+    if (!res.ok || !Array.isArray(body.results)) throw new Error(body.error ?? "Lookup failed");
+    return body.results;
+  } catch (e: any) {
+    const problem =
+      e instanceof TypeError
+        ? problemBody({ code: "err.network" })
+        : problemBody({ code: "err.server", params: { error: e?.message ?? "lookup failed" } });
+    return texts.map(() => problem);
+  }
+}
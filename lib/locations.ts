@@ -0,0 +1,64 @@
+import type { ProblemBody } from "./i18n";
+
+/**
+ * Structured driver locations. `location` keeps the display text used on the
+ * board and in Copy Update; the city/state/ZIP and coordinates are resolved
+ * against the bundled ZIP dataset by /api/locations before anything is saved.
+ */
+
+export type ParsedLocation = {
+  city: string;
+  state: string;
+  zip: string | null;
+  lat: number;
+  lng: number;
+};
+
+export type LocationPatch = {
+  location: string | null;
+  location_city: string | null;
+  location_state: string | null;
+  location_zip: string | null;
+  location_lat: number | null;
+  location_lng: number | null;
+};
+
+/** "Dallas, TX" or "Dallas, TX | 75201" — the board's placeholder format */
+export function formatLocation(p: ParsedLocation) {
+  return `${p.city}, ${p.state}${p.zip ? ` | ${p.zip}` : ""}`;
+}
+
+export function locationPatch(p: ParsedLocation | null): LocationPatch {
+  if (!p) {
+    return {
+      location: null,
+      location_city: null,
+      location_state: null,
+      location_zip: null,
+      location_lat: null,
+      location_lng: null,
+    };
+  }
+  return {
+    location: formatLocation(p),
+    location_city: p.city,
+    location_state: p.state,
+    location_zip: p.zip,
+    location_lat: p.lat,
+    location_lng: p.lng,
+  };
+}
+
+/** Great-circle distance in miles */
+export function distanceMiles(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+export type LocationLookupResponse =
+  | { location: ParsedLocation | null }
+  | { suggestions: string[] }
+  | ProblemBody;
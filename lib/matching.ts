@@ -0,0 +1,49 @@
+import { isDispatchable } from "./driverStatus";
+import { distanceMiles, type ParsedLocation } from "./locations";
+import { isReserveActive } from "./reserves";
+import type { Dispatcher, Driver } from "./types";
+
+/** Rough loaded/unloaded highway average used to turn deadhead miles into time */
+export const DEADHEAD_MPH = 50;
+
+export type LoadMatch = {
+  driver: Driver;
+  /** Deadhead miles to pickup; null when the driver's location is unresolved */
+  miles: number | null;
+  /** When the driver is free (now if available already) */
+  readyAtMs: number;
+  /** Estimated arrival at pickup */
+  etaMs: number | null;
+  /** Minutes past the pickup time the driver would arrive (0 = on time) */
+  lateMinutes: number | null;
+};
+
+/**
+ * Ranks dispatchable drivers for a pickup: on-time first, then by deadhead
+ * miles. Drivers held by another dispatcher, archived drivers and drivers
+ * whose availability could not be read are left out; drivers without a
+ * resolved location sink to the bottom.
+ */
+export function rankDriversForLoad(
+  drivers: Driver[],
+  pickup: ParsedLocation,
+  pickupAtMs: number,
+  me: Dispatcher | null,
+  nowMs = Date.now()
+): LoadMatch[] {
+  return drivers
+    .filter((d) => isDispatchable(d) && !d.available_unparsed)
+    .filter((d) => !(isReserveActive(d, nowMs) && d.reserved_by && d.reserved_by !== me?.id))
+    .map((d) => {
+      const readyAtMs = Math.max(nowMs, d.available_at ? new Date(d.available_at).getTime() : nowMs);
+      const hasCoords = d.location_lat != null && d.location_lng != null;
+      const miles = hasCoords ? distanceMiles({ lat: d.location_lat, lng: d.location_lng }, pickup) : null;
+      const etaMs = miles == null ? null : readyAtMs + (miles / DEADHEAD_MPH) * 3_600_000;
+      const lateMinutes = etaMs == null ? null : Math.max(0, Math.round((etaMs - pickupAtMs) / 60_000));
+      return { driver: d, miles, readyAtMs, etaMs, lateMinutes };
+    })
+    .sort((a, b) => {
+      if (a.miles == null || b.miles == null) return a.miles == null ? (b.miles == null ? 0 : 1) : -1;
+      return (a.lateMinutes ?? 0) - (b.lateMinutes ?? 0) || a.miles - b.miles;
+    });
+}
@@ -0,0 +1,54 @@
+import { supabase } from "./supabase";
+import type { Dispatcher, DriverNote } from "./types";
+
+export const NOTE_PAGE_SIZE = 20;
+
+/** "No NYC, hazmat ,," → ["no nyc", "hazmat"] */
+export function parseTags(text: string) {
+  const tags = text
+    .split(",")
+    .map((t) => t.trim().toLowerCase().replace(/^#/, ""))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, 10);
+}
+
+export function canEditNote(n: DriverNote, me: Dispatcher | null) {
+  return !!me && (n.author_id === me.id || me.is_admin);
+}
+
+/** Newest first; pass the oldest loaded `created_at` to get the next page */
+export async function fetchNotesPage(driverId: string, before?: string) {
+  let q = supabase
+    .from("driver_notes")
+    .select("*")
+    .eq("driver_id", driverId)
+    .order("created_at", { ascending: false })
+    .limit(NOTE_PAGE_SIZE);
+  if (before) q = q.lt("created_at", before);
+  const { data, error } = await q;
+  return { notes: (data as DriverNote[]) ?? [], error: error?.message ?? null };
+}
+
+/** "#hazmat" searches tags, anything else the note text, across all drivers on a board */
+export async function searchNotes(query: string, boardId: string) {
+  const q = query.trim();
+  if (!q) return { notes: [] as DriverNote[], error: null };
+  let req = supabase
+    .from("driver_notes")
+    .select("*")
+    .eq("board_id", boardId)
+    .order("created_at", { ascending: false })
+    .limit(50);
+  req = q.startsWith("#") ? req.contains("tags", [q.slice(1).toLowerCase()]) : req.ilike("body", `%${q.replace(/[%_]/g, "\\$&")}%`);
+  const { data, error } = await req;
+  return { notes: (data as DriverNote[]) ?? [], error: error?.message ?? null };
+}
+
+/** Merges a realtime note change into a newest-first list */
+export function applyNoteChange(list: DriverNote[], eventType: string, row: DriverNote | null, oldId?: string) {
+  if (eventType === "DELETE") return list.filter((n) => n.id !== oldId);
+  if (!row) return list;
+  const idx = list.findIndex((n) => n.id === row.id);
+  if (idx !== -1) return list.map((n) => (n.id === row.id ? row : n));
+  return [row, ...list].sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import type { ReserveRequest } from "./reserves";
+
+/**
+ * A change made while offline, replayed in order once the connection is back:
+ * inline edits go through `updateField` (with the value they were based on),
+ * reserve actions through the reserve API with the `expected_until` seen then.
+ */
+export type OfflineOp<F extends string = string> = {
+  id: string;
+  kind: "field" | "reserve";
+  boardId: string;
+  driverId: string;
+  /** "Unit 1401 · Location → Dallas, TX", for the queue and failure list */
+  label: string;
+  queuedAt: string;
+  field?: F;
+  value?: string;
+  base?: string;
+  request?: ReserveRequest;
+};
+
+export type OfflineFailure<F extends string = string> = { op: OfflineOp<F>; error: string };
+
+/** Last-known copies kept for offline starts; `savedAt` is shown as "as of …" */
+export type Snapshot<T> = { savedAt: string; value: T };
+
+export const offlineKeys = {
+  me: (userId: string) => `driver_offline_me:${userId}`,
+  boards: (userId: string) => `driver_offline_boards:${userId}`,
+  roster: (boardId: string) => `driver_offline_roster:${boardId}`,
+  queue: (userId: string) => `driver_offline_queue:${userId}`,
+};
+
+export function saveSnapshot<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(key, JSON.stringify({ savedAt: new Date().toISOString(), value }));
+  } catch {
+    // storage full or disabled — the next online load still works
+  }
+}
+
+export function loadSnapshot<T>(key: string): Snapshot<T> | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as Snapshot<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadQueue<F extends string>(userId: string): OfflineOp<F>[] {
+  try {
+    const raw = localStorage.getItem(offlineKeys.queue(userId));
+    const ops = raw ? JSON.parse(raw) : [];
+    return Array.isArray(ops) ? ops : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveQueue(userId: string, ops: OfflineOp[]) {
+  if (ops.length) localStorage.setItem(offlineKeys.queue(userId), JSON.stringify(ops));
+  else localStorage.removeItem(offlineKeys.queue(userId));
+}
+
+/** Removes every offline copy (profile, boards, rosters) and queued change, for sign-out */
+export function clearOfflineData() {
+  try {
+    for (const key of Object.keys(localStorage)) {
+      if (key.startsWith("driver_offline_")) localStorage.removeItem(key);
+    }
+  } catch {
+    // storage disabled — nothing was kept
+  }
+}
+
+export function newOp<F extends string>(op: Omit<OfflineOp<F>, "id" | "queuedAt">): OfflineOp<F> {
+  return { ...op, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, queuedAt: new Date().toISOString() };
+}
+
+/** The request never reached the server (as opposed to the server saying no) */
+export function isNetworkError(error: { message?: string } | null | undefined) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return /failed to fetch|network|load failed/i.test(error?.message ?? "");
+}
+
+/** Tracks the browser's online/offline events */
+export function useOnline() {
+  const [online, setOnline] = useState(true);
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const up = () => setOnline(true);
+    const down = () => setOnline(false);
+    window.addEventListener("online", up);
+    window.addEventListener("offline", down);
+    return () => {
+      window.removeEventListener("online", up);
+      window.removeEventListener("offline", down);
+    };
+  }, []);
+  return online;
+}
+
+/** Installs public/sw.js (production builds only, so dev reloads aren't served stale) */
+export function registerServiceWorker() {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").catch(() => {
+    // not fatal: the board works online without it
+  });
+}
@@ -0,0 +1,59 @@
+import type { MessageKey, Translator } from "./i18n";
+import type { Dispatcher } from "./types";
+
+/** What a dispatcher is doing right now, shared over Realtime presence on `drivers-rt` */
+export type PresenceActivity = "editing" | "reserving" | "profile";
+
+export type PresenceMeta = {
+  user_id: string;
+  name: string;
+  driver_id: string | null;
+  activity: PresenceActivity | null;
+  /** Which input, when editing */
+  field?: string | null;
+};
+
+export type Peer = PresenceMeta & { tabs: number };
+
+export function presenceMeta(me: Dispatcher, driverId: string | null, activity: PresenceActivity | null, field?: string | null) {
+  return { user_id: me.id, name: me.display_name, driver_id: driverId, activity, field: field ?? null } as PresenceMeta;
+}
+
+/**
+ * Flattens `channel.presenceState()` to one entry per dispatcher. With several
+ * tabs open the one doing something wins, so a row badge isn't lost to an idle tab.
+ */
+export function peersFromState(state: Record<string, PresenceMeta[]>): Peer[] {
+  const byUser = new Map<string, Peer>();
+  for (const metas of Object.values(state)) {
+    for (const m of metas) {
+      const prev = byUser.get(m.user_id);
+      if (!prev) byUser.set(m.user_id, { ...m, tabs: 1 });
+      else byUser.set(m.user_id, { ...(prev.activity ? prev : m), tabs: prev.tabs + 1 });
+    }
+  }
+  return Array.from(byUser.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function describeActivity(p: Peer, { t }: Translator) {
+  if (p.activity === "editing") {
+    return p.field
+      ? t("presence.editingField", { name: p.name, field: t(`field.${p.field}` as MessageKey).toLowerCase() })
+      : t("presence.editing", { name: p.name });
+  }
+  if (p.activity === "reserving") return t("presence.reserving", { name: p.name });
+  if (p.activity === "profile") return t("presence.profile", { name: p.name });
+  return p.name;
+}
+
+export function initials(name: string) {
+  const parts = name.trim().split(/\s+/);
+  return ((parts[0]?.[0] ?? "") + (parts.length > 1 ? parts[parts.length - 1][0] : "")).toUpperCase() || "?";
+}
+
+/** Stable per-dispatcher avatar colour */
+export function avatarColor(id: string) {
+  let h = 0;
+  for (const ch of id) h = (h * 31 + ch.charCodeAt(0)) % 360;
+  return `hsl(${h}, 55%, 45%)`;
+}
@@ -0,0 +1,21 @@
+import { problemBody } from "./i18n";
+import { supabase } from "./supabase";
+import type { ReserveRequest, ReserveResponse } from "./reserves";
+
+/** Calls the reserve API as the signed-in dispatcher */
+export async function postReserve(driverId: string, body: ReserveRequest): Promise<ReserveResponse> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) return problemBody({ code: "err.notSignedIn" });
+
+  try {
+    const res = await fetch(`/api/reserves/${encodeURIComponent(driverId)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+      body: JSON.stringify(body),
+    });
+    return (await res.json()) as ReserveResponse;
+  } catch {
+    return problemBody({ code: "err.network" });
+  }
+}
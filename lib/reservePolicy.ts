@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Problem, Translator } from "./i18n";
+
+/** Admin-set limits on holds (`reserve_policies`); null means no limit */
+export type ReservePolicy = {
+  default_minutes: number;
+  max_total_minutes: number | null;
+  max_holds_per_dispatcher: number | null;
+  note_required_over_minutes: number | null;
+  updated_at?: string;
+  updated_by_name?: string | null;
+};
+
+export const defaultReservePolicy: ReservePolicy = {
+  default_minutes: 15,
+  max_total_minutes: null,
+  max_holds_per_dispatcher: null,
+  note_required_over_minutes: null,
+};
+
+export const EXTEND_PRESETS = [5, 15, 30];
+
+export async function loadReservePolicy(db: SupabaseClient): Promise<ReservePolicy> {
+  const { data } = await db.from("reserve_policies").select("*").maybeSingle();
+  return { ...defaultReservePolicy, ...((data as ReservePolicy | null) ?? {}) };
+}
+
+/** 150 → "2 h 30 min" */
+export function fmtMinutes(total: number) {
+  const m = Math.round(total);
+  if (m < 60) return `${m} min`;
+  return m % 60 ? `${Math.floor(m / 60)} h ${m % 60} min` : `${m / 60} h`;
+}
+
+/**
+ * Checks a hold about to be saved. `totalMinutes` runs from the hold's start
+ * to its new end; `otherHolds` (reserve only) counts the dispatcher's other
+ * active holds. Returns the problem, or null when it is allowed.
+ */
+export function checkReservePolicy(
+  policy: ReservePolicy,
+  hold: { totalMinutes: number; note: string; otherHolds?: number }
+): Problem | null {
+  const { max_total_minutes, max_holds_per_dispatcher, note_required_over_minutes } = policy;
+  if (max_holds_per_dispatcher != null && hold.otherHolds != null && hold.otherHolds >= max_holds_per_dispatcher) {
+    return { code: "err.maxHolds", params: { n: hold.otherHolds, max: max_holds_per_dispatcher } };
+  }
+  if (max_total_minutes != null && hold.totalMinutes > max_total_minutes + 0.5) {
+    return {
+      code: "err.maxTotal",
+      params: { limitMinutes: max_total_minutes, totalMinutes: Math.round(hold.totalMinutes) },
+    };
+  }
+  if (note_required_over_minutes != null && hold.totalMinutes > note_required_over_minutes + 0.5 && !hold.note.trim()) {
+    return { code: "err.noteRequired", params: { overMinutes: note_required_over_minutes } };
+  }
+  return null;
+}
+
+/** Policy form field: blank → null, "90" → 90; anything else is an error message */
+export function parseLimit(text: string, label: string, { t }: Translator, min = 0): number | null | string {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  const n = Number(trimmed);
+  if (!Number.isInteger(n) || n < min || n > 1440) return t("policy.badNumber", { label, min });
+  return n;
+}
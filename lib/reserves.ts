@@ -0,0 +1,50 @@
+import { parseAvailability } from "./availability";
+import type { ProblemBody, Translator } from "./i18n";
+import type { Dispatcher, Driver } from "./types";
+
+export type ReserveAction = "reserve" | "extend" | "shorten" | "release";
+
+/** Body of POST /api/reserves/[driverId] */
+export type ReserveRequest = {
+  action: ReserveAction;
+  /** Time to add (reserve/extend) or take off (shorten) */
+  minutes?: number;
+  /** Absolute end instead of `minutes` for reserve/extend ("until 3 PM") */
+  until?: string | null;
+  note?: string | null;
+  /** `reserve_until` as the caller last saw it — the write only lands if it still matches */
+  expected_until: string | null;
+};
+
+export type ReserveResponse = { driver: Driver } | (ProblemBody & { driver?: Driver });
+
+export function isReserveActive(d: Pick<Driver, "reserve_until">, nowMs = Date.now()) {
+  return !!d.reserve_until && new Date(d.reserve_until).getTime() > nowMs;
+}
+
+/** Whether the dispatcher may extend or reset this driver's hold */
+export function canManageReserve(d: Driver, me: Dispatcher | null) {
+  if (!me) return false;
+  if (!isReserveActive(d) || !d.reserved_by) return true;
+  return d.reserved_by === me.id || me.is_admin;
+}
+
+/** Same instant, regardless of how Postgres or JS formatted the timestamp */
+export function sameInstant(a: string | null | undefined, b: string | null | undefined) {
+  if (!a || !b) return !a && !b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/** Seconds between the hold's start and `endMs`, or null when the start is unknown */
+export function heldSeconds(d: Pick<Driver, "reserve_started_at">, endMs: number) {
+  if (!d.reserve_started_at) return null;
+  return Math.max(0, Math.round((endMs - new Date(d.reserve_started_at).getTime()) / 1000));
+}
+
+/** "3pm", "15:30", "noon" → today's instant in `tz` (the browser zone by default); a string is the problem */
+export function parseUntil(text: string, { t }: Translator, nowMs = Date.now(), tz?: string): Date | string {
+  const parsed = parseAvailability(text, nowMs, tz);
+  if (!parsed || parsed === "now") return t("reserve.untilInvalid", { text: text.trim() });
+  if (parsed.at.getTime() <= nowMs + 60_000) return t("reserve.untilPassed", { text: text.trim() });
+  return parsed.at;
+}
@@ -0,0 +1,43 @@
+import type { Translator } from "./i18n";
+import type { Driver } from "./types";
+
+export type DriverInput = {
+  name: string;
+  unit_no: string;
+  location: string;
+  available_time: string;
+};
+
+export const emptyDriverInput: DriverInput = { name: "", unit_no: "", location: "", available_time: "" };
+
+export function normalizeUnit(unit: string | null | undefined) {
+  return (unit ?? "").trim().toUpperCase();
+}
+
+/** Another active driver already using this unit number, if any */
+export function unitTakenBy(unit: string, drivers: Driver[], exceptId?: string) {
+  const u = normalizeUnit(unit);
+  if (!u) return null;
+  return drivers.find((d) => d.id !== exceptId && !d.archived_at && normalizeUnit(d.unit_no) === u) ?? null;
+}
+
+/** Returns an error message, or null when the input can be saved */
+export function validateDriverInput(
+  input: Pick<DriverInput, "name" | "unit_no">,
+  drivers: Driver[],
+  { t }: Translator,
+  exceptId?: string
+) {
+  if (!input.name.trim()) return t("roster.nameRequired");
+  if (input.name.trim().length > 80) return t("roster.nameTooLong");
+  if (input.unit_no.trim().length > 16) return t("roster.unitTooLong");
+  const taken = unitTakenBy(input.unit_no, drivers, exceptId);
+  if (taken) return t("roster.unitTaken", { unit: normalizeUnit(input.unit_no), name: taken.name });
+  return null;
+}
+
+/** Postgres unique violations come back as code 23505 */
+export function friendlyDbError(error: { code?: string; message: string }, { t }: Translator) {
+  if (error.code === "23505") return t("roster.unitInUse");
+  return error.message;
+}
@@ -0,0 +1,193 @@
+import { availabilityPatch, browserTimeZone } from "./availability";
+import { parseCsv, toCsv } from "./csv";
+import { driverStatus } from "./driverStatus";
+import { errorText, type ProblemBody, type Translator } from "./i18n";
+import { locationPatch, type ParsedLocation } from "./locations";
+import { isReserveActive } from "./reserves";
+import { normalizeUnit } from "./roster";
+import type { Driver } from "./types";
+
+/** Roster CSV import (preview + one-batch apply) and board export */
+
+export type ImportRow = {
+  line: number;
+  unit_no: string;
+  name: string;
+  location: string;
+  available_time: string;
+};
+
+export type ImportChange = {
+  row: ImportRow;
+  /** Existing driver for changed/unchanged rows */
+  driver: Driver | null;
+  status: "new" | "changed" | "unchanged" | "error";
+  fields: string[];
+  error?: string;
+  /** Row to upsert (new and changed only) */
+  record?: Partial<Driver> & { id: string };
+};
+
+const COLUMN_ALIASES: Record<string, keyof Omit<ImportRow, "line">> = {
+  unit_no: "unit_no",
+  unit: "unit_no",
+  truck: "unit_no",
+  name: "name",
+  driver: "name",
+  location: "location",
+  available_time: "available_time",
+  available: "available_time",
+  availability: "available_time",
+};
+
+export function parseRosterCsv(text: string, { t }: Translator): { rows: ImportRow[] } | { error: string } {
+  const table = parseCsv(text.replace(/^﻿/, ""));
+  if (table.length === 0) return { error: t("import.empty") };
+
+  const header = table[0].map((h) => COLUMN_ALIASES[h.trim().toLowerCase().replace(/\s+/g, "_")]);
+  if (!header.includes("name")) return { error: t("import.noHeader") };
+
+  const rows = table.slice(1).map((cells, i) => {
+    const row: ImportRow = { line: i + 2, unit_no: "", name: "", location: "", available_time: "" };
+    header.forEach((key, col) => {
+      if (key) row[key] = (cells[col] ?? "").trim();
+    });
+    return row;
+  });
+  return { rows };
+}
+
+/**
+ * Every upserted record carries the same columns: a bulk upsert fills missing
+ * keys with NULL, so changed rows start from the driver's current values.
+ */
+function baseRecord(id: string, driver: Driver | null): Partial<Driver> & { id: string } {
+  return {
+    id,
+    name: driver?.name ?? "",
+    unit_no: driver?.unit_no ?? null,
+    location: driver?.location ?? null,
+    location_city: driver?.location_city ?? null,
+    location_state: driver?.location_state ?? null,
+    location_zip: driver?.location_zip ?? null,
+    location_lat: driver?.location_lat ?? null,
+    location_lng: driver?.location_lng ?? null,
+    available_time: driver?.available_time ?? null,
+    available_at: driver?.available_at ?? null,
+    available_tz: driver?.available_tz ?? null,
+    available_unparsed: driver?.available_unparsed ?? false,
+  };
+}
+
+/** Existing active driver for a row: by unit number when given, else by name */
+function matchDriver(row: ImportRow, drivers: Driver[]) {
+  const unit = normalizeUnit(row.unit_no);
+  if (unit) {
+    const byUnit = drivers.find((d) => normalizeUnit(d.unit_no) === unit);
+    if (byUnit) return byUnit;
+  }
+  return drivers.find((d) => d.name.trim().toLowerCase() === row.name.toLowerCase()) ?? null;
+}
+
+/**
+ * Diffs CSV rows against the board. `locations` holds the resolution of each
+ * row's location text (same order as `rows`). Only columns present in the
+ * file are compared; a blank cell leaves the existing value alone. Typed
+ * availability is read in `tz`.
+ */
+export function planImport(
+  rows: ImportRow[],
+  drivers: Driver[],
+  locations: (ParsedLocation | null | ProblemBody)[],
+  newId: () => string,
+  tr: Translator,
+  tz = browserTimeZone()
+): ImportChange[] {
+  const { t } = tr;
+  const active = drivers.filter((d) => !d.archived_at);
+  const seenUnits = new Map<string, number>();
+  const seenDrivers = new Set<string>();
+
+  return rows.map((row, i) => {
+    const base = { row, driver: null as Driver | null, fields: [] as string[] };
+    if (!row.name) return { ...base, status: "error", error: t("roster.nameRequired") };
+
+    const unit = normalizeUnit(row.unit_no);
+    if (unit && seenUnits.has(unit)) {
+      return { ...base, status: "error", error: t("import.duplicateUnit", { unit, line: seenUnits.get(unit) }) };
+    }
+    if (unit) seenUnits.set(unit, row.line);
+
+    const loc = locations[i];
+    if (loc && "error" in loc) return { ...base, status: "error", error: t("err.location", { error: errorText(loc, tr) }) };
+
+    const driver = matchDriver(row, active);
+    if (driver && seenDrivers.has(driver.id)) {
+      return { ...base, driver, status: "error", error: t("import.duplicateDriver", { name: driver.name }) };
+    }
+    if (driver) seenDrivers.add(driver.id);
+
+    if (unit && !driver) {
+      const clash = active.find((d) => normalizeUnit(d.unit_no) === unit);
+      if (clash) return { ...base, status: "error", error: t("import.unitAssigned", { unit, name: clash.name }) };
+    }
+
+    const record = baseRecord(driver?.id ?? newId(), driver);
+    const fields: string[] = [];
+    if (!driver || row.name !== driver.name) {
+      record.name = row.name;
+      fields.push("name");
+    }
+    if (unit && unit !== normalizeUnit(driver?.unit_no)) {
+      record.unit_no = unit;
+      fields.push("unit_no");
+    }
+    if (row.location) {
+      const patch = locationPatch(loc as ParsedLocation | null);
+      if (patch.location !== (driver?.location ?? null)) {
+        Object.assign(record, patch);
+        fields.push("location");
+      }
+    }
+    if (row.available_time && row.available_time !== (driver?.available_time ?? "").trim()) {
+      Object.assign(record, availabilityPatch(row.available_time, Date.now(), tz));
+      fields.push("available_time");
+    }
+
+    if (!driver) return { ...base, status: "new", fields, record };
+    if (fields.length === 0) return { ...base, driver, status: "unchanged" };
+    return { ...base, driver, status: "changed", fields, record };
+  });
+}
+
+/** Board snapshot, including reserve state; the first four columns round-trip through import */
+export function exportBoardCsv(drivers: Driver[], nowMs = Date.now()) {
+  const header = [
+    "unit_no",
+    "name",
+    "location",
+    "available_time",
+    "available_at",
+    "status",
+    "reserved",
+    "reserved_by",
+    "reserve_until",
+    "reserve_note",
+  ];
+  const rows = drivers.map((d) => {
+    const active = isReserveActive(d, nowMs);
+    return [
+      d.unit_no ?? "",
+      d.name,
+      d.location ?? "",
+      d.available_time ?? "",
+      d.available_at ?? "",
+      driverStatus(d),
+      active ? "yes" : "no",
+      active ? d.reserved_by_name ?? "" : "",
+      active ? d.reserve_until ?? "" : "",
+      active ? d.reserve_note ?? "" : "",
+    ];
+  });
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,42 @@
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseAnon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string;
+
+/** Browser client (anon key + the signed-in dispatcher's session) */
+export const supabase = createClient(supabaseUrl, supabaseAnon);
+
+/** Per-request server client acting as the dispatcher behind `accessToken`, so RLS and triggers see them */
+export function supabaseForToken(accessToken: string) {
+  return createClient(supabaseUrl, supabaseAnon, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/**
+ * Browser client for a wall display: the read-only JWT from
+ * /api/display/session, for queries and realtime. `setToken` hands a
+ * refreshed JWT to the same client, so the socket and channel stay open.
+ */
+export function supabaseForDisplay(displayJwt: string) {
+  let token = displayJwt;
+  const client = createClient(supabaseUrl, supabaseAnon, { accessToken: async () => token });
+  client.realtime.setAuth(token);
+  return {
+    client,
+    setToken(next: string) {
+      token = next;
+      client.realtime.setAuth(next);
+    },
+  };
+}
+
+/** Service-role client for server jobs (bypasses RLS) — never import from the browser */
+export function supabaseService() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  return createClient(supabaseUrl, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { heldSeconds } from "./reserves";
+import type { Driver } from "./types";
+import { handOffToNext } from "./waitlist";
+
+export type SweepResult = { cleared: string[]; skipped: string[]; handedOff: string[] };
+
+/**
+ * Clears every hold whose `reserve_until` has passed and logs an "expired"
+ * event for it, both in one `write_reserve` call (`db` must be the
+ * service-role client). Each row is guarded on its old `reserve_until`, so a
+ * hold re-reserved mid-sweep is left alone. A cleared driver with a waitlist is
+ * handed to the next dispatcher in line. The row updates reach open boards
+ * through the `drivers-rt` postgres_changes subscription.
+ */
+export async function sweepExpiredReserves(db: SupabaseClient, nowMs = Date.now()): Promise<SweepResult> {
+  const { data, error } = await db
+    .from("drivers")
+    .select("*")
+    .not("reserve_until", "is", null)
+    .lte("reserve_until", new Date(nowMs).toISOString());
+  if (error) throw new Error(error.message);
+
+  const result: SweepResult = { cleared: [], skipped: [], handedOff: [] };
+  for (const d of (data as Driver[]) ?? []) {
+    const { data: written, error: writeErr } = await db.rpc("write_reserve", {
+      p_driver_id: d.id,
+      p_expected_until: d.reserve_until,
+      p_reserve: {}, // every hold column back to null
+      p_actor_id: null,
+      p_events: [
+        {
+          kind: "expired",
+          note: d.reserve_note ?? null,
+          minutes: null,
+          held_seconds: heldSeconds(d, new Date(d.reserve_until as string).getTime()),
+          reserve_until: null,
+          actor_id: null,
+          actor_name: null,
+        },
+      ],
+    });
+    if (writeErr || !(written as Driver[] | null)?.length) {
+      result.skipped.push(d.id);
+      continue;
+    }
+
+    result.cleared.push(d.id);
+    if (await handOffToNext(db, d.id)) result.handedOff.push(d.id);
+  }
+  return result;
+}
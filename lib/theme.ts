@@ -0,0 +1,49 @@
+import type React from "react";
+
+export type Theme = "light" | "dark";
+
+/** Board colours for a theme; shared by the pages so every view matches */
+export function paletteFor(theme: Theme) {
+  const isDark = theme === "dark";
+  return {
+    pageBg: isDark ? "#0f172a" : "#ffffff",
+    text: isDark ? "#e5e7eb" : "#111827",
+    subtext: isDark ? "#94a3b8" : "#6b7280",
+    panelBorder: isDark ? "#233145" : "#e5e7eb",
+    headerBg: isDark ? "#111827" : "#f3f4f6",
+    dangerBg: isDark ? "#3f1d1d" : "#fee2e2",
+    dangerText: isDark ? "#fecaca" : "#991b1b",
+    successBg: isDark ? "#06312a" : "#ecfdf5",
+    successText: isDark ? "#34d399" : "#065f46",
+    warnBg: isDark ? "#3a2a06" : "#fef3c7",
+    warnText: isDark ? "#fbbf24" : "#92400e",
+    cardBg: isDark ? "#0b1220" : "#ffffff",
+    softBg: isDark ? "#0b1220" : "#f9fafb",
+    btnPrimaryBg: isDark ? "#1f2937" : "#111827",
+    btnPrimaryText: "#ffffff",
+    btnGhostBorder: isDark ? "#374151" : "#e5e7eb",
+  };
+}
+
+export type Palette = ReturnType<typeof paletteFor>;
+
+/* Shared modal styles */
+export const overlayStyle: React.CSSProperties = {
+  position: "fixed",
+  inset: 0,
+  background: "rgba(0,0,0,0.35)",
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  padding: 20,
+  zIndex: 50,
+};
+
+export const modalStyle: React.CSSProperties = {
+  width: 520,
+  maxWidth: "100%",
+  background: "white",
+  borderRadius: 16,
+  padding: 16,
+  boxShadow: "0 10px 25px rgba(0,0,0,0.12)",
+};
@@ -0,0 +1,145 @@
+/** DB types */
+
+/** Duty status; only "available" drivers can be reserved or go out in Copy Update */
+export type DriverStatus = "available" | "on_load" | "off_duty" | "home_time" | "out_of_service";
+
+export type Driver = {
+  id: string;
+  board_id?: string;                 // fleet/terminal the driver belongs to
+  unit_no?: string | null;           // 👈 новый столбец
+  name: string;
+  location: string | null;           // display text, "City, ST | ZIP"
+  location_city?: string | null;
+  location_state?: string | null;
+  location_zip?: string | null;
+  location_lat?: number | null;
+  location_lng?: number | null;
+  available_time: string | null;     // plain text, as typed
+  available_at?: string | null;      // ISO, parsed from available_time; null = now
+  available_tz?: string | null;      // IANA zone the time was typed in
+  available_unparsed?: boolean;      // available_time is not a time we could read; not "now"
+  reserve_until: string | null;      // ISO
+  reserve_started_at?: string | null;
+  reserve_note?: string | null;
+  reserved_by?: string | null;       // dispatcher id
+  reserved_by_name?: string | null;
+  archived_at?: string | null;       // hidden from the board when set
+  status?: DriverStatus;             // duty status, "available" by default
+  status_changed_at?: string | null;
+  version?: number;                  // bumped on every update
+  updated_at?: string;
+  updated_by_name?: string | null;
+  created_at?: string;
+};
+
+export type DriverNote = {
+  id: string;
+  driver_id: string;
+  board_id?: string;                 // copied from the driver by a trigger
+  body: string;
+  created_at: string;
+  author_id?: string | null;
+  author_name?: string | null;
+  edited_at?: string | null;         // set when body/tags change
+  pinned?: boolean;                  // shown on the board row
+  tags?: string[];
+};
+
+export type Board = {
+  id: string;
+  name: string;
+  created_at?: string;
+};
+
+export type BoardMember = {
+  board_id: string;
+  dispatcher_id: string;
+  created_at?: string;
+};
+
+export type Dispatcher = {
+  id: string;
+  display_name: string;
+  is_admin: boolean;
+};
+
+export type ReserveEventKind = "started" | "extended" | "shortened" | "released" | "expired" | "handed_off";
+
+export type ReserveEvent = {
+  id: string;
+  driver_id: string;
+  kind: ReserveEventKind;
+  note: string | null;
+  minutes: number | null;
+  held_seconds: number | null;
+  reserve_until: string | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  created_at: string;
+  /** Insert order; breaks ties between events written in the same transaction */
+  seq: number;
+};
+
+/** A dispatcher queued for a driver who is currently held */
+export type WaitlistEntry = {
+  id: string;
+  driver_id: string;
+  dispatcher_id: string;
+  dispatcher_name: string;
+  minutes: number;
+  note: string | null;
+  created_at: string;
+};
+
+/** One row of `availability_log`, written whenever a driver's availability changes */
+export type AvailabilityLogEntry = {
+  id: string;
+  driver_id: string;
+  available_time: string | null;
+  available_at: string | null;
+  created_at: string;
+};
+
+/** A read-only share link for a wall display (`/display?token=…`) */
+export type DisplayToken = {
+  id: string;
+  board_id: string;
+  token: string;
+  label: string;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  revoked_at: string | null;           // the link stops working once set
+};
+
+/** An outgoing webhook for one board; `events` are names from lib/webhooks.ts */
+export type Webhook = {
+  id: string;
+  board_id: string;
+  label: string;
+  url: string;
+  secret: string;                      // signs every request (HMAC-SHA256)
+  events: string[];
+  active: boolean;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+/** One event queued for one webhook, with the outcome of its latest attempt */
+export type WebhookDelivery = {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+};
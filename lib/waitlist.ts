@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Driver, WaitlistEntry } from "./types";
+
+/** The queue for one driver, first in line first */
+export function queueFor(entries: WaitlistEntry[], driverId: string) {
+  return entries
+    .filter((e) => e.driver_id === driverId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** 1-based place in line, or 0 when not queued */
+export function queuePosition(entries: WaitlistEntry[], driverId: string, dispatcherId: string | undefined) {
+  if (!dispatcherId) return 0;
+  return queueFor(entries, driverId).findIndex((e) => e.dispatcher_id === dispatcherId) + 1;
+}
+
+/** Merges a realtime waitlist change into the loaded list */
+export function applyWaitlistChange(list: WaitlistEntry[], eventType: string, row: WaitlistEntry | null, oldId?: string) {
+  if (eventType === "DELETE") return list.filter((e) => e.id !== oldId);
+  if (!row) return list;
+  return list.some((e) => e.id === row.id) ? list.map((e) => (e.id === row.id ? row : e)) : [...list, row];
+}
+
+/**
+ * Gives a free driver to the first dispatcher in line the hold policies allow
+ * (see `hand_off_reserve`).
+ * Returns the updated row, or null when nobody is waiting or the driver is
+ * still held. Server only: `db` must be the service-role client.
+ */
+export async function handOffToNext(db: SupabaseClient, driverId: string): Promise<Driver | null> {
+  const { data, error } = await db.rpc("hand_off_reserve", { p_driver_id: driverId });
+  if (error) {
+    console.error("hand_off_reserve failed", error.message);
+    return null;
+  }
+  const rows = (data as Driver[] | null) ?? [];
+  return rows[0] ?? null;
+}
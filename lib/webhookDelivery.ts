@@ -0,0 +1,265 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Webhook, WebhookDelivery } from "./types";
+import { DELIVERY_TIMEOUT_MS, MAX_DELIVERY_ATTEMPTS, retryDelayMs, WEBHOOK_HEADERS } from "./webhooks";
+
+export type DeliveryRunResult = { delivered: string[]; retrying: string[]; failed: string[]; skipped: string[] };
+
+/** How long a claimed delivery stays out of other runs while it is being sent */
+const CLAIM_MS = 2 * 60_000;
+const BATCH_SIZE = 50;
+/** A run stops claiming rows once another attempt might not finish within this (cron and serverless limits) */
+const RUN_BUDGET_MS = 45_000;
+
+/**
+ * Loopback, private (RFC 1918, CGNAT, IPv6 ULA), link-local (cloud metadata
+ * lives at 169.254.169.254), benchmark, multicast/reserved and unspecified
+ */
+const privateRanges = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  privateRanges.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(net, prefix, "ipv6");
+}
+
+/** The eight 16-bit groups of an IPv6 address ("::" expanded, a dotted IPv4 tail folded in) */
+function ipv6Groups(ip: string): number[] {
+  let s = ip.toLowerCase().split("%")[0];
+  const dotted = s.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    s = `${s.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = s.split("::");
+  const h = head ? head.split(":") : [];
+  const t = tail ? tail.split(":") : [];
+  const fill = tail === undefined ? [] : Array<string>(8 - h.length - t.length).fill("0");
+  return [...h, ...fill, ...t].map((g) => parseInt(g, 16));
+}
+
+/**
+ * The IPv4 address an IPv6 one carries: mapped (::ffff:a.b.c.d), compatible
+ * (::a.b.c.d), NAT64 (64:ff9b::a.b.c.d) and 6to4 (2002:AABB:CCDD::). URL
+ * parsing turns [::ffff:127.0.0.1] into ::ffff:7f00:1, so the hex forms count too.
+ */
+function embeddedIpv4(ip: string): string | null {
+  const g = ipv6Groups(ip);
+  const v4 = (hi: number, lo: number) => `${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`;
+  const zeros = (from: number, to: number) => g.slice(from, to).every((x) => x === 0);
+  if (zeros(0, 5) && (g[5] === 0xffff || (g[5] === 0 && (g[6] !== 0 || g[7] > 1)))) return v4(g[6], g[7]);
+  if (g[0] === 0x64 && g[1] === 0xff9b && zeros(2, 6)) return v4(g[6], g[7]);
+  if (g[0] === 0x2002) return v4(g[1], g[2]);
+  return null;
+}
+
+export function isPrivateAddress(ip: string): boolean {
+  const family = isIP(ip);
+  if (family === 4) return privateRanges.check(ip, "ipv4");
+  if (family !== 6) return true;
+  const v4 = embeddedIpv4(ip);
+  if (v4) return privateRanges.check(v4, "ipv4");
+  return privateRanges.check(ip.split("%")[0], "ipv6");
+}
+
+const BLOCKED_TARGET = "EBLOCKEDTARGET";
+
+function privateTargetError(host: string) {
+  return Object.assign(new Error(`${host} is a private or local address — webhooks only go to public hosts`), {
+    code: BLOCKED_TARGET,
+  });
+}
+
+const allowPrivate = () => process.env.WEBHOOKS_ALLOW_PRIVATE_URLS === "1";
+
+/**
+ * dns.lookup for the outgoing socket: fails when any answer is private, so
+ * the connection goes to the addresses that were checked (a rebinding host
+ * cannot pass a separate check and then resolve to 127.0.0.1).
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (!allowPrivate() && addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(privateTargetError(hostname), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POSTs `body` and resolves with the status code; the response body is
+ * discarded and redirects are not followed. Literal IPs skip DNS, so they are
+ * checked here; host names are checked in `publicLookup`. Set
+ * WEBHOOKS_ALLOW_PRIVATE_URLS=1 to allow private targets (local receiver in development).
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return reject(Object.assign(new Error("Not a valid URL"), { code: BLOCKED_TARGET }));
+    }
+    const host = target.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(host) && !allowPrivate() && isPrivateAddress(host)) return reject(privateTargetError(host));
+    const send = target.protocol === "https:" ? httpsRequest : target.protocol === "http:" ? httpRequest : null;
+    if (!send) return reject(Object.assign(new Error("Only http and https URLs are supported"), { code: BLOCKED_TARGET }));
+
+    const req = send(
+      target,
+      { method: "POST", headers: { ...headers, "Content-Length": String(Buffer.byteLength(body)) }, lookup: publicLookup },
+      (res) => {
+        res.resume();
+        clearTimeout(timer);
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    const timer = setTimeout(
+      () => req.destroy(Object.assign(new Error("timeout"), { name: "TimeoutError" })),
+      DELIVERY_TIMEOUT_MS
+    );
+    req.on("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    req.end(body);
+  });
+}
+
+/** Hex HMAC-SHA256 of `${timestamp}.${body}`; receivers recompute it with the webhook secret */
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Sends one delivery and records the outcome: delivered on any 2xx, otherwise
+ * retried after `retryDelayMs` until MAX_DELIVERY_ATTEMPTS, then failed.
+ * Only the status code is kept, never the response body, and redirects are
+ * not followed. Server only. Returns the updated row.
+ */
+export async function attemptDelivery(
+  db: SupabaseClient,
+  delivery: WebhookDelivery,
+  webhook: Pick<Webhook, "url" | "secret" | "active">,
+  nowMs = Date.now()
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  let lastStatus: number | null = null;
+  let problem: string | null = null;
+  let permanent = false;
+
+  if (!webhook.active) {
+    problem = "Webhook is disabled";
+    permanent = true;
+  } else {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(nowMs / 1000);
+    try {
+      const status = await postWebhook(
+        webhook.url,
+        {
+          "Content-Type": "application/json",
+          "User-Agent": "driver-reserves-webhooks",
+          [WEBHOOK_HEADERS.event]: delivery.event,
+          [WEBHOOK_HEADERS.id]: delivery.event_id,
+          [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+          [WEBHOOK_HEADERS.signature]: `sha256=${signWebhook(webhook.secret, timestamp, body)}`,
+        },
+        body
+      );
+      lastStatus = status;
+      if (status >= 300 && status < 400) problem = `HTTP ${status} (redirects are not followed)`;
+      else if (status < 200 || status >= 300) problem = `HTTP ${status}`;
+    } catch (e: any) {
+      if (e?.name === "TimeoutError") problem = `No response within ${DELIVERY_TIMEOUT_MS / 1000} s`;
+      else if (e?.code === BLOCKED_TARGET) {
+        problem = e.message;
+        permanent = true;
+      } else problem = `${e?.message ?? "Request failed"}${e?.code && !String(e.message).includes(e.code) ? ` (${e.code})` : ""}`;
+    }
+  }
+
+  const done = !problem;
+  const giveUp = !done && (permanent || attempts >= MAX_DELIVERY_ATTEMPTS);
+  const patch: Partial<WebhookDelivery> = {
+    attempts,
+    last_status: lastStatus,
+    last_error: problem,
+    status: done ? "delivered" : giveUp ? "failed" : "pending",
+    delivered_at: done ? new Date(nowMs).toISOString() : null,
+    next_attempt_at: new Date(done || giveUp ? nowMs : nowMs + retryDelayMs(attempts)).toISOString(),
+  };
+  const { data, error } = await db.from("webhook_deliveries").update(patch).eq("id", delivery.id).select("*").single();
+  if (error) throw new Error(error.message);
+  return data as WebhookDelivery;
+}
+
+/**
+ * Sends up to BATCH_SIZE due deliveries, oldest first, one at a time. Each
+ * row is claimed by pushing `next_attempt_at` forward (guarded on its old
+ * value), so overlapping runs never send the same attempt twice. Claiming
+ * stops when RUN_BUDGET_MS has no room for another timed-out attempt; the
+ * rest stay due for the next run.
+ */
+export async function deliverPendingWebhooks(db: SupabaseClient, nowMs = Date.now()): Promise<DeliveryRunResult> {
+  const { data, error } = await db
+    .from("webhook_deliveries")
+    .select("*, webhooks (url, secret, active)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date(nowMs).toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw new Error(error.message);
+
+  const startedMs = Date.now();
+  const result: DeliveryRunResult = { delivered: [], retrying: [], failed: [], skipped: [] };
+  for (const row of (data as (WebhookDelivery & { webhooks: Pick<Webhook, "url" | "secret" | "active"> })[]) ?? []) {
+    if (Date.now() - startedMs + DELIVERY_TIMEOUT_MS > RUN_BUDGET_MS) break;
+    const { data: claimed } = await db
+      .from("webhook_deliveries")
+      .update({ next_attempt_at: new Date(nowMs + CLAIM_MS).toISOString() })
+      .eq("id", row.id)
+      .eq("status", "pending")
+      .eq("next_attempt_at", row.next_attempt_at)
+      .select("id")
+      .maybeSingle();
+    if (!claimed) {
+      result.skipped.push(row.id);
+      continue;
+    }
+
+    const { webhooks: webhook, ...delivery } = row;
+    try {
+      const updated = await attemptDelivery(db, delivery, webhook);
+      if (updated.status === "delivered") result.delivered.push(row.id);
+      else if (updated.status === "failed") result.failed.push(row.id);
+      else result.retrying.push(row.id);
+    } catch (e: any) {
+      console.error("webhook delivery update failed", row.id, e?.message);
+      result.skipped.push(row.id);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,89 @@
+import type { DriverStatus, WebhookDelivery } from "./types";
+
+/** Events a webhook can subscribe to (the migration's check constraint lists the same names) */
+export const WEBHOOK_EVENTS = [
+  { id: "reserve.started", label: "Reserved" },
+  { id: "reserve.extended", label: "Hold extended" },
+  { id: "reserve.shortened", label: "Hold shortened" },
+  { id: "reserve.released", label: "Released" },
+  { id: "reserve.expired", label: "Expired" },
+  { id: "reserve.handed_off", label: "Handed to the next in queue" },
+  { id: "driver.added", label: "Driver added" },
+  { id: "driver.location_changed", label: "Location changed" },
+  { id: "driver.status_changed", label: "Status changed" },
+  { id: "driver.archived", label: "Driver archived" },
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]["id"];
+
+/** Sent by "Send test" on the webhooks page; never queued by the database */
+export const PING_EVENT = "ping";
+
+/** Driver fields as of the event */
+export type WebhookDriver = {
+  id: string;
+  unit_no: string | null;
+  name: string;
+  location: string | null;
+  status: DriverStatus;
+  available_time: string | null;
+  available_at: string | null;
+  reserve_until: string | null;
+  reserved_by_name: string | null;
+  archived_at: string | null;
+};
+
+/**
+ * JSON body of every webhook request. `id` identifies the event: it is the
+ * same on retries and across webhooks, so receivers can drop duplicates.
+ * `reserve` is set for reserve.* events, `previous` for location and status
+ * changes (the old value only).
+ */
+export type WebhookPayload = {
+  id: string;
+  type: WebhookEventType | typeof PING_EVENT;
+  created_at: string;
+  board: { id: string; name: string };
+  driver: WebhookDriver | null;
+  reserve: {
+    minutes: number | null;            // time added (started/extended/shortened/handed_off)
+    held_seconds: number | null;       // total hold length (released/expired)
+    reserve_until: string | null;
+    note: string | null;
+    actor_name: string | null;         // null when the sweeper expired it
+  } | null;
+  previous: { location?: string | null; status?: DriverStatus } | null;
+};
+
+/** Request headers; the signature is hex HMAC-SHA256 of `${timestamp}.${body}` with the webhook secret */
+export const WEBHOOK_HEADERS = {
+  event: "X-Webhook-Event",
+  id: "X-Webhook-Id",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const;
+
+/** Attempts before a delivery is marked failed (spread over about four hours by the backoff below) */
+export const MAX_DELIVERY_ATTEMPTS = 10;
+export const DELIVERY_TIMEOUT_MS = 10_000;
+
+/** Wait before attempt `attempt + 1`: 30 s, 1 min, 2 min, … capped at 6 h */
+export function retryDelayMs(attempt: number) {
+  return Math.min(30_000 * 2 ** Math.max(0, attempt - 1), 6 * 3_600_000);
+}
+
+export function isValidWebhookUrl(url: string) {
+  try {
+    const u = new URL(url);
+    return u.protocol === "https:" || u.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+export function webhookEventLabel(event: string) {
+  return WEBHOOK_EVENTS.find((e) => e.id === event)?.label ?? event;
+}
+
+/** Response of POST /api/webhooks/[webhookId]/test */
+export type WebhookTestResponse = { delivery: WebhookDelivery } | { error: string };
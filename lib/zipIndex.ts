@@ -0,0 +1,123 @@
+import * as zipcodes from "zipcodes";
+import { problemBody, type ProblemBody } from "./i18n";
+import type { ParsedLocation } from "./locations";
+
+/** Server-only: wraps the offline US ZIP dataset bundled with the `zipcodes` package */
+
+/** `zips` (how many ZIPs the city spans) doubles as a size ranking for autocomplete */
+type CityEntry = { city: string; state: string; lat: number; lng: number; zips: number; label: string };
+
+const CITY_ABBR: [RegExp, string][] = [
+  [/^ST\.?\s+/, "SAINT "],
+  [/^FT\.?\s+/, "FORT "],
+  [/^MT\.?\s+/, "MOUNT "],
+];
+
+let cityIndex: Map<string, CityEntry> | null = null;
+
+/** One entry per US city/state, coordinates averaged over its ZIPs */
+function cities() {
+  if (cityIndex) return cityIndex;
+  const acc = new Map<string, { city: string; state: string; lat: number; lng: number; n: number }>();
+  for (const z of Object.values(zipcodes.codes)) {
+    if (z.country !== "US") continue;
+    const key = `${z.city.toUpperCase()}|${z.state}`;
+    const e = acc.get(key) ?? { city: z.city, state: z.state, lat: 0, lng: 0, n: 0 };
+    e.lat += z.latitude;
+    e.lng += z.longitude;
+    e.n += 1;
+    acc.set(key, e);
+  }
+  cityIndex = new Map();
+  for (const [key, e] of acc) {
+    cityIndex.set(key, {
+      city: e.city,
+      state: e.state,
+      lat: e.lat / e.n,
+      lng: e.lng / e.n,
+      zips: e.n,
+      label: `${e.city.toUpperCase()} ${e.state}`,
+    });
+  }
+  return cityIndex;
+}
+
+function usState(text: string) {
+  const t = text.trim().toUpperCase().replace(/\./g, "");
+  const abbr = t.length === 2 ? t : zipcodes.states.full[t];
+  return abbr && Object.values(zipcodes.states.full).includes(abbr) && zipcodes.states.abbr[abbr] ? abbr : null;
+}
+
+function normalizeCity(text: string) {
+  let c = text.trim().toUpperCase().replace(/\s+/g, " ");
+  for (const [re, full] of CITY_ABBR) c = c.replace(re, full);
+  return c;
+}
+
+/** Splits "Dallas TX", "Dallas, Texas", "New York New York" into city + state */
+function splitCityState(text: string): { city: string; state: string } | null {
+  const comma = text.lastIndexOf(",");
+  if (comma !== -1) {
+    const state = usState(text.slice(comma + 1));
+    return state ? { city: text.slice(0, comma), state } : null;
+  }
+  const words = text.trim().split(/\s+/);
+  for (const n of [1, 2, 3]) {
+    if (words.length <= n) break;
+    const state = usState(words.slice(-n).join(" "));
+    if (state) return { city: words.slice(0, -n).join(" "), state };
+  }
+  return null;
+}
+
+/** Resolves typed text to a known place; null for empty input */
+export function resolveLocationText(text: string): ParsedLocation | null | ProblemBody {
+  const raw = text.replace(/\|/g, " ").trim();
+  if (!raw) return null;
+
+  const zipMatch = raw.match(/\b(\d{5})(?:-\d{4})?\b/);
+  const rest = raw.replace(/\b\d{5}(?:-\d{4})?\b/, "").replace(/[,\s]+$/, "").trim();
+
+  if (zipMatch) {
+    const z = zipcodes.lookup(zipMatch[1]);
+    if (!z || z.country !== "US") return problemBody({ code: "err.unknownZip", params: { zip: zipMatch[1] } });
+    const typedState = rest ? usState(rest) ?? splitCityState(rest)?.state : null;
+    if (typedState && typedState !== z.state) {
+      return problemBody({ code: "err.zipElsewhere", params: { zip: z.zip, city: z.city, state: z.state, typed: typedState } });
+    }
+    return { city: z.city, state: z.state, zip: z.zip, lat: z.latitude, lng: z.longitude };
+  }
+
+  const cs = splitCityState(rest);
+  if (!cs || !cs.city.trim()) return problemBody({ code: "err.locationFormat" });
+  const hit = cities().get(`${normalizeCity(cs.city)}|${cs.state}`);
+  if (!hit) return problemBody({ code: "err.placeNotFound", params: { city: cs.city.trim(), state: cs.state } });
+  return { city: hit.city, state: hit.state, zip: null, lat: hit.lat, lng: hit.lng };
+}
+
+/** Autocomplete: "dal" → ["Dallas, TX", "Dallas, GA", …]; digits complete ZIPs */
+export function suggestLocations(query: string, limit = 8): string[] {
+  const q = query.replace(/\|/g, " ").trim().toUpperCase();
+  if (q.length < 2) return [];
+
+  if (/^\d+$/.test(q)) {
+    const out: string[] = [];
+    for (const z of Object.values(zipcodes.codes)) {
+      if (z.country === "US" && z.zip.startsWith(q)) out.push(`${z.city}, ${z.state} | ${z.zip}`);
+      if (out.length >= limit) break;
+    }
+    return out;
+  }
+
+  // "dallas, texas" pins the state; otherwise match "DALLAS T…" against "CITY ST"
+  const cs = splitCityState(q);
+  const prefix = cs ? normalizeCity(cs.city) : normalizeCity(q.replace(/,/g, " "));
+  const out: CityEntry[] = [];
+  for (const e of cities().values()) {
+    if (cs ? e.state === cs.state && e.label.startsWith(`${prefix} `) : e.label.startsWith(prefix)) out.push(e);
+  }
+  return out
+    .sort((a, b) => b.zips - a.zips || a.label.localeCompare(b.label))
+    .slice(0, limit)
+    .map((e) => `${e.city}, ${e.state}`);
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { DisplaySessionResponse } from "../../../lib/display";
+import { signDisplayJwt } from "../../../lib/displayJwt";
+import { supabaseService } from "../../../lib/supabase";
+import type { Board } from "../../../lib/types";
+
+/**
+ * POST /api/display/session  { token }
+ * Trades a display share token for a short-lived read-only JWT. Called again
+ * by the display page to refresh, so a revoked link stops working within
+ * minutes even if the page is never reloaded.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<DisplaySessionResponse>) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = typeof req.body?.token === "string" ? req.body.token.trim() : "";
+  if (!token) return res.status(400).json({ error: "Missing display token" });
+
+  try {
+    const { data, error } = await supabaseService()
+      .from("display_tokens")
+      .select("board_id, revoked_at, boards (id, name)")
+      .eq("token", token)
+      .maybeSingle();
+    if (error) return res.status(500).json({ error: error.message });
+    if (!data || data.revoked_at) return res.status(404).json({ error: "This display link was revoked or does not exist" });
+
+    const { jwt, expiresAt } = signDisplayJwt(token);
+    return res.status(200).json({
+      access_token: jwt,
+      expires_at: expiresAt.toISOString(),
+      board: data.boards as unknown as Board,
+    });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message ?? "Could not open the display" });
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ProblemBody } from "../../lib/i18n";
+import type { LocationLookupResponse, ParsedLocation } from "../../lib/locations";
+import { resolveLocationText, suggestLocations } from "../../lib/zipIndex";
+
+const MAX_BATCH = 2000;
+
+type BatchResponse = { results: (ParsedLocation | null | ProblemBody)[] } | { error: string };
+
+/**
+ * GET  /api/locations?q=dallas tx           → { location } or { error }
+ * GET  /api/locations?q=dal&suggest=1       → { suggestions }
+ * POST /api/locations { q: string[] }       → { results } (one per query, for imports)
+ * Backed by the offline ZIP dataset; nothing leaves the server.
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse<LocationLookupResponse | BatchResponse>) {
+  if (req.method === "POST") {
+    const q = (req.body ?? {}).q;
+    if (!Array.isArray(q) || q.length > MAX_BATCH) {
+      return res.status(400).json({ error: `Send { q: string[] } with at most ${MAX_BATCH} entries` });
+    }
+    return res.status(200).json({ results: q.map((t) => resolveLocationText(String(t ?? ""))) });
+  }
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+  const q = String(req.query.q ?? "");
+
+  if (req.query.suggest) {
+    res.setHeader("Cache-Control", "public, max-age=86400");
+    return res.status(200).json({ suggestions: suggestLocations(q) });
+  }
+
+  const result = resolveLocationText(q);
+  if (result === null) return res.status(200).json({ location: null });
+  if ("error" in result) return res.status(422).json(result);
+  return res.status(200).json({ location: result });
+}
@@ -0,0 +1,285 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { statusBlocksReserve } from "../../../lib/driverStatus";
+import { problemBody, type Problem } from "../../../lib/i18n";
+import { checkReservePolicy, loadReservePolicy } from "../../../lib/reservePolicy";
+import { supabaseForToken, supabaseService } from "../../../lib/supabase";
+import {
+  canManageReserve,
+  heldSeconds,
+  isReserveActive,
+  sameInstant,
+  type ReserveRequest,
+  type ReserveResponse,
+} from "../../../lib/reserves";
+import type { Dispatcher, Driver, ReserveEvent, WaitlistEntry } from "../../../lib/types";
+import { handOffToNext } from "../../../lib/waitlist";
+
+const MAX_MINUTES = 24 * 60;
+
+function bearer(req: NextApiRequest) {
+  const h = req.headers.authorization ?? "";
+  return h.startsWith("Bearer ") ? h.slice(7) : null;
+}
+
+type NewEvent = Omit<ReserveEvent, "id" | "created_at" | "seq">;
+
+/** The columns that make up a hold; only `write_reserve` (service role) may change them */
+type ReserveColumns = Pick<Driver, "reserve_until" | "reserve_started_at" | "reserve_note" | "reserved_by" | "reserved_by_name">;
+
+function expiredEvent(before: Driver): NewEvent {
+  return {
+    driver_id: before.id,
+    kind: "expired",
+    note: before.reserve_note ?? null,
+    minutes: null,
+    held_seconds: heldSeconds(before, new Date(before.reserve_until as string).getTime()),
+    reserve_until: null,
+    actor_id: null,
+    actor_name: null,
+  };
+}
+
+/**
+ * History rows for a successful write; an expired hold being replaced is
+ * logged first, and resetting a hold that already ran out logs its expiry
+ */
+function eventsFor(
+  action: ReserveRequest["action"],
+  before: Driver,
+  after: Driver,
+  me: Dispatcher,
+  minutes: number,
+  note: string,
+  nowMs: number
+) {
+  const actor = { actor_id: me.id, actor_name: me.display_name };
+  const events: NewEvent[] = [];
+  if (action === "reserve") {
+    if (before.reserve_until) events.push(expiredEvent(before));
+    events.push({
+      driver_id: before.id,
+      kind: "started",
+      note: note || null,
+      minutes,
+      held_seconds: null,
+      reserve_until: after.reserve_until,
+      ...actor,
+    });
+  } else if (action === "extend" || action === "shorten") {
+    events.push({
+      driver_id: before.id,
+      kind: action === "extend" ? "extended" : "shortened",
+      note: note || null,
+      minutes,
+      held_seconds: null,
+      reserve_until: after.reserve_until,
+      ...actor,
+    });
+  } else if (!isReserveActive(before, nowMs)) {
+    events.push(expiredEvent(before));
+  } else {
+    events.push({
+      driver_id: before.id,
+      kind: "released",
+      note: before.reserve_note ?? null,
+      minutes: null,
+      held_seconds: heldSeconds(before, nowMs),
+      reserve_until: null,
+      ...actor,
+    });
+  }
+  return events;
+}
+
+function conflictProblem(d: Driver): Problem {
+  if (isReserveActive(d)) return { code: "err.justReserved", params: { name: d.name, who: d.reserved_by_name ?? "" } };
+  return { code: "err.changedMeanwhile", params: { name: d.name } };
+}
+
+/** Errors go out as a message key and params (translated by the browser) plus the English text */
+function fail(res: NextApiResponse<ReserveResponse>, status: number, problem: Problem, driver?: Driver) {
+  return res.status(status).json({ ...problemBody(problem), ...(driver ? { driver } : {}) });
+}
+
+/**
+ * POST /api/reserves/[driverId]
+ * Reserve, extend, shorten or release a hold. Times come from the server clock and the
+ * write is a compare-and-set on `reserve_until`, so concurrent dispatchers get
+ * a 409 with the current row instead of silently overwriting each other.
+ * A free driver with a waitlist goes to the first dispatcher in line; the
+ * hold is handed over automatically on release, with the policies checked
+ * again by `hand_off_reserve`. Admin policies (total length,
+ * holds per dispatcher, required notes) are checked before every write,
+ * which goes through `write_reserve` with the service role: the database
+ * rejects hold changes from anywhere else.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ReserveResponse>) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return fail(res, 405, { code: "err.methodNotAllowed" });
+  }
+
+  const token = bearer(req);
+  if (!token) return fail(res, 401, { code: "err.notSignedIn" });
+
+  const db = supabaseForToken(token);
+  const { data: auth, error: authErr } = await db.auth.getUser(token);
+  if (authErr || !auth.user) return fail(res, 401, { code: "err.sessionExpired" });
+
+  const { data: meRow } = await db.from("dispatchers").select("*").eq("id", auth.user.id).maybeSingle();
+  const me = meRow as Dispatcher | null;
+  if (!me) return fail(res, 403, { code: "err.noProfile" });
+
+  // reads go through `db` (RLS: board members only); hold writes need the service role
+  let service: SupabaseClient;
+  try {
+    service = supabaseService();
+  } catch (e: any) {
+    console.error("reserve API", e?.message);
+    return fail(res, 500, { code: "err.notConfigured" });
+  }
+
+  const driverId = String(req.query.driverId);
+  const body = (req.body ?? {}) as ReserveRequest;
+  if (!["reserve", "extend", "shorten", "release"].includes(body.action)) {
+    return fail(res, 400, { code: "err.unknownAction" });
+  }
+  const untilMs = body.until && body.action !== "shorten" ? new Date(body.until).getTime() : null;
+  if (untilMs !== null && (!Number.isFinite(untilMs) || untilMs > Date.now() + MAX_MINUTES * 60_000)) {
+    return fail(res, 400, { code: "err.untilRange" });
+  }
+  const minutes = Number(body.minutes);
+  if (body.action !== "release" && untilMs === null && (!Number.isInteger(minutes) || minutes <= 0 || minutes > MAX_MINUTES)) {
+    return fail(res, 400, { code: "err.badMinutes", params: { max: MAX_MINUTES } });
+  }
+  const note = typeof body.note === "string" ? body.note.trim() : "";
+
+  const { data: currentRow, error: readErr } = await db.from("drivers").select("*").eq("id", driverId).maybeSingle();
+  if (readErr) return fail(res, 500, { code: "err.server", params: { error: readErr.message } });
+  const current = currentRow as Driver | null;
+  if (!current) return fail(res, 404, { code: "err.driverNotFound" });
+
+  if (!sameInstant(current.reserve_until, body.expected_until)) {
+    return fail(res, 409, conflictProblem(current), current);
+  }
+
+  const nowMs = Date.now();
+  const active = isReserveActive(current, nowMs);
+  const policy = await loadReservePolicy(db);
+  let patch: Partial<ReserveColumns>;
+  let changedMinutes = minutes;
+
+  if (body.action === "reserve") {
+    if (active) return fail(res, 409, conflictProblem(current), current);
+    if (current.archived_at) return fail(res, 409, { code: "err.archived", params: { name: current.name } }, current);
+    const statusProblem = statusBlocksReserve(current);
+    if (statusProblem) return fail(res, 409, statusProblem, current);
+    const { data: head } = await db
+      .from("reserve_waitlist")
+      .select("*")
+      .eq("driver_id", driverId)
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+    const next = head as WaitlistEntry | null;
+    if (next && next.dispatcher_id !== me.id) {
+      // the hand-off logs the lapsed hold's expiry itself, so a lost race leaves it to eventsFor below
+      const handed = await handOffToNext(service, driverId);
+      if (handed) {
+        return fail(res, 409, { code: "err.wentToNext", params: { name: current.name, who: next.dispatcher_name ?? "" } }, handed);
+      }
+    }
+    const endMs = untilMs ?? nowMs + minutes * 60_000;
+    if (endMs <= nowMs + 60_000) return fail(res, 400, { code: "err.endPassed" });
+    const { count } = await db
+      .from("drivers")
+      .select("id", { count: "exact", head: true })
+      .eq("reserved_by", me.id)
+      .gt("reserve_until", new Date(nowMs).toISOString())
+      .neq("id", driverId);
+    changedMinutes = Math.round((endMs - nowMs) / 60_000);
+    const problem = checkReservePolicy(policy, { totalMinutes: changedMinutes, note, otherHolds: count ?? 0 });
+    if (problem) return fail(res, 400, problem);
+    patch = {
+      reserve_started_at: new Date(nowMs).toISOString(),
+      reserve_until: new Date(endMs).toISOString(),
+      reserve_note: note || null,
+      reserved_by: me.id,
+      reserved_by_name: me.display_name,
+    };
+  } else {
+    if (!canManageReserve(current, me)) {
+      return fail(res, 403, { code: "err.reservedBy", params: { name: current.name, who: current.reserved_by_name ?? "" } }, current);
+    }
+    if (body.action === "extend" || body.action === "shorten") {
+      if (!active) return fail(res, 409, { code: "err.holdExpired", params: { name: current.name } }, current);
+      const currentEndMs = new Date(current.reserve_until as string).getTime();
+      const endMs =
+        body.action === "shorten" ? currentEndMs - minutes * 60_000 : untilMs ?? currentEndMs + minutes * 60_000;
+      if (body.action === "extend" && endMs <= currentEndMs) {
+        return fail(res, 400, { code: "err.extendEarlier" });
+      }
+      if (body.action === "shorten" && endMs <= nowMs + 60_000) {
+        return fail(res, 400, { code: "err.shortenTooFar" });
+      }
+      changedMinutes = Math.round(Math.abs(endMs - currentEndMs) / 60_000);
+      if (body.action === "extend") {
+        const startMs = current.reserve_started_at ? new Date(current.reserve_started_at).getTime() : nowMs;
+        const problem = checkReservePolicy(policy, {
+          totalMinutes: (endMs - startMs) / 60_000,
+          note: note || current.reserve_note || "",
+        });
+        if (problem) return fail(res, 400, problem);
+      }
+      patch = {
+        reserve_until: new Date(endMs).toISOString(),
+        ...(note ? { reserve_note: note } : {}),
+      };
+    } else {
+      if (!current.reserve_until) {
+        return fail(res, 409, { code: "err.notOnHold", params: { name: current.name } }, current);
+      }
+      patch = {
+        reserve_until: null,
+        reserve_started_at: null,
+        reserve_note: null,
+        reserved_by: null,
+        reserved_by_name: null,
+      };
+    }
+  }
+
+  const reserve: ReserveColumns = {
+    reserve_until: current.reserve_until,
+    reserve_started_at: current.reserve_started_at ?? null,
+    reserve_note: current.reserve_note ?? null,
+    reserved_by: current.reserved_by ?? null,
+    reserved_by_name: current.reserved_by_name ?? null,
+    ...patch,
+  };
+  const { data: written, error: writeErr } = await service.rpc("write_reserve", {
+    p_driver_id: driverId,
+    p_expected_until: current.reserve_until,
+    p_reserve: reserve,
+    p_actor_id: me.id,
+    p_events: eventsFor(body.action, current, { ...current, ...reserve }, me, changedMinutes, note, nowMs),
+  });
+  if (writeErr) return fail(res, 400, { code: "err.server", params: { error: writeErr.message } });
+  const updated = ((written as Driver[] | null) ?? [])[0] ?? null;
+
+  if (!updated) {
+    const { data: latest } = await db.from("drivers").select("*").eq("id", driverId).maybeSingle();
+    const d = (latest as Driver | null) ?? current;
+    return fail(res, 409, conflictProblem(d), d);
+  }
+
+  if (body.action === "reserve") {
+    await db.from("reserve_waitlist").delete().eq("driver_id", driverId).eq("dispatcher_id", me.id);
+  } else if (body.action === "release") {
+    const handed = await handOffToNext(service, driverId);
+    if (handed) return res.status(200).json({ driver: handed });
+  }
+
+  return res.status(200).json({ driver: updated as Driver });
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseService } from "../../../lib/supabase";
+import { sweepExpiredReserves, type SweepResult } from "../../../lib/sweep";
+
+/**
+ * GET|POST /api/reserves/sweep
+ * Clears expired holds. Meant for a cron (or `npm run sweep` locally);
+ * requires `Authorization: Bearer $SWEEP_SECRET`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SweepResult | { error: string }>) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.SWEEP_SECRET;
+  if (!secret) return res.status(500).json({ error: "SWEEP_SECRET is not set" });
+  if (req.headers.authorization !== `Bearer ${secret}`) return res.status(401).json({ error: "Unauthorized" });
+
+  try {
+    const result = await sweepExpiredReserves(supabaseService());
+    return res.status(200).json(result);
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message ?? "Sweep failed" });
+  }
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseForToken } from "../../../../lib/supabase";
+import type { Board, Webhook, WebhookDelivery } from "../../../../lib/types";
+import { attemptDelivery } from "../../../../lib/webhookDelivery";
+import { PING_EVENT, type WebhookPayload, type WebhookTestResponse } from "../../../../lib/webhooks";
+
+function bearer(req: NextApiRequest) {
+  const h = req.headers.authorization ?? "";
+  return h.startsWith("Bearer ") ? h.slice(7) : null;
+}
+
+/**
+ * POST /api/webhooks/[webhookId]/test
+ * Sends a "ping" event to the webhook right away and returns the logged
+ * delivery, so an admin can check the URL and signature without waiting for
+ * a real event. Runs as the signed-in admin; RLS hides webhooks from everyone else.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<WebhookTestResponse>) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const token = bearer(req);
+  if (!token) return res.status(401).json({ error: "Not signed in" });
+  const db = supabaseForToken(token);
+
+  const { data: row, error: readErr } = await db
+    .from("webhooks")
+    .select("*, boards (id, name)")
+    .eq("id", String(req.query.webhookId))
+    .maybeSingle();
+  if (readErr) return res.status(500).json({ error: readErr.message });
+  if (!row) return res.status(404).json({ error: "Webhook not found" });
+  const { boards: board, ...webhook } = row as Webhook & { boards: Board };
+
+  const eventId = randomUUID();
+  const payload: WebhookPayload = {
+    id: eventId,
+    type: PING_EVENT,
+    created_at: new Date().toISOString(),
+    board: { id: board.id, name: board.name },
+    driver: null,
+    reserve: null,
+    previous: null,
+  };
+  const { data: queued, error: queueErr } = await db
+    .from("webhook_deliveries")
+    .insert({ webhook_id: webhook.id, event_id: eventId, event: PING_EVENT, payload })
+    .select("*")
+    .single();
+  if (queueErr) return res.status(400).json({ error: queueErr.message });
+
+  try {
+    // a test is a one-off: it is not retried, whatever the outcome
+    const delivery = await attemptDelivery(db, queued as WebhookDelivery, { ...webhook, active: true });
+    if (delivery.status === "pending") {
+      const { data: closed } = await db
+        .from("webhook_deliveries")
+        .update({ status: "failed" })
+        .eq("id", delivery.id)
+        .select("*")
+        .single();
+      return res.status(200).json({ delivery: (closed as WebhookDelivery) ?? delivery });
+    }
+    return res.status(200).json({ delivery });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message ?? "Test failed" });
+  }
+}
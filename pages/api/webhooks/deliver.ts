@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseService } from "../../../lib/supabase";
+import { deliverPendingWebhooks, type DeliveryRunResult } from "../../../lib/webhookDelivery";
+
+/**
+ * GET|POST /api/webhooks/deliver
+ * Sends queued webhook deliveries that are due (new ones and retries). Meant
+ * for the same cron as the sweeper (or `npm run webhooks` locally); requires
+ * `Authorization: Bearer $SWEEP_SECRET`.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<DeliveryRunResult | { error: string }>) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const secret = process.env.SWEEP_SECRET;
+  if (!secret) return res.status(500).json({ error: "SWEEP_SECRET is not set" });
+  if (req.headers.authorization !== `Bearer ${secret}`) return res.status(401).json({ error: "Unauthorized" });
+
+  try {
+    const result = await deliverPendingWebhooks(supabaseService());
+    return res.status(200).json(result);
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message ?? "Delivery failed" });
+  }
+}
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import type { Session } from "@supabase/supabase-js";
+import {
+  average,
+  buildHolds,
+  driverLabel,
+  holdsCsv,
+  median,
+  summarizeHolds,
+  type HoldStats,
+} from "../../../lib/analytics";
+import { boardPath } from "../../../lib/boards";
+import { fmtMinutes } from "../../../lib/reservePolicy";
+import { supabase } from "../../../lib/supabase";
+import { paletteFor, type Theme } from "../../../lib/theme";
+import type { AvailabilityLogEntry, Board, Driver, ReserveEvent } from "../../../lib/types";
+
+/** Rows are capped per load; a wider range than this should be exported in pieces */
+const MAX_EVENTS = 5000;
+/** PostgREST's default `max-rows`: a longer `.limit()` is cut to this, so rows are read page by page */
+const PAGE_SIZE = 1000;
+/** Availability set this long before the range can still be the one a hold started from */
+const AVAILABILITY_LOOKBACK_MS = 7 * 86_400_000;
+
+function fmtSeconds(s: number | null) {
+  if (s == null) return "—";
+  return s < 60 ? `${Math.round(s)}s` : fmtMinutes(s / 60);
+}
+
+/** Reads pages of `page(from, to)` until one comes back short or `MAX_EVENTS` rows are in */
+async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<{ rows: T[]; error: string | null; capped: boolean }> {
+  const rows: T[] = [];
+  while (rows.length < MAX_EVENTS) {
+    const size = Math.min(PAGE_SIZE, MAX_EVENTS - rows.length);
+    const { data, error } = await page(rows.length, rows.length + size - 1);
+    if (error) return { rows, error: error.message, capped: false };
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < size) return { rows, error: null, capped: false };
+  }
+  return { rows, error: null, capped: true };
+}
+
+function isoDay(d: Date) {
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 10);
+}
+
+/** How reserves are used on one board over a date range */
+export default function BoardAnalytics() {
+  const router = useRouter();
+  const boardId = typeof router.query.boardId === "string" ? router.query.boardId : null;
+
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [board, setBoard] = useState<Board | null>(null);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [events, setEvents] = useState<ReserveEvent[]>([]);
+  const [availability, setAvailability] = useState<AvailabilityLogEntry[]>([]);
+  const [from, setFrom] = useState(() => isoDay(new Date(Date.now() - 6 * 86_400_000)));
+  const [to, setTo] = useState(() => isoDay(new Date()));
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [theme, setTheme] = useState<Theme>("light");
+  useEffect(() => {
+    const saved = localStorage.getItem("driver_theme") as Theme | null;
+    if (saved) setTheme(saved);
+  }, []);
+  const colors = useMemo(() => paletteFor(theme), [theme]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setAuthReady(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!session || !boardId) return;
+    (async () => {
+      const [{ data: b, error }, { data: rows }] = await Promise.all([
+        supabase.from("boards").select("*").eq("id", boardId).maybeSingle(),
+        supabase.from("drivers").select("*").eq("board_id", boardId),
+      ]);
+      if (error || !b) setErr(error?.message ?? "That board does not exist or you are not a member of it");
+      setBoard((b as Board | null) ?? null);
+      setDrivers((rows as Driver[]) ?? []);
+    })();
+  }, [session, boardId]);
+
+  useEffect(() => {
+    if (!session || !boardId) return;
+    const startMs = new Date(`${from}T00:00`).getTime();
+    const endMs = new Date(`${to}T00:00`).getTime() + 86_400_000;
+    if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || endMs <= startMs) {
+      setErr("Pick a start date on or before the end date");
+      return;
+    }
+    (async () => {
+      setLoading(true);
+      // a tie-breaker keeps the order stable across pages when timestamps tie
+      const [evs, avail] = await Promise.all([
+        fetchAll<ReserveEvent>((lo, hi) =>
+          supabase
+            .from("reserve_events")
+            .select("*, drivers!inner(board_id)")
+            .eq("drivers.board_id", boardId)
+            .gte("created_at", new Date(startMs).toISOString())
+            .lt("created_at", new Date(endMs).toISOString())
+            .order("created_at", { ascending: true })
+            .order("seq", { ascending: true })
+            .range(lo, hi)
+        ),
+        fetchAll<AvailabilityLogEntry>((lo, hi) =>
+          supabase
+            .from("availability_log")
+            .select("*, drivers!inner(board_id)")
+            .eq("drivers.board_id", boardId)
+            .gte("created_at", new Date(startMs - AVAILABILITY_LOOKBACK_MS).toISOString())
+            .lt("created_at", new Date(endMs).toISOString())
+            .order("created_at", { ascending: true })
+            .order("id", { ascending: true })
+            .range(lo, hi)
+        ),
+      ]);
+      setLoading(false);
+      setErr(
+        evs.error ??
+          avail.error ??
+          (evs.capped || avail.capped ? `Showing the first ${MAX_EVENTS} rows — narrow the range` : null)
+      );
+      setEvents(evs.rows);
+      setAvailability(avail.rows);
+    })();
+  }, [session, boardId, from, to]);
+
+  const holds = useMemo(() => buildHolds(events, availability), [events, availability]);
+  const driverById = useMemo(() => new Map(drivers.map((d) => [d.id, d])), [drivers]);
+  const byDispatcher = useMemo(
+    () => summarizeHolds(holds, (h) => h.dispatcher_id ?? h.dispatcher_name, (k) => holds.find((h) => (h.dispatcher_id ?? h.dispatcher_name) === k)?.dispatcher_name ?? k),
+    [holds]
+  );
+  const byDriver = useMemo(
+    () => summarizeHolds(holds, (h) => h.driver_id, (k) => driverLabel(driverById.get(k))),
+    [holds, driverById]
+  );
+
+  const durations = holds.map((h) => h.held_seconds).filter((s): s is number => s != null);
+  const idles = holds.map((h) => h.idle_seconds).filter((s): s is number => s != null);
+  const released = holds.filter((h) => h.outcome === "released").length;
+  const expired = holds.filter((h) => h.outcome === "expired").length;
+
+  function downloadCsv() {
+    const blob = new Blob([holdsCsv(holds, drivers)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `reserves-${from}-to-${to}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const pageStyle: React.CSSProperties = {
+    padding: 24,
+    fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+    background: colors.pageBg,
+    color: colors.text,
+    minHeight: "100vh",
+  };
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const cardStyle: React.CSSProperties = {
+    padding: 12,
+    borderRadius: 12,
+    border: `1px solid ${colors.panelBorder}`,
+    background: colors.cardBg,
+    minWidth: 150,
+  };
+
+  if (authReady && !session) {
+    return (
+      <div style={pageStyle}>
+        <Link href={boardId ? boardPath(boardId) : "/"} style={{ color: colors.text }}>
+          Sign in on the board
+        </Link>{" "}
+        to see analytics.
+      </div>
+    );
+  }
+
+  const statsTable = (title: string, rows: HoldStats[]) => (
+    <div style={{ marginTop: 20 }}>
+      <h2 style={{ fontSize: 16, margin: "0 0 6px" }}>{title}</h2>
+      <div style={{ border: `1px solid ${colors.panelBorder}`, borderRadius: 12, overflow: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr style={{ background: colors.headerBg, textAlign: "left" }}>
+              {["", "Holds", "Released", "Expired", "Open", "Total held", "Average", "Median"].map((h) => (
+                <th key={h} style={{ padding: 8, fontWeight: 600 }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} style={{ padding: 12, color: colors.subtext }}>
+                  {loading ? "Loading…" : "No holds in this range."}
+                </td>
+              </tr>
+            ) : (
+              rows.map((r) => (
+                <tr key={r.key} style={{ borderTop: `1px solid ${colors.panelBorder}` }}>
+                  <td style={{ padding: 8, fontWeight: 600 }}>{r.label}</td>
+                  <td style={{ padding: 8 }}>{r.holds}</td>
+                  <td style={{ padding: 8 }}>{r.released}</td>
+                  <td style={{ padding: 8, color: r.expired ? colors.dangerText : undefined }}>{r.expired}</td>
+                  <td style={{ padding: 8 }}>{r.open}</td>
+                  <td style={{ padding: 8 }}>{fmtSeconds(r.totalSeconds)}</td>
+                  <td style={{ padding: 8 }}>{fmtSeconds(r.avgSeconds)}</td>
+                  <td style={{ padding: 8 }}>{fmtSeconds(r.medianSeconds)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={pageStyle}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 28, fontWeight: 800, margin: 0 }}>
+          📊 Reserve analytics{board ? <span style={{ fontSize: 16, color: colors.subtext }}> · {board.name}</span> : null}
+        </h1>
+        <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+          <label style={{ fontSize: 13, color: colors.subtext }}>
+            From <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ fontSize: 13, color: colors.subtext }}>
+            To <input type="date" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+          </label>
+          <button
+            onClick={downloadCsv}
+            disabled={holds.length === 0}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            Download CSV
+          </button>
+          {boardId && (
+            <Link
+              href={boardPath(boardId)}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${colors.btnGhostBorder}`,
+                background: colors.btnPrimaryBg,
+                color: colors.btnPrimaryText,
+                textDecoration: "none",
+              }}
+            >
+              ← Board
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {err && (
+        <div style={{ background: colors.dangerBg, color: colors.dangerText, padding: 10, borderRadius: 8, marginTop: 12 }}>{err}</div>
+      )}
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", marginTop: 16 }}>
+        {[
+          { label: "Holds", value: String(holds.length) },
+          { label: "Average hold", value: fmtSeconds(average(durations)) },
+          { label: "Median hold", value: fmtSeconds(median(durations)) },
+          {
+            label: "Expired vs released",
+            value: `${expired} / ${released}`,
+            hint: expired + released ? `${Math.round((expired / (expired + released)) * 100)}% expired` : undefined,
+          },
+          {
+            label: "Idle before first reserve",
+            value: fmtSeconds(median(idles)),
+            hint: idles.length ? `median of ${idles.length}, average ${fmtSeconds(average(idles))}` : "no availability history yet",
+          },
+        ].map((c) => (
+          <div key={c.label} style={cardStyle}>
+            <div style={{ fontSize: 12, color: colors.subtext }}>{c.label}</div>
+            <div style={{ fontSize: 22, fontWeight: 700 }}>{c.value}</div>
+            {c.hint && <div style={{ fontSize: 12, color: colors.subtext }}>{c.hint}</div>}
+          </div>
+        ))}
+      </div>
+
+      {statsTable("By dispatcher", byDispatcher)}
+      {statsTable("By driver", byDriver)}
+    </div>
+  );
+}
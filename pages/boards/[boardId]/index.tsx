@@ -0,0 +1,2 @@
+// One board; the page itself lives at `/` and reads `boardId` from the route.
+export { default } from "../../index";
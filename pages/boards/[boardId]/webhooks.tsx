@@ -0,0 +1,469 @@
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import type { Session } from "@supabase/supabase-js";
+import { boardPath } from "../../../lib/boards";
+import { supabase } from "../../../lib/supabase";
+import { paletteFor, type Theme } from "../../../lib/theme";
+import type { Board, Dispatcher, Webhook, WebhookDelivery, WebhookDeliveryStatus } from "../../../lib/types";
+import {
+  isValidWebhookUrl,
+  WEBHOOK_EVENTS,
+  WEBHOOK_HEADERS,
+  webhookEventLabel,
+  type WebhookTestResponse,
+} from "../../../lib/webhooks";
+
+/** Newest deliveries shown in the log */
+const LOG_LIMIT = 100;
+
+type LogRow = WebhookDelivery & { webhooks: { board_id: string; label: string; url: string } };
+
+/** Outgoing webhooks for one board and the log of what was sent (admins only) */
+export default function BoardWebhooks() {
+  const router = useRouter();
+  const boardId = typeof router.query.boardId === "string" ? router.query.boardId : null;
+
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [me, setMe] = useState<Dispatcher | null>(null);
+  const [board, setBoard] = useState<Board | null>(null);
+  const [hooks, setHooks] = useState<Webhook[]>([]);
+  const [log, setLog] = useState<LogRow[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | "">("");
+  const [hookFilter, setHookFilter] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [shownSecret, setShownSecret] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [form, setForm] = useState({ label: "", url: "", events: [] as string[] });
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [logKey, setLogKey] = useState(0);
+
+  const [theme, setTheme] = useState<Theme>("light");
+  useEffect(() => {
+    const saved = localStorage.getItem("driver_theme") as Theme | null;
+    if (saved) setTheme(saved);
+  }, []);
+  const colors = useMemo(() => paletteFor(theme), [theme]);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setAuthReady(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!session || !boardId) return;
+    (async () => {
+      const [{ data: b, error }, { data: meRow }, { data: rows }] = await Promise.all([
+        supabase.from("boards").select("*").eq("id", boardId).maybeSingle(),
+        supabase.from("dispatchers").select("*").eq("id", session.user.id).maybeSingle(),
+        supabase.from("webhooks").select("*").eq("board_id", boardId).order("created_at", { ascending: true }),
+      ]);
+      if (error || !b) setErr(error?.message ?? "That board does not exist or you are not a member of it");
+      setBoard((b as Board | null) ?? null);
+      setMe((meRow as Dispatcher | null) ?? null);
+      setHooks((rows as Webhook[]) ?? []);
+    })();
+  }, [session, boardId]);
+
+  useEffect(() => {
+    if (!session || !boardId) return;
+    let q = supabase
+      .from("webhook_deliveries")
+      .select("*, webhooks!inner(board_id, label, url)")
+      .eq("webhooks.board_id", boardId)
+      .order("created_at", { ascending: false })
+      .limit(LOG_LIMIT);
+    if (statusFilter) q = q.eq("status", statusFilter);
+    if (hookFilter) q = q.eq("webhook_id", hookFilter);
+    q.then(({ data, error }) => {
+      if (error) setErr(error.message);
+      setLog((data as LogRow[]) ?? []);
+    });
+  }, [session, boardId, statusFilter, hookFilter, logKey]);
+
+  function flash(msg: string) {
+    setNotice(msg);
+    setTimeout(() => setNotice(null), 2500);
+  }
+
+  async function createHook() {
+    const url = form.url.trim();
+    if (!isValidWebhookUrl(url)) return setErr("Enter a full http(s):// URL");
+    if (form.events.length === 0) return setErr("Pick at least one event to send");
+    const { data, error } = await supabase
+      .from("webhooks")
+      .insert({ board_id: boardId, label: form.label.trim(), url, events: form.events })
+      .select("*")
+      .single();
+    if (error) return setErr(error.message);
+    setErr(null);
+    setForm({ label: "", url: "", events: [] });
+    setHooks((prev) => [...prev, data as Webhook]);
+    setShownSecret((data as Webhook).id);
+    flash("Webhook added — copy its secret to verify signatures");
+  }
+
+  async function patchHook(h: Webhook, patch: Partial<Webhook>) {
+    if (patch.events && patch.events.length === 0) return setErr("A webhook needs at least one event — disable it instead");
+    const { data, error } = await supabase.from("webhooks").update(patch).eq("id", h.id).select("*").single();
+    if (error) return setErr(error.message);
+    setErr(null);
+    setHooks((prev) => prev.map((x) => (x.id === h.id ? (data as Webhook) : x)));
+  }
+
+  async function removeHook(h: Webhook) {
+    if (!confirm(`Delete “${h.label || h.url}”? Its delivery log goes with it.`)) return;
+    const { error } = await supabase.from("webhooks").delete().eq("id", h.id);
+    if (error) return setErr(error.message);
+    setErr(null);
+    setHooks((prev) => prev.filter((x) => x.id !== h.id));
+    if (hookFilter === h.id) setHookFilter("");
+    setLogKey((k) => k + 1);
+  }
+
+  async function sendTest(h: Webhook) {
+    setTesting(h.id);
+    try {
+      const res = await fetch(`/api/webhooks/${encodeURIComponent(h.id)}/test`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session?.access_token}` },
+      });
+      const body = (await res.json()) as WebhookTestResponse;
+      if ("error" in body) setErr(body.error);
+      else if (body.delivery.status === "delivered") {
+        setErr(null);
+        flash(`Test delivered (HTTP ${body.delivery.last_status})`);
+      } else setErr(`Test failed: ${body.delivery.last_error}`);
+    } catch (e: any) {
+      setErr(e?.message ?? "Network error");
+    }
+    setTesting(null);
+    setLogKey((k) => k + 1);
+  }
+
+  async function retry(d: LogRow) {
+    const { error } = await supabase
+      .from("webhook_deliveries")
+      .update({ status: "pending", attempts: 0, next_attempt_at: new Date().toISOString() })
+      .eq("id", d.id);
+    if (error) return setErr(error.message);
+    setErr(null);
+    flash("Queued — it goes out with the next delivery run");
+    setLogKey((k) => k + 1);
+  }
+
+  async function copySecret(h: Webhook) {
+    await navigator.clipboard.writeText(h.secret);
+    flash("Secret copied");
+  }
+
+  const pageStyle: React.CSSProperties = {
+    padding: 24,
+    fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+    background: colors.pageBg,
+    color: colors.text,
+    minHeight: "100vh",
+  };
+  const inputStyle: React.CSSProperties = {
+    padding: 8,
+    border: `1px solid ${colors.panelBorder}`,
+    borderRadius: 8,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const buttonStyle: React.CSSProperties = {
+    padding: "6px 10px",
+    borderRadius: 10,
+    border: `1px solid ${colors.btnGhostBorder}`,
+    background: colors.cardBg,
+    color: colors.text,
+  };
+  const chipStyle = (on: boolean): React.CSSProperties => ({
+    padding: "2px 8px",
+    borderRadius: 999,
+    fontSize: 12,
+    border: `1px solid ${on ? colors.text : colors.panelBorder}`,
+    background: on ? colors.softBg : "transparent",
+    color: on ? colors.text : colors.subtext,
+    cursor: "pointer",
+  });
+  const statusColor = (s: WebhookDeliveryStatus) =>
+    s === "delivered" ? colors.successText : s === "failed" ? colors.dangerText : colors.warnText;
+
+  if (authReady && !session) {
+    return (
+      <div style={pageStyle}>
+        <Link href={boardId ? boardPath(boardId) : "/"} style={{ color: colors.text }}>
+          Sign in on the board
+        </Link>{" "}
+        to manage webhooks.
+      </div>
+    );
+  }
+
+  return (
+    <div style={pageStyle}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+        <h1 style={{ fontSize: 28, fontWeight: 800, margin: 0 }}>
+          🔗 Webhooks{board ? <span style={{ fontSize: 16, color: colors.subtext }}> · {board.name}</span> : null}
+        </h1>
+        {boardId && (
+          <Link
+            href={boardPath(boardId)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.btnPrimaryBg,
+              color: colors.btnPrimaryText,
+              textDecoration: "none",
+            }}
+          >
+            ← Board
+          </Link>
+        )}
+      </div>
+
+      {err && (
+        <div style={{ background: colors.dangerBg, color: colors.dangerText, padding: 10, borderRadius: 8, marginTop: 12 }}>{err}</div>
+      )}
+      {notice && (
+        <div style={{ background: colors.successBg, color: colors.successText, padding: 10, borderRadius: 8, marginTop: 12 }}>
+          {notice}
+        </div>
+      )}
+
+      {me && !me.is_admin ? (
+        <div style={{ marginTop: 16, color: colors.subtext }}>Only admins can see and manage webhooks.</div>
+      ) : (
+        <>
+          <div style={{ marginTop: 16, fontSize: 13, color: colors.subtext, maxWidth: 760 }}>
+            Each event is POSTed as JSON to every webhook subscribed to it. Requests carry {WEBHOOK_HEADERS.event},{" "}
+            {WEBHOOK_HEADERS.id} (the same on retries), {WEBHOOK_HEADERS.timestamp} and {WEBHOOK_HEADERS.signature}:{" "}
+            <code>sha256=</code> plus the hex HMAC-SHA256 of <code>timestamp.body</code>, keyed with the webhook secret.
+            Anything but a 2xx is retried with backoff.
+          </div>
+
+          {hooks.map((h) => (
+            <div
+              key={h.id}
+              style={{
+                marginTop: 12,
+                padding: 12,
+                borderRadius: 12,
+                border: `1px solid ${colors.panelBorder}`,
+                background: colors.cardBg,
+                opacity: h.active ? 1 : 0.6,
+              }}
+            >
+              <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                <div style={{ flex: 1, minWidth: 220 }}>
+                  <div style={{ fontWeight: 700 }}>{h.label || "Untitled"}</div>
+                  <div style={{ fontSize: 13, color: colors.subtext, wordBreak: "break-all" }}>{h.url}</div>
+                </div>
+                <label style={{ fontSize: 13 }}>
+                  <input type="checkbox" checked={h.active} onChange={(e) => patchHook(h, { active: e.target.checked })} /> Active
+                </label>
+                <button onClick={() => sendTest(h)} disabled={testing === h.id} style={buttonStyle}>
+                  {testing === h.id ? "Sending…" : "Send test"}
+                </button>
+                <button onClick={() => removeHook(h)} style={{ ...buttonStyle, color: colors.dangerText }}>
+                  Delete
+                </button>
+              </div>
+              <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 8 }}>
+                {WEBHOOK_EVENTS.map((ev) => {
+                  const on = h.events.includes(ev.id);
+                  return (
+                    <span
+                      key={ev.id}
+                      title={ev.id}
+                      onClick={() => patchHook(h, { events: on ? h.events.filter((x) => x !== ev.id) : [...h.events, ev.id] })}
+                      style={chipStyle(on)}
+                    >
+                      {ev.label}
+                    </span>
+                  );
+                })}
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 8, fontSize: 12, color: colors.subtext }}>
+                Secret:{" "}
+                <code style={{ color: colors.text }}>{shownSecret === h.id ? h.secret : "•".repeat(16)}</code>
+                <button
+                  onClick={() => setShownSecret(shownSecret === h.id ? null : h.id)}
+                  style={{ ...buttonStyle, padding: "2px 8px", fontSize: 12 }}
+                >
+                  {shownSecret === h.id ? "Hide" : "Show"}
+                </button>
+                <button onClick={() => copySecret(h)} style={{ ...buttonStyle, padding: "2px 8px", fontSize: 12 }}>
+                  Copy
+                </button>
+                <span>· added by {h.created_by_name ?? "someone"}</span>
+              </div>
+            </div>
+          ))}
+
+          <div
+            style={{
+              marginTop: 12,
+              padding: 12,
+              borderRadius: 12,
+              border: `1px dashed ${colors.panelBorder}`,
+              background: colors.cardBg,
+            }}
+          >
+            <div style={{ fontWeight: 700 }}>New webhook</div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 8 }}>
+              <input
+                value={form.label}
+                onChange={(e) => setForm((f) => ({ ...f, label: e.target.value }))}
+                placeholder="Label, e.g. Ops chat"
+                style={{ ...inputStyle, width: 200 }}
+              />
+              <input
+                value={form.url}
+                onChange={(e) => setForm((f) => ({ ...f, url: e.target.value }))}
+                placeholder="https://example.com/hooks/reserves"
+                style={{ ...inputStyle, flex: 1, minWidth: 260 }}
+              />
+            </div>
+            <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 8 }}>
+              {WEBHOOK_EVENTS.map((ev) => {
+                const on = form.events.includes(ev.id);
+                return (
+                  <span
+                    key={ev.id}
+                    title={ev.id}
+                    onClick={() =>
+                      setForm((f) => ({ ...f, events: on ? f.events.filter((x) => x !== ev.id) : [...f.events, ev.id] }))
+                    }
+                    style={chipStyle(on)}
+                  >
+                    {ev.label}
+                  </span>
+                );
+              })}
+            </div>
+            <button
+              onClick={createHook}
+              style={{ ...buttonStyle, marginTop: 10, background: colors.btnPrimaryBg, color: colors.btnPrimaryText }}
+            >
+              Add webhook
+            </button>
+          </div>
+
+          <div style={{ display: "flex", alignItems: "center", gap: 8, flexWrap: "wrap", marginTop: 24 }}>
+            <h2 style={{ fontSize: 16, margin: 0, flex: 1 }}>Delivery log</h2>
+            <select value={hookFilter} onChange={(e) => setHookFilter(e.target.value)} style={inputStyle}>
+              <option value="">All webhooks</option>
+              {hooks.map((h) => (
+                <option key={h.id} value={h.id}>
+                  {h.label || h.url}
+                </option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as WebhookDeliveryStatus | "")}
+              style={inputStyle}
+            >
+              <option value="">Any status</option>
+              <option value="pending">Pending</option>
+              <option value="delivered">Delivered</option>
+              <option value="failed">Failed</option>
+            </select>
+            <button onClick={() => setLogKey((k) => k + 1)} style={buttonStyle}>
+              Refresh
+            </button>
+          </div>
+          <div style={{ marginTop: 6, border: `1px solid ${colors.panelBorder}`, borderRadius: 12, overflow: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+              <thead>
+                <tr style={{ background: colors.headerBg, textAlign: "left" }}>
+                  {["Queued", "Webhook", "Event", "Status", "Attempts", "Last result", ""].map((h) => (
+                    <th key={h} style={{ padding: 8, fontWeight: 600 }}>
+                      {h}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {log.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} style={{ padding: 12, color: colors.subtext }}>
+                      Nothing sent yet.
+                    </td>
+                  </tr>
+                ) : (
+                  log.map((d) => (
+                    <React.Fragment key={d.id}>
+                      <tr
+                        onClick={() => setExpanded(expanded === d.id ? null : d.id)}
+                        style={{ borderTop: `1px solid ${colors.panelBorder}`, cursor: "pointer" }}
+                      >
+                        <td style={{ padding: 8, whiteSpace: "nowrap" }}>{new Date(d.created_at).toLocaleString()}</td>
+                        <td style={{ padding: 8 }}>{d.webhooks.label || d.webhooks.url}</td>
+                        <td style={{ padding: 8 }} title={d.event}>
+                          {webhookEventLabel(d.event)}
+                        </td>
+                        <td style={{ padding: 8, fontWeight: 600, color: statusColor(d.status) }}>
+                          {d.status}
+                          {d.status === "pending" && d.attempts > 0 ? (
+                            <span style={{ fontWeight: 400, fontSize: 12, color: colors.subtext }}>
+                              {" "}
+                              · next {new Date(d.next_attempt_at).toLocaleTimeString()}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td style={{ padding: 8 }}>{d.attempts}</td>
+                        <td style={{ padding: 8, color: d.last_error ? colors.dangerText : colors.subtext, maxWidth: 320 }}>
+                          {d.last_error ?? (d.last_status ? `HTTP ${d.last_status}` : "—")}
+                        </td>
+                        <td style={{ padding: 8 }}>
+                          {d.status === "failed" && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                retry(d);
+                              }}
+                              style={{ ...buttonStyle, padding: "2px 8px" }}
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                      {expanded === d.id && (
+                        <tr>
+                          <td colSpan={7} style={{ padding: "0 8px 8px" }}>
+                            <pre
+                              style={{
+                                margin: 0,
+                                padding: 10,
+                                borderRadius: 8,
+                                background: colors.softBg,
+                                fontSize: 12,
+                                overflow: "auto",
+                                maxHeight: 320,
+                              }}
+                            >
+                              {JSON.stringify(d.payload, null, 2)}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/router";
+import { applyBoardView, defaultBoardView } from "../lib/boardView";
+import { fmtAvailability } from "../lib/availability";
+import {
+  DISPLAY_PAGE_SECONDS,
+  DISPLAY_REFRESH_MS,
+  pageOf,
+  rowsPerPage,
+  type DisplaySession,
+  type DisplaySessionResponse,
+} from "../lib/display";
+import { driverStatus, STATUS_LABELS, statusBadgeColors } from "../lib/driverStatus";
+import { isReserveActive } from "../lib/reserves";
+import { supabaseForDisplay } from "../lib/supabase";
+import { paletteFor } from "../lib/theme";
+import type { Driver } from "../lib/types";
+
+const ROW_PX = 76;
+/** Page header + table header + footer */
+const CHROME_PX = 220;
+
+function fmtTimeLeft(msLeft: number) {
+  if (msLeft <= 0) return "0:00";
+  const s = Math.floor(msLeft / 1000);
+  const m = Math.floor(s / 60);
+  return `${m}:${(s % 60).toString().padStart(2, "0")}`;
+}
+
+/** Read-only wall view of one board, opened with a share link (`/display?token=…`) */
+export default function WallDisplay() {
+  const router = useRouter();
+  const token = typeof router.query.token === "string" ? router.query.token : null;
+
+  const [session, setSession] = useState<DisplaySession | null>(null);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [err, setErr] = useState<string | null>(null);
+  const [live, setLive] = useState(false);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(8);
+  const [now, setNow] = useState(() => Date.now());
+
+  const colors = paletteFor("dark");
+
+  // trade the share token for a read-only JWT, and again before it runs out (or the link is revoked)
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token) {
+      setErr("This display link is missing its token");
+      return;
+    }
+    let cancelled = false;
+    async function openSession() {
+      try {
+        const res = await fetch("/api/display/session", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token }),
+        });
+        const body = (await res.json()) as DisplaySessionResponse;
+        if (cancelled) return;
+        if ("error" in body) {
+          setErr(body.error);
+          // a revoked link takes the board off the screen; other failures keep the last view
+          if (res.status === 404) {
+            setSession(null);
+            setDrivers([]);
+          }
+          return;
+        }
+        setErr(null);
+        setSession(body);
+      } catch (e: any) {
+        if (!cancelled) setErr(e?.message ?? "Network error");
+      }
+    }
+    openSession();
+    const t = setInterval(openSession, DISPLAY_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(t);
+    };
+  }, [router.isReady, token]);
+
+  // one client per board for the life of the page; a refreshed JWT is handed to it below
+  const displayDb = useRef<ReturnType<typeof supabaseForDisplay> | null>(null);
+
+  // realtime, plus a full load each time the channel (re)joins
+  useEffect(() => {
+    if (!session) return;
+    const display = supabaseForDisplay(session.access_token);
+    displayDb.current = display;
+    const db = display.client;
+    const boardId = session.board.id;
+    let cancelled = false;
+
+    function load() {
+      db.from("drivers")
+        .select("*")
+        .eq("board_id", boardId)
+        .is("archived_at", null)
+        .then(({ data, error }) => {
+          if (cancelled) return;
+          if (error) setErr(error.message);
+          else setDrivers((data as Driver[]) ?? []);
+        });
+    }
+
+    const ch = db
+      .channel(`display:${boardId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "drivers", filter: `board_id=eq.${boardId}` },
+        (payload) => {
+          setDrivers((prev) => {
+            const next = [...prev];
+            const id = payload.eventType === "DELETE" ? (payload.old as any)?.id : (payload.new as Driver).id;
+            const idx = next.findIndex((d) => d.id === id);
+            if (payload.eventType === "DELETE" || (payload.new as Driver).archived_at) {
+              if (idx !== -1) next.splice(idx, 1);
+              return next;
+            }
+            if (idx !== -1) next[idx] = payload.new as Driver;
+            else next.push(payload.new as Driver);
+            return next;
+          });
+        }
+      )
+      .subscribe((status) => {
+        setLive(status === "SUBSCRIBED");
+        if (status === "SUBSCRIBED") load();
+      });
+
+    return () => {
+      cancelled = true;
+      displayDb.current = null;
+      db.removeChannel(ch);
+      db.realtime.disconnect();
+    };
+  }, [session?.board.id]);
+
+  useEffect(() => {
+    if (session) displayDb.current?.setToken(session.access_token);
+  }, [session?.access_token]);
+
+  // countdowns
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  // as many rows as the screen fits
+  useEffect(() => {
+    const fit = () => setPageSize(rowsPerPage(window.innerHeight, ROW_PX, CHROME_PX));
+    fit();
+    window.addEventListener("resize", fit);
+    return () => window.removeEventListener("resize", fit);
+  }, []);
+
+  useEffect(() => {
+    const t = setInterval(() => setPage((p) => p + 1), DISPLAY_PAGE_SECONDS * 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  const ordered = useMemo(() => applyBoardView(drivers, defaultBoardView).flatMap((g) => g.drivers), [drivers]);
+  const shown = pageOf(ordered, pageSize, page);
+  const held = drivers.filter((d) => isReserveActive(d, now)).length;
+
+  const cell: React.CSSProperties = { padding: "0 20px", height: ROW_PX, verticalAlign: "middle" };
+
+  return (
+    <div
+      style={{
+        height: "100vh",
+        overflow: "hidden",
+        padding: "24px 32px",
+        boxSizing: "border-box",
+        fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+        background: colors.pageBg,
+        color: colors.text,
+        cursor: "none",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", gap: 24 }}>
+        <h1 style={{ fontSize: 44, fontWeight: 800, margin: 0 }}>{session?.board.name ?? "Driver board"}</h1>
+        <div style={{ fontSize: 28, color: colors.subtext }}>
+          {drivers.length} drivers · {held} on hold ·{" "}
+          {new Date(now).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+        </div>
+      </div>
+
+      {err && (
+        <div style={{ background: colors.dangerBg, color: colors.dangerText, padding: 16, borderRadius: 12, marginTop: 16, fontSize: 26 }}>
+          {err}
+        </div>
+      )}
+
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 20, fontSize: 30 }}>
+        <thead>
+          <tr style={{ background: colors.headerBg, textAlign: "left", fontSize: 22, color: colors.subtext }}>
+            <th style={{ ...cell, height: 56 }}>Unit</th>
+            <th style={{ ...cell, height: 56 }}>Driver</th>
+            <th style={{ ...cell, height: 56 }}>Status</th>
+            <th style={{ ...cell, height: 56 }}>Location</th>
+            <th style={{ ...cell, height: 56 }}>Available</th>
+            <th style={{ ...cell, height: 56 }}>Reserve</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.rows.map((d) => {
+            const status = driverStatus(d);
+            const badge = statusBadgeColors(status, colors);
+            const msLeft = d.reserve_until ? new Date(d.reserve_until).getTime() - now : 0;
+            return (
+              <tr key={d.id} style={{ borderTop: `1px solid ${colors.panelBorder}` }}>
+                <td style={{ ...cell, fontWeight: 700 }}>{d.unit_no ?? "—"}</td>
+                <td style={cell}>{d.name}</td>
+                <td style={cell}>
+                  <span style={{ padding: "4px 14px", borderRadius: 999, background: badge.bg, color: badge.text, fontSize: 24 }}>
+                    {STATUS_LABELS[status]}
+                  </span>
+                </td>
+                <td style={cell}>{d.location ?? "—"}</td>
+                <td style={cell}>{d.available_at ? fmtAvailability(d.available_at, d.available_tz) : d.available_time || "now"}</td>
+                <td style={cell}>
+                  {msLeft > 0 ? (
+                    <span style={{ color: msLeft < 5 * 60_000 ? colors.warnText : colors.dangerText, fontWeight: 700 }}>
+                      ⏳ {fmtTimeLeft(msLeft)}
+                      <span style={{ fontSize: 22, fontWeight: 400, color: colors.subtext }}> {d.reserved_by_name ?? ""}</span>
+                    </span>
+                  ) : (
+                    <span style={{ color: colors.successText }}>Free</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+          {session && ordered.length === 0 && (
+            <tr>
+              <td colSpan={6} style={{ ...cell, color: colors.subtext }}>
+                No drivers on this board.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div style={{ position: "fixed", left: 32, right: 32, bottom: 20, display: "flex", justifyContent: "space-between", fontSize: 20, color: colors.subtext }}>
+        <span>{live ? "● Live" : "○ Reconnecting…"}</span>
+        {shown.pages > 1 && (
+          <span>
+            Page {shown.page + 1} / {shown.pages}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,115 @@
-import React, { useEffect, useMemo, useState } from "react";
-import { createClient } from "@supabase/supabase-js";
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
-const supabaseAnon = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string;
-const supabase = createClient(supabaseUrl, supabaseAnon);
-
-/** DB types */
-type Driver = {
-  id: string;
-  unit_no?: string | null;           // 👈 новый столбец
-  name: string;
-  location: string | null;
-  available_time: string | null;     // plain text
-  reserve_until: string | null;      // ISO
-  reserve_started_at?: string | null;
-  reserve_note?: string | null;
-  created_at?: string;
-};
-
-type DriverNote = {
-  id: string;
-  driver_id: string;
-  body: string;
-  created_at: string;
-};
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import Head from "next/head";
+import { useRouter } from "next/router";
+import type { RealtimeChannel, Session } from "@supabase/supabase-js";
+import BoardsModal from "../components/BoardsModal";
+import BoardToolbar from "../components/BoardToolbar";
+import CommandPalette from "../components/CommandPalette";
+import CopyTemplateEditor from "../components/CopyTemplateEditor";
+import DisplayLinksModal from "../components/DisplayLinksModal";
+import DriverNotes from "../components/DriverNotes";
+import EditableCell from "../components/EditableCell";
+import ImportRosterModal from "../components/ImportRosterModal";
+import MatchLoadPanel from "../components/MatchLoadPanel";
+import NoteSearchModal from "../components/NoteSearchModal";
+import PresenceAvatars from "../components/PresenceAvatars";
+import ReservePolicyModal from "../components/ReservePolicyModal";
+import {
+  defaultAlertSettings,
+  loadAlertSettings,
+  parseThresholds,
+  saveAlertSettings,
+  useExpiryAlerts,
+  useHandOffAlerts,
+  type AlertSettings,
+} from "../lib/alerts";
+import {
+  applyBoardView,
+  defaultBoardView,
+  isViewFiltered,
+  loadBoardView,
+  saveBoardView,
+  type BoardView,
+  type SortKey,
+} from "../lib/boardView";
+import { availabilityPatch, browserTimeZone, fmtAvailability, parseAvailability } from "../lib/availability";
+import { boardPath, loadLastBoardId, pickBoard, saveLastBoardId } from "../lib/boards";
+import type { PaletteCommand } from "../lib/commands";
+import {
+  canTransition,
+  driverStatus,
+  STATUS_TRANSITIONS,
+  statusBadgeColors,
+  statusBlocksReserve,
+} from "../lib/driverStatus";
+import {
+  BUILTIN_TEMPLATES,
+  loadSelectedTemplateId,
+  loadTemplates,
+  renderUpdate,
+  saveSelectedTemplateId,
+  saveTemplates,
+  type CopyTemplate,
+} from "../lib/copyUpdate";
+import {
+  errorText,
+  fmtClock,
+  fmtDateTime,
+  fmtDuration,
+  guessLang,
+  LANGS,
+  loadLang,
+  loadTimeZone,
+  makeTranslator,
+  problemText,
+  saveLang,
+  saveTimeZone,
+  TIME_ZONES,
+  type Lang,
+  type MessageKey,
+  type Translator,
+} from "../lib/i18n";
+import { useNarrowScreen } from "../lib/layout";
+import { resolveLocation, suggestLocations } from "../lib/locationApi";
+import { locationPatch } from "../lib/locations";
+import { applyNoteChange } from "../lib/notes";
+import {
+  clearOfflineData,
+  isNetworkError,
+  loadQueue,
+  loadSnapshot,
+  newOp,
+  offlineKeys,
+  registerServiceWorker,
+  saveQueue,
+  saveSnapshot,
+  useOnline,
+  type OfflineFailure,
+  type OfflineOp,
+} from "../lib/offline";
+import { peersFromState, presenceMeta, type Peer, type PresenceMeta } from "../lib/presence";
+import { postReserve } from "../lib/reserveApi";
+import {
+  defaultReservePolicy,
+  checkReservePolicy,
+  EXTEND_PRESETS,
+  loadReservePolicy,
+  type ReservePolicy,
+} from "../lib/reservePolicy";
+import {
+  canManageReserve,
+  isReserveActive,
+  parseUntil,
+  type ReserveAction,
+  type ReserveRequest,
+  type ReserveResponse,
+} from "../lib/reserves";
+import { emptyDriverInput, friendlyDbError, normalizeUnit, validateDriverInput, type DriverInput } from "../lib/roster";
+import { exportBoardCsv } from "../lib/rosterCsv";
+import { supabase } from "../lib/supabase";
+import { modalStyle, overlayStyle, paletteFor, type Theme } from "../lib/theme";
+import type { Board, Dispatcher, Driver, DriverNote, DriverStatus, ReserveEvent, WaitlistEntry } from "../lib/types";
+import { applyWaitlistChange, queueFor, queuePosition } from "../lib/waitlist";
 
 /** Helpers */
 function fmtTimeLeft(msLeft: number) {
@@ -34,7 +120,34 @@ function fmtTimeLeft(msLeft: number) {
   return `${m}:${ss.toString().padStart(2, "0")}`;
 }
 
-type Theme = "light" | "dark";
+function fmtAgo(iso: string | null | undefined, { t, lang }: Translator, tz: string) {
+  if (!iso) return "";
+  const s = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000));
+  if (s < 60) return t("ago.seconds", { n: s });
+  if (s < 3600) return t("ago.minutes", { n: Math.round(s / 60) });
+  return fmtDateTime(iso, lang, tz);
+}
+
+type EditField = "name" | "unit_no" | "location" | "available_time" | "status"; // 👈 добавили unit_no
+
+/** An inline edit that lost the race: `latest` is the row as someone else left it */
+type EditConflict = { latest: Driver; field: EditField; mine: string; patch: Partial<Driver> };
+
+
+function describeEvent(ev: ReserveEvent, tr: Translator) {
+  const params = { who: ev.actor_name ?? tr.t("common.system"), minutes: ev.minutes ?? "?" };
+  const after = ev.held_seconds != null ? tr.t("event.after", { duration: fmtDuration(ev.held_seconds, tr) }) : "";
+  switch (ev.kind) {
+    case "started":
+    case "extended":
+    case "shortened":
+    case "handed_off":
+      return tr.t(`event.${ev.kind}`, params);
+    case "released":
+    case "expired":
+      return tr.t(`event.${ev.kind}`, params) + after;
+  }
+}
 
 export default function DriverReserves() {
   const [drivers, setDrivers] = useState<Driver[]>([]);
@@ -43,6 +156,162 @@ export default function DriverReserves() {
   const [, setTick] = useState(0);
   const now = new Date();
 
+  // Language and time zone (per browser, stored like the theme)
+  const [lang, setLang] = useState<Lang>("en");
+  const [timeZone, setTimeZone] = useState("");
+  useEffect(() => {
+    setLang(loadLang() ?? guessLang());
+    setTimeZone(loadTimeZone());
+  }, []);
+  const tr = useMemo(() => makeTranslator(lang), [lang]);
+  const { t, tn } = tr;
+  /** Zone typed times are read in, and availability is shown in */
+  const zone = timeZone || browserTimeZone();
+  const fmtTime = (iso: string | Date) => fmtDateTime(iso, lang, timeZone);
+  const fieldLabel = (f: EditField) => t(`field.${f}` as MessageKey);
+  const statusLabel = (s: DriverStatus) => t(`status.${s}` as MessageKey);
+  /** Why this driver can't be reserved (duty status), or null */
+  const reserveBlocked = (d: Driver) => {
+    const problem = statusBlocksReserve(d);
+    return problem && problemText(problem, tr);
+  };
+
+  function changeLang(next: Lang) {
+    setLang(next);
+    saveLang(next);
+  }
+
+  function changeTimeZone(next: string) {
+    setTimeZone(next);
+    saveTimeZone(next);
+  }
+
+  // Auth
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  const [me, setMe] = useState<Dispatcher | null>(null);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setAuthReady(true);
+    });
+    const { data: sub } = supabase.auth.onAuthStateChange((_event, s) => setSession(s));
+    return () => sub.subscription.unsubscribe();
+  }, []);
+
+  /* dispatcher profile for the signed-in user */
+  useEffect(() => {
+    if (!session) {
+      setMe(null);
+      return;
+    }
+    (async () => {
+      const { data, error } = await supabase
+        .from("dispatchers")
+        .select("*")
+        .eq("id", session.user.id)
+        .maybeSingle();
+      if (error) {
+        const cached = isNetworkError(error) ? loadSnapshot<Dispatcher>(offlineKeys.me(session.user.id)) : null;
+        if (cached) setMe(cached.value);
+        else setErr(error.message);
+        return;
+      }
+      if (data) {
+        setMe(data as Dispatcher);
+        saveSnapshot(offlineKeys.me(session.user.id), data);
+        return;
+      }
+      const fallback =
+        (session.user.user_metadata?.display_name as string | undefined) ||
+        session.user.email?.split("@")[0] ||
+        "Dispatcher";
+      const { data: created, error: insErr } = await supabase
+        .from("dispatchers")
+        .insert({ id: session.user.id, display_name: fallback })
+        .select("*")
+        .single();
+      if (insErr) setErr(insErr.message);
+      else setMe(created as Dispatcher);
+    })();
+  }, [session]);
+
+  // Boards: `/boards/[boardId]` renders this page for one board; `/` opens the last one used
+  const router = useRouter();
+  const routeBoardId = typeof router.query.boardId === "string" ? router.query.boardId : null;
+  const [boards, setBoards] = useState<Board[] | null>(null);
+  const [boardsOpen, setBoardsOpen] = useState(false);
+  const [displayLinksOpen, setDisplayLinksOpen] = useState(false);
+  const boardId = boards?.some((b) => b.id === routeBoardId) ? routeBoardId : null;
+  const currentBoard = boards?.find((b) => b.id === boardId) ?? null;
+
+  async function loadBoards() {
+    const { data, error } = await supabase.from("boards").select("*").order("name", { ascending: true });
+    const cached = error && isNetworkError(error) && me ? loadSnapshot<Board[]>(offlineKeys.boards(me.id)) : null;
+    if (cached) {
+      setBoards(cached.value);
+      return;
+    }
+    if (error) setErr(error.message);
+    else if (me) saveSnapshot(offlineKeys.boards(me.id), data);
+    setBoards((data as Board[]) ?? []);
+  }
+
+  useEffect(() => {
+    if (!me) {
+      setBoards(null);
+      return;
+    }
+    loadBoards();
+  }, [me?.id]);
+
+  useEffect(() => {
+    if (!me || !boards || !router.isReady) return;
+    if (boardId) {
+      saveLastBoardId(me.id, boardId);
+      return;
+    }
+    if (routeBoardId) setErr(t("boards.notFound"));
+    const next = pickBoard(boards, loadLastBoardId(me.id));
+    if (next) router.replace(boardPath(next.id));
+  }, [me?.id, boards, boardId, routeBoardId, router.isReady]);
+
+  async function signIn() {
+    if (!email.trim() || !password) return;
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (error) setErr(error.message);
+    else {
+      setErr(null);
+      setPassword("");
+    }
+  }
+
+  async function signUp() {
+    if (!email.trim() || !password) return;
+    const { error } = await supabase.auth.signUp({
+      email: email.trim(),
+      password,
+      options: { data: { display_name: displayName.trim() || undefined } },
+    });
+    if (error) setErr(error.message);
+    else {
+      setErr(null);
+      showToast(t("auth.confirmEmail"));
+    }
+  }
+
+  async function signOut() {
+    if (offlineQueue.length && !confirm(tn("offline.discardOnSignOut", offlineQueue.length))) return;
+    // the cached roster, profile and queue must not outlive the session on a shared computer
+    clearOfflineData();
+    setOfflineQueue([]);
+    setOfflineFailures([]);
+    await supabase.auth.signOut();
+  }
+
   // Theme
   const [theme, setTheme] = useState<Theme>("light");
   useEffect(() => {
@@ -56,37 +325,132 @@ export default function DriverReserves() {
     localStorage.setItem("driver_theme", theme);
   }, [theme]);
 
-  const colors = useMemo(() => {
-    const isDark = theme === "dark";
-    return {
-      pageBg: isDark ? "#0f172a" : "#ffffff",
-      text: isDark ? "#e5e7eb" : "#111827",
-      subtext: isDark ? "#94a3b8" : "#6b7280",
-      panelBorder: isDark ? "#233145" : "#e5e7eb",
-      headerBg: isDark ? "#111827" : "#f3f4f6",
-      dangerBg: isDark ? "#3f1d1d" : "#fee2e2",
-      dangerText: isDark ? "#fecaca" : "#991b1b",
-      successBg: isDark ? "#06312a" : "#ecfdf5",
-      successText: isDark ? "#34d399" : "#065f46",
-      cardBg: isDark ? "#0b1220" : "#ffffff",
-      softBg: isDark ? "#0b1220" : "#f9fafb",
-      btnPrimaryBg: isDark ? "#1f2937" : "#111827",
-      btnPrimaryText: "#ffffff",
-      btnGhostBorder: isDark ? "#374151" : "#e5e7eb",
-    };
-  }, [theme]);
+  const colors = useMemo(() => paletteFor(theme), [theme]);
+  const narrow = useNarrowScreen();
+  const pillButtonStyle: React.CSSProperties = {
+    padding: "0 6px",
+    fontSize: 11,
+    borderRadius: 999,
+    border: "1px solid currentColor",
+    background: "transparent",
+    color: "inherit",
+    cursor: "pointer",
+  };
 
   // Reserve modal
   const [reserveOpen, setReserveOpen] = useState(false);
   const [reserveDriver, setReserveDriver] = useState<Driver | null>(null);
   const [reserveMinutes, setReserveMinutes] = useState<string>("15");
   const [reserveNote, setReserveNote] = useState<string>("");
+  const [reserveUntilText, setReserveUntilText] = useState("");
+  const [reserveProblem, setReserveProblem] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<ReservePolicy>(defaultReservePolicy);
+  const [policyOpen, setPolicyOpen] = useState(false);
+  // dispatchers queued for held drivers; first in line gets the hold when it ends
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+
+  // Roster
+  const [showArchived, setShowArchived] = useState(false);
+  const [addOpen, setAddOpen] = useState(false);
+  const [addForm, setAddForm] = useState<DriverInput>(emptyDriverInput);
+  const [matchOpen, setMatchOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Copy Update templates
+  const [templates, setTemplates] = useState<CopyTemplate[]>(BUILTIN_TEMPLATES);
+  const [templateId, setTemplateId] = useState("group");
+  const [editingTemplate, setEditingTemplate] = useState<CopyTemplate | null>(null);
+  useEffect(() => {
+    setTemplates(loadTemplates());
+    setTemplateId(loadSelectedTemplateId());
+  }, []);
+  const currentTemplate = templates.find((t) => t.id === templateId) ?? BUILTIN_TEMPLATES[0];
+
+  function chooseTemplate(id: string) {
+    setTemplateId(id);
+    saveSelectedTemplateId(id);
+  }
+
+  function saveTemplate(t: CopyTemplate) {
+    const saved = t.id ? t : { ...t, id: `t${Date.now().toString(36)}` };
+    const next = templates.some((x) => x.id === saved.id)
+      ? templates.map((x) => (x.id === saved.id ? saved : x))
+      : [...templates, saved];
+    setTemplates(next);
+    saveTemplates(next);
+    chooseTemplate(saved.id);
+    setEditingTemplate(null);
+  }
+
+  function deleteTemplate(id: string) {
+    const next = templates.filter((t) => t.id !== id);
+    setTemplates(next);
+    saveTemplates(next);
+    chooseTemplate("group");
+    setEditingTemplate(null);
+  }
+  const activeDrivers = useMemo(() => drivers.filter((d) => !d.archived_at), [drivers]);
+  const archivedCount = drivers.length - activeDrivers.length;
+  const boardDrivers = showArchived ? drivers : activeDrivers;
+
+  // Search / filter / sort / group (per dispatcher, stored locally like the theme)
+  const [boardView, setBoardView] = useState<BoardView>(defaultBoardView);
+  useEffect(() => {
+    if (me) setBoardView(loadBoardView(me.id));
+  }, [me]);
+  function changeBoardView(next: BoardView) {
+    setBoardView(next);
+    if (me) saveBoardView(me.id, next);
+  }
+  function toggleSort(key: SortKey) {
+    const sortDir = boardView.sortKey === key && boardView.sortDir === "asc" ? "desc" : "asc";
+    changeBoardView({ ...boardView, sortKey: key, sortDir });
+  }
+  const viewGroups = applyBoardView(boardDrivers, boardView, Date.now(), zone);
+  const shownCount = viewGroups.reduce((n, g) => n + g.drivers.length, 0);
+  const boardStates = useMemo(
+    () => Array.from(new Set(drivers.map((d) => d.location_state).filter(Boolean) as string[])).sort(),
+    [drivers]
+  );
+  const [availDrafts, setAvailDrafts] = useState<Record<string, string>>({});
+  const [locErrors, setLocErrors] = useState<Record<string, string>>({});
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  /** Set when a save opens the conflict dialog, so offline replay does not also count it as failed */
+  const conflictRaised = useRef(false);
+  const [locSuggestions, setLocSuggestions] = useState<string[]>([]);
+  const suggestTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  function queueLocationSuggest(text: string) {
+    if (suggestTimer.current) clearTimeout(suggestTimer.current);
+    suggestTimer.current = setTimeout(async () => setLocSuggestions(await suggestLocations(text)), 200);
+  }
+
+  /** Hint under the Available input: what we understood, or a warning */
+  function availabilityHint(d: Driver): { text: string; bad: boolean } | null {
+    const draft = availDrafts[d.id];
+    if (draft !== undefined) {
+      const parsed = parseAvailability(draft, Date.now(), zone);
+      if (!parsed) return { text: t("hint.unreadable"), bad: true };
+      return {
+        text: parsed === "now" ? t("hint.now") : `→ ${fmtAvailability(parsed.at.toISOString(), timeZone || parsed.tz, lang)}`,
+        bad: false,
+      };
+    }
+    if (d.available_at) return { text: fmtAvailability(d.available_at, timeZone || d.available_tz, lang), bad: false };
+    if (d.available_unparsed) {
+      return { text: t("hint.unrecognized"), bad: true };
+    }
+    return null;
+  }
 
   // Profile (notes) modal
   const [profileOpen, setProfileOpen] = useState(false);
   const [profileDriver, setProfileDriver] = useState<Driver | null>(null);
-  const [notes, setNotes] = useState<DriverNote[]>([]);
-  const [newNote, setNewNote] = useState("");
+  const [events, setEvents] = useState<ReserveEvent[]>([]);
+  const [noteSearchOpen, setNoteSearchOpen] = useState(false);
+  // pinned notes are shown under the driver's name on the board
+  const [pinnedNotes, setPinnedNotes] = useState<DriverNote[]>([]);
+  const pinnedFor = (driverId: string) => pinnedNotes.filter((n) => n.driver_id === driverId);
 
   // UI toasts
   const [toast, setToast] = useState<string | null>(null);
@@ -95,33 +459,149 @@ export default function DriverReserves() {
     setTimeout(() => setToast(null), 1800);
   }
 
+  // Expiry alerts (per dispatcher, stored locally like the theme)
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(defaultAlertSettings);
+  const [alertsOpen, setAlertsOpen] = useState(false);
+  const [thresholdText, setThresholdText] = useState("");
+  const [notifPermission, setNotifPermission] = useState<string>("default");
+  useEffect(() => {
+    if (!me) return;
+    setAlertSettings(loadAlertSettings(me.id));
+    if (typeof Notification !== "undefined") setNotifPermission(Notification.permission);
+  }, [me]);
+  useExpiryAlerts(activeDrivers, me, alertSettings, showToast, tr);
+  const myQueuedIds = waitlist.filter((e) => e.dispatcher_id === me?.id).map((e) => e.driver_id);
+  const forgetHandOff = useHandOffAlerts(activeDrivers, myQueuedIds, me, alertSettings, showToast, tr);
+  const warnMs = Math.max(...alertSettings.thresholds, 5) * 60_000;
+
+  function openAlertSettings() {
+    setThresholdText(alertSettings.thresholds.join(", "));
+    setAlertsOpen(true);
+  }
+
+  function saveAlerts() {
+    if (!me) return;
+    const next = { ...alertSettings, thresholds: parseThresholds(thresholdText) };
+    setAlertSettings(next);
+    saveAlertSettings(me.id, next);
+    setAlertsOpen(false);
+  }
+
+  async function enableNotifications() {
+    if (typeof Notification === "undefined") {
+      setErr(t("err.noNotifications"));
+      return;
+    }
+    setNotifPermission(await Notification.requestPermission());
+  }
+
   /* ticking */
   useEffect(() => {
     const id = setInterval(() => setTick((t) => (t + 1) % 100000), 1000);
     return () => clearInterval(id);
   }, []);
 
+  /* offline: last-known roster, queued edits replayed on reconnect */
+  const online = useOnline();
+  const [reloadKey, setReloadKey] = useState(0);
+  // set while the roster on screen may be out of date (offline); the time it was last known good
+  const [staleSince, setStaleSince] = useState<string | null>(null);
+  const [offlineQueue, setOfflineQueue] = useState<OfflineOp<EditField>[]>([]);
+  const [offlineFailures, setOfflineFailures] = useState<OfflineFailure<EditField>[]>([]);
+  const [replaying, setReplaying] = useState(false);
+
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  useEffect(() => {
+    setOfflineQueue(me ? loadQueue<EditField>(me.id) : []);
+  }, [me?.id]);
+
+  useEffect(() => {
+    if (!online) setStaleSince((prev) => prev ?? new Date().toISOString());
+    else if (staleSince) setReloadKey((k) => k + 1);
+  }, [online]);
+
+  function updateOfflineQueue(fn: (q: OfflineOp<EditField>[]) => OfflineOp<EditField>[]) {
+    setOfflineQueue((prev) => {
+      const next = fn(prev);
+      if (me) saveQueue(me.id, next);
+      return next;
+    });
+  }
+
+  function queueOffline(op: Omit<OfflineOp<EditField>, "id" | "queuedAt" | "boardId">) {
+    if (!boardId) return;
+    updateOfflineQueue((q) => [...q, newOp<EditField>({ ...op, boardId })]);
+  }
+
   /* initial load */
   useEffect(() => {
+    if (!session || !boardId) return;
     (async () => {
       setLoading(true);
-      const { data, error } = await supabase
-        .from("drivers")
-        .select("*")
-        .order("created_at", { ascending: true });
+      setDrivers([]);
+      const [{ data, error }, { data: pinned }, { data: queue }] = await Promise.all([
+        supabase.from("drivers").select("*").eq("board_id", boardId).order("created_at", { ascending: true }),
+        supabase
+          .from("driver_notes")
+          .select("*")
+          .eq("board_id", boardId)
+          .eq("pinned", true)
+          .order("created_at", { ascending: false }),
+        supabase.from("reserve_waitlist").select("*").order("created_at", { ascending: true }),
+      ]);
+      const cached = error && isNetworkError(error) ? loadSnapshot<Driver[]>(offlineKeys.roster(boardId)) : null;
+      if (cached) {
+        setDrivers(cached.value);
+        setStaleSince(cached.savedAt);
+        setLoading(false);
+        return;
+      }
       if (error) setErr(error.message);
+      else setStaleSince(null);
       setDrivers((data as Driver[]) ?? []);
+      setPinnedNotes((pinned as DriverNote[]) ?? []);
+      setWaitlist((queue as WaitlistEntry[]) ?? []);
+      setPolicy(await loadReservePolicy(supabase));
       setLoading(false);
     })();
-  }, []);
+  }, [session, boardId, reloadKey]);
+
+  // keep the last-known roster for offline starts (only while it is live)
+  useEffect(() => {
+    if (session && boardId && !loading && !staleSince) saveSnapshot(offlineKeys.roster(boardId), drivers);
+  }, [drivers, boardId, loading, staleSince, session]);
+
+  /* realtime drivers + presence (who is online, and on which row) */
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [focusedCell, setFocusedCell] = useState<{ driverId: string; field: EditField } | null>(null);
+  const myPresence = useMemo(() => {
+    if (!me) return null;
+    if (reserveOpen && reserveDriver) return presenceMeta(me, reserveDriver.id, "reserving");
+    if (profileOpen && profileDriver) return presenceMeta(me, profileDriver.id, "profile");
+    if (focusedCell) return presenceMeta(me, focusedCell.driverId, "editing", focusedCell.field);
+    return presenceMeta(me, null, null);
+  }, [me, reserveOpen, reserveDriver, profileOpen, profileDriver, focusedCell]);
+  const myPresenceRef = useRef(myPresence);
+  myPresenceRef.current = myPresence;
 
-  /* realtime drivers */
   useEffect(() => {
+    if (myPresence) channelRef.current?.track(myPresence);
+  }, [myPresence]);
+
+  useEffect(() => {
+    if (!me || !boardId) return;
     const ch = supabase
-      .channel("drivers-rt")
+      .channel(`drivers-rt:${boardId}`, { config: { presence: { key: me.id } } })
+      .on("presence", { event: "sync" }, () => {
+        setPeers(peersFromState(ch.presenceState<PresenceMeta>()));
+      })
       .on(
         "postgres_changes",
-        { event: "*", schema: "public", table: "drivers" },
+        { event: "*", schema: "public", table: "drivers", filter: `board_id=eq.${boardId}` },
         (payload) => {
           setDrivers((prev) => {
             const next = [...prev];
@@ -138,134 +618,1090 @@ export default function DriverReserves() {
           });
         }
       )
-      .subscribe();
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "driver_notes", filter: `board_id=eq.${boardId}` },
+        (payload) => {
+          const row = payload.new as DriverNote;
+          const oldId = (payload.old as any)?.id;
+          setPinnedNotes((prev) =>
+            payload.eventType === "DELETE" || !row?.pinned
+              ? applyNoteChange(prev, "DELETE", null, oldId ?? row?.id)
+              : applyNoteChange(prev, payload.eventType, row)
+          );
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "reserve_waitlist" },
+        (payload) => {
+          setWaitlist((prev) =>
+            applyWaitlistChange(prev, payload.eventType, payload.new as WaitlistEntry, (payload.old as any)?.id)
+          );
+        }
+      )
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "reserve_policies" }, (payload) => {
+        setPolicy({ ...defaultReservePolicy, ...(payload.new as ReservePolicy) });
+      })
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "board_members", filter: `dispatcher_id=eq.${me.id}` },
+        () => loadBoards()
+      )
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED" && myPresenceRef.current) ch.track(myPresenceRef.current);
+      });
+    channelRef.current = ch;
 
     return () => {
+      channelRef.current = null;
       supabase.removeChannel(ch);
     };
-  }, []);
+  }, [me?.id, boardId]);
+
+  const otherPeers = peers.filter((p) => p.user_id !== me?.id);
+  const peersOnRow = (driverId: string) => otherPeers.filter((p) => p.driver_id === driverId && p.activity);
 
   /* actions */
-  function openReserve(d: Driver) {
+  function openReserve(d: Driver, note = "") {
     setReserveDriver(d);
-    setReserveMinutes("15");
-    setReserveNote("");
+    setReserveMinutes(String(policy.default_minutes));
+    setReserveNote(note);
+    setReserveUntilText("");
+    setReserveProblem(null);
     setReserveOpen(true);
   }
 
+  /** Applies the server's view of a row, e.g. after a reserve conflict */
+  function mergeDriver(row: Driver) {
+    setDrivers((prev) => prev.map((d) => (d.id === row.id ? row : d)));
+  }
+
+  /** Held by another dispatcher — the Reserve modal queues instead of extending */
+  function heldByOther(d: Driver) {
+    return isReserveActive(d) && !!d.reserved_by && d.reserved_by !== me?.id;
+  }
+
+  async function joinQueue(d: Driver, minutes: number, note: string) {
+    if (!me) return;
+    const { data, error } = await supabase
+      .from("reserve_waitlist")
+      .insert({ driver_id: d.id, dispatcher_id: me.id, dispatcher_name: me.display_name, minutes, note: note || null })
+      .select("*")
+      .single();
+    if (error) {
+      setErr(error.code === "23505" ? t("err.alreadyQueued", { name: d.name }) : error.message);
+      return;
+    }
+    setErr(null);
+    setWaitlist((prev) => applyWaitlistChange(prev, "INSERT", data as WaitlistEntry));
+    showToast(t("toast.queued", { name: d.name, pos: queuePosition([...waitlist, data as WaitlistEntry], d.id, me.id) }));
+  }
+
+  async function leaveQueue(d: Driver) {
+    const mine = waitlist.find((e) => e.driver_id === d.id && e.dispatcher_id === me?.id);
+    if (!mine) return;
+    const { error } = await supabase.from("reserve_waitlist").delete().eq("id", mine.id);
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setWaitlist((prev) => applyWaitlistChange(prev, "DELETE", null, mine.id));
+  }
+
+  /** Sends a reserve action, or queues it while offline (null) */
+  async function sendReserve(d: Driver, body: ReserveRequest, label: string): Promise<ReserveResponse | null> {
+    if (online) return postReserve(d.id, body);
+    queueOffline({ kind: "reserve", driverId: d.id, request: body, label: `${d.name} · ${label}` });
+    showToast(t("offline.willSend", { label }));
+    return null;
+  }
+
+  /** Preset buttons add to the minutes field (and drop any "until" time) */
+  function addReserveMinutes(n: number) {
+    const current = parseInt(reserveMinutes, 10);
+    setReserveMinutes(String((Number.isFinite(current) && current > 0 ? current : 0) + n));
+    setReserveUntilText("");
+  }
+
   async function confirmReserve() {
     if (!reserveDriver) return;
-    const minutes = parseInt(reserveMinutes || "15", 10);
-    if (!Number.isFinite(minutes) || minutes <= 0) return;
+    let until: Date | null = null;
+    if (reserveUntilText.trim()) {
+      const parsed = parseUntil(reserveUntilText, tr, Date.now(), zone);
+      if (typeof parsed === "string") {
+        setReserveProblem(parsed);
+        return;
+      }
+      until = parsed;
+    }
+    const minutes = until ? Math.round((until.getTime() - Date.now()) / 60_000) : parseInt(reserveMinutes, 10);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      setReserveProblem(t("reserve.needMinutes"));
+      return;
+    }
 
     const target = drivers.find((d) => d.id === reserveDriver.id);
+    if (!target || !me) return;
+
+    if (heldByOther(target)) {
+      // the database checks the same limits on the queue entry
+      const problem = checkReservePolicy(policy, { totalMinutes: minutes, note: reserveNote });
+      if (problem) {
+        setReserveProblem(problemText(problem, tr));
+        return;
+      }
+      await joinQueue(target, minutes, reserveNote.trim());
+      setReserveOpen(false);
+      return;
+    }
+
+    forgetHandOff(target.id);
+    const result = await sendReserve(
+      target,
+      {
+        action: isReserveActive(target) ? "extend" : "reserve",
+        minutes: until ? undefined : minutes,
+        until: until ? until.toISOString() : null,
+        note: reserveNote.trim() || null,
+        expected_until: target.reserve_until,
+      },
+      until ? t("offline.reserveUntil", { time: fmtClock(until, lang, timeZone) }) : t("offline.reserve", { minutes })
+    );
+
+    if (!result) {
+      setReserveOpen(false);
+      return;
+    }
+    if ("error" in result) {
+      // policy or input problems stay in the dialog; conflicts close it and show the new row
+      if (!result.driver) {
+        setReserveProblem(errorText(result, tr));
+        return;
+      }
+      setErr(errorText(result, tr));
+      mergeDriver(result.driver);
+    } else {
+      setErr(null);
+      mergeDriver(result.driver);
+    }
+
+    setReserveOpen(false);
+  }
+
+  /** The −/+ buttons on an active hold's pill (and keyboard/palette actions) */
+  async function adjustReserve(d: Driver, action: ReserveAction, minutes: number, note = "") {
+    const result = await sendReserve(
+      d,
+      { action, minutes, note: note || null, expected_until: d.reserve_until },
+      t(`offline.${action}`, { minutes })
+    );
+    if (!result) return false;
+    if ("error" in result) {
+      setErr(errorText(result, tr));
+      if (result.driver) mergeDriver(result.driver);
+      return false;
+    }
+    setErr(null);
+    mergeDriver(result.driver);
+    return true;
+  }
+
+  async function resetReserve(id: string) {
+    const target = drivers.find((d) => d.id === id);
     if (!target) return;
+    if (!isReserveActive(target)) {
+      setErr(t("err.notOnHold", { name: target.name }));
+      return;
+    }
+    if (!canManageReserve(target, me)) {
+      setErr(t("err.reservedBy", { name: target.name, who: target.reserved_by_name ?? t("common.anotherDispatcher") }));
+      return;
+    }
+    const result = await sendReserve(target, { action: "release", expected_until: target.reserve_until }, t("offline.release"));
+    if (!result) return;
+    if ("error" in result) {
+      setErr(errorText(result, tr));
+      if (result.driver) mergeDriver(result.driver);
+    } else {
+      mergeDriver(result.driver);
+    }
+  }
 
-    const nowLocal = new Date();
-    const base = target.reserve_until ? new Date(target.reserve_until) : nowLocal;
-    const until = new Date(Math.max(base.getTime(), nowLocal.getTime()) + minutes * 60_000);
+  /**
+   * Saves an inline edit. `base` is what the input showed when editing began;
+   * if someone else changed the same field since, the dispatcher is asked
+   * instead of overwriting. Returns false when nothing was saved, "keep" when
+   * the text was invalid and should stay in the input for fixing.
+   */
+  async function updateField(id: string, field: EditField, value: string, base?: string): Promise<boolean | "keep"> {
+    const current = drivers.find((d) => d.id === id);
+    if (!current) return false;
+    if (field === "name" || field === "unit_no") {
+      const problem = validateDriverInput(
+        { name: field === "name" ? value : current.name, unit_no: field === "unit_no" ? value : current.unit_no ?? "" },
+        drivers,
+        tr,
+        id
+      );
+      if (problem) {
+        setErr(problem);
+        return false;
+      }
+    }
+    const clean = field === "name" ? value.trim() : field === "unit_no" ? normalizeUnit(value) : value;
+    if ((current[field] ?? "") === clean) return true;
 
-    const { error } = await supabase
-      .from("drivers")
-      .update({
-        reserve_until: until.toISOString(),
-        reserve_started_at: nowLocal.toISOString(),
-        reserve_note: reserveNote.trim() || null,
-      })
-      .eq("id", reserveDriver.id);
+    // offline: show it now, save it once the connection is back (locations are resolved then)
+    if (!online) {
+      queueOffline({
+        kind: "field",
+        driverId: id,
+        field,
+        value: clean,
+        base: base ?? current[field] ?? "",
+        label: `${current.name} · ${fieldLabel(field)} → ${clean || "—"}`,
+      });
+      mergeDriver({
+        ...current,
+        ...(field === "available_time" ? availabilityPatch(clean, Date.now(), zone) : { [field]: clean || null }),
+      });
+      return true;
+    }
+
+    let patch: Partial<Driver>;
+    if (field === "location") {
+      const resolved = await resolveLocation(clean);
+      if ("error" in resolved) {
+        setLocErrors((prev) => ({ ...prev, [id]: errorText(resolved, tr) }));
+        return "keep";
+      }
+      setLocErrors(({ [id]: _, ...rest }) => rest);
+      patch = locationPatch(resolved.location);
+    } else if (field === "available_time") {
+      patch = availabilityPatch(clean, Date.now(), zone);
+    } else {
+      patch = { [field]: clean || null };
+    }
 
+    // realtime already brought someone else's edit of this field while we typed
+    if (base !== undefined && (current[field] ?? "") !== base) {
+      conflictRaised.current = true;
+      setConflict({ latest: current, field, mine: clean, patch });
+      return false;
+    }
+    return writeVersioned(current, field, base ?? current[field] ?? "", clean, patch);
+  }
+
+  /** Update guarded by the row version; a moved-on row is only a conflict if this field changed */
+  async function writeVersioned(
+    row: Driver,
+    field: EditField,
+    base: string,
+    mine: string,
+    patch: Partial<Driver>,
+    attempts = 3
+  ): Promise<boolean> {
+    let q = supabase.from("drivers").update(patch).eq("id", row.id);
+    if (row.version != null) q = q.eq("version", row.version);
+    const { data, error } = await q.select("*").maybeSingle();
     if (error) {
-      setErr(error.message);
+      setErr(friendlyDbError(error, tr));
+      return false;
+    }
+    if (data) {
+      mergeDriver(data as Driver);
+      return true;
     }
 
-    if (reserveNote.trim()) {
-      await supabase.from("driver_notes").insert({
-        driver_id: reserveDriver.id,
-        body: reserveNote.trim(),
-      });
+    const { data: fresh } = await supabase.from("drivers").select("*").eq("id", row.id).maybeSingle();
+    const latest = fresh as Driver | null;
+    if (!latest) {
+      setErr(t("err.driverGone"));
+      return false;
+    }
+    mergeDriver(latest);
+    if ((latest[field] ?? "") === base && attempts > 1) {
+      return writeVersioned(latest, field, base, mine, patch, attempts - 1);
     }
+    conflictRaised.current = true;
+    setConflict({ latest, field, mine, patch });
+    return false;
+  }
 
-    setReserveOpen(false);
+  /** Duty status change; a held driver has to be released first */
+  async function changeStatus(d: Driver, next: DriverStatus) {
+    const from = driverStatus(d);
+    if (next === from) return;
+    if (!canTransition(from, next)) {
+      setErr(t("err.badTransition", { from: statusLabel(from), to: statusLabel(next) }));
+      return;
+    }
+    if (next !== "available" && isReserveActive(d)) {
+      setErr(t("err.releaseBeforeStatus", { name: d.name }));
+      return;
+    }
+    if (!online) {
+      await updateField(d.id, "status", next, from);
+      return;
+    }
+    await writeVersioned(d, "status", from, next, { status: next });
   }
 
-  async function resetReserve(id: string) {
-    const { error } = await supabase
+  /** Replays one queued change; the failure text, or null when it went through */
+  async function replayOp(op: OfflineOp<EditField>): Promise<string | null> {
+    if (!drivers.some((d) => d.id === op.driverId)) return t("offline.driverGone");
+    if (op.kind === "field") {
+      conflictRaised.current = false;
+      const ok = await updateField(op.driverId, op.field, op.value ?? "", op.base);
+      // a conflict is settled in the dialog (keep mine / keep theirs), not in the failure list
+      return ok === true || conflictRaised.current ? null : t("offline.notSaved");
+    }
+    const result = await postReserve(op.driverId, op.request);
+    if ("error" in result) {
+      if (result.driver) mergeDriver(result.driver);
+      return errorText(result, tr);
+    }
+    mergeDriver(result.driver);
+    return null;
+  }
+
+  // one change at a time, after the roster was reloaded, and never under an open conflict dialog
+  useEffect(() => {
+    const op = offlineQueue.find((o) => o.boardId === boardId);
+    if (!online || staleSince || loading || replaying || conflict || !op) return;
+    setReplaying(true);
+    (async () => {
+      const problem = await replayOp(op);
+      updateOfflineQueue((q) => q.filter((o) => o.id !== op.id));
+      if (problem) setOfflineFailures((prev) => [...prev, { op, error: problem }]);
+      setReplaying(false);
+    })();
+  }, [online, staleSince, loading, replaying, conflict, offlineQueue, boardId]);
+
+  async function keepMine() {
+    if (!conflict) return;
+    const { latest, field, mine, patch } = conflict;
+    setConflict(null);
+    await writeVersioned(latest, field, latest[field] ?? "", mine, patch);
+  }
+
+  function openAddDriver() {
+    setAddForm(emptyDriverInput);
+    setAddOpen(true);
+  }
+
+  async function createDriver() {
+    const problem = validateDriverInput(addForm, drivers, tr);
+    if (problem) {
+      setErr(problem);
+      return;
+    }
+    const resolved = await resolveLocation(addForm.location);
+    if ("error" in resolved) {
+      setErr(t("err.location", { error: errorText(resolved, tr) }));
+      return;
+    }
+    const { data, error } = await supabase
       .from("drivers")
-      .update({ reserve_until: null, reserve_started_at: null, reserve_note: null })
-      .eq("id", id);
-    if (error) setErr(error.message);
+      .insert({
+        board_id: boardId,
+        name: addForm.name.trim(),
+        unit_no: normalizeUnit(addForm.unit_no) || null,
+        ...locationPatch(resolved.location),
+        ...availabilityPatch(addForm.available_time, Date.now(), zone),
+      })
+      .select("*")
+      .single();
+    if (error) {
+      setErr(friendlyDbError(error, tr));
+      return;
+    }
+    // realtime will deliver it too; merge so the row shows up immediately
+    setDrivers((prev) => (prev.some((d) => d.id === data.id) ? prev : [...prev, data as Driver]));
+    setErr(null);
+    setAddOpen(false);
+    showToast(t("toast.added", { name: addForm.name.trim() }));
+  }
+
+  function importApplied(rows: Driver[], done: boolean) {
+    setDrivers((prev) => {
+      const byId = new Map(rows.map((r) => [r.id, r]));
+      const merged = prev.map((d) => byId.get(d.id) ?? d);
+      return [...merged, ...rows.filter((r) => !prev.some((d) => d.id === r.id))];
+    });
+    if (!done) return; // the modal stays open and says which rows to review
+    setImportOpen(false);
+    showToast(tn("toast.imported", rows.length));
+  }
+
+  function exportCsv() {
+    const blob = new Blob([exportBoardCsv(boardDrivers)], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    const slug = (currentBoard?.name ?? "drivers").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    a.download = `${slug}-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
   }
 
-  async function updateField(
-    id: string,
-    field: "unit_no" | "location" | "available_time", // 👈 добавили unit_no
-    value: string
-  ) {
-    const { error } = await supabase
+  async function setArchived(d: Driver, archived: boolean) {
+    if (archived && isReserveActive(d)) {
+      setErr(t("err.releaseBeforeArchive", { name: d.name }));
+      return;
+    }
+    if (!archived) {
+      const problem = validateDriverInput({ name: d.name, unit_no: d.unit_no ?? "" }, drivers, tr, d.id);
+      if (problem) {
+        setErr(problem);
+        return;
+      }
+    }
+    const { data, error } = await supabase
       .from("drivers")
-      .update({ [field]: value || null })
-      .eq("id", id);
-    if (error) setErr(error.message);
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq("id", d.id)
+      .select("*")
+      .single();
+    if (error) {
+      setErr(friendlyDbError(error, tr));
+      return;
+    }
+    mergeDriver(data as Driver);
+    showToast(t(archived ? "toast.archived" : "toast.restored", { name: d.name }));
   }
 
   async function openProfile(d: Driver) {
     setProfileDriver(d);
     setProfileOpen(true);
-    setNewNote("");
-    const { data } = await supabase
-      .from("driver_notes")
+    setNoteSearchOpen(false);
+    setEvents([]);
+    const { data: history } = await supabase
+      .from("reserve_events")
       .select("*")
       .eq("driver_id", d.id)
       .order("created_at", { ascending: false })
-      .limit(10);
-    setNotes((data as DriverNote[]) ?? []);
+      .order("seq", { ascending: false })
+      .limit(25);
+    setEvents((history as ReserveEvent[]) ?? []);
   }
 
-  async function addProfileNote() {
-    if (!profileDriver || !newNote.trim()) return;
-    const { data, error } = await supabase
-      .from("driver_notes")
-      .insert({ driver_id: profileDriver.id, body: newNote.trim() })
-      .select("*")
-      .single();
-    if (!error && data) {
-      setNotes((prev) => [data as DriverNote, ...prev].slice(0, 10));
-      setNewNote("");
+  /* copy update — format comes from the selected template ("Group update" = the classic text) */
+  async function copyUpdate() {
+    const text = renderUpdate(activeDrivers, currentTemplate, Date.now(), zone);
+    await navigator.clipboard.writeText(text);
+    showToast(t("toast.copied", { name: currentTemplate.name }));
+  }
+
+  /* keyboard mode: ↑/↓ (or j/k) focus a row, single keys act on it, Ctrl+K opens the palette */
+  const [focusedRowId, setFocusedRowId] = useState<string | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [keysHelpOpen, setKeysHelpOpen] = useState(false);
+
+  async function runCommand(cmd: PaletteCommand) {
+    setPaletteOpen(false);
+    if (cmd.action === "copy") return copyUpdate();
+    const d = cmd.driver && drivers.find((x) => x.id === cmd.driver.id);
+    if (!d) return;
+    setFocusedRowId(d.id);
+    const minutes = cmd.minutes ?? policy.default_minutes;
+    switch (cmd.action) {
+      case "profile":
+        return openProfile(d);
+      case "reset":
+        return resetReserve(d.id);
+      case "extend":
+      case "shorten":
+        if (!isReserveActive(d)) {
+          setErr(t("err.notOnHold", { name: d.name }));
+          return;
+        }
+        if (await adjustReserve(d, cmd.action, minutes, cmd.note)) {
+          showToast(t(cmd.action === "extend" ? "toast.extended" : "toast.shortened", { name: d.name, minutes }));
+        }
+        return;
+      case "reserve":
+        if (heldByOther(d)) return joinQueue(d, minutes, cmd.note);
+        forgetHandOff(d.id);
+        if (await adjustReserve(d, isReserveActive(d) ? "extend" : "reserve", minutes, cmd.note)) {
+          showToast(t("toast.reserved", { name: d.name, minutes }));
+        }
     }
   }
 
-  /* copy update — unit_no НЕ используется */
-  async function copyUpdate() {
-    const lines = drivers.map((d) => {
-      const name = d.name?.trim() ?? "";
-      const loc = (d.location ?? "").toUpperCase();
-      const avail = (d.available_time ?? "").trim() || "ava now";
-      const parts = [name, loc, avail].filter(Boolean);
-      return `${parts[0]} // ${parts.slice(1).join(" ")}`.replace(/\s+/g, " ").trim();
-    });
-    const text = lines.join("\n\n");
-    await navigator.clipboard.writeText(text);
-    showToast("Copied update to clipboard");
+  function onBoardKey(e: KeyboardEvent) {
+    const modalOpen =
+      reserveOpen ||
+      profileOpen ||
+      addOpen ||
+      importOpen ||
+      alertsOpen ||
+      policyOpen ||
+      boardsOpen ||
+      displayLinksOpen ||
+      noteSearchOpen ||
+      !!conflict ||
+      !!editingTemplate;
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+      if (modalOpen) return;
+      e.preventDefault();
+      setPaletteOpen((v) => !v);
+      return;
+    }
+    if (modalOpen || paletteOpen || e.ctrlKey || e.metaKey || e.altKey) return;
+    const el = e.target as HTMLElement | null;
+    if (el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT" || el.isContentEditable)) return;
+    if (e.key === "Enter" && el?.tagName === "BUTTON") return;
+
+    const rows = viewGroups.flatMap((g) => g.drivers);
+    const idx = rows.findIndex((d) => d.id === focusedRowId);
+    const row = idx >= 0 ? rows[idx] : null;
+    switch (e.key) {
+      case "ArrowDown":
+      case "j":
+        setFocusedRowId(rows[Math.min(idx + 1, rows.length - 1)]?.id ?? null);
+        break;
+      case "ArrowUp":
+      case "k":
+        setFocusedRowId(rows[Math.max(idx - 1, 0)]?.id ?? null);
+        break;
+      case "Escape":
+        if (keysHelpOpen) setKeysHelpOpen(false);
+        else setFocusedRowId(null);
+        break;
+      case "?":
+        setKeysHelpOpen((v) => !v);
+        break;
+      case "c":
+        copyUpdate();
+        break;
+      case "r":
+        if (!row || row.archived_at) return;
+        if (reserveBlocked(row)) setErr(reserveBlocked(row));
+        else openReserve(row);
+        break;
+      case "e":
+        if (!row) return;
+        if (isReserveActive(row) && canManageReserve(row, me)) adjustReserve(row, "extend", EXTEND_PRESETS[1]);
+        else
+          setErr(
+            isReserveActive(row)
+              ? t("err.reservedBy", { name: row.name, who: row.reserved_by_name ?? t("common.anotherDispatcher") })
+              : t("err.notOnHold", { name: row.name })
+          );
+        break;
+      case "x":
+      case "Delete":
+        if (!row || !isReserveActive(row)) return;
+        resetReserve(row.id);
+        break;
+      case "p":
+      case "Enter":
+        if (!row) return;
+        openProfile(row);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
   }
 
+  // the listener is attached once; it always calls this render's handler
+  const boardKeyRef = useRef(onBoardKey);
+  boardKeyRef.current = onBoardKey;
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => boardKeyRef.current(e);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  useEffect(() => {
+    if (focusedRowId) document.getElementById(`driver-row-${focusedRowId}`)?.scrollIntoView({ block: "nearest" });
+  }, [focusedRowId]);
+
+  if (!authReady || !session) {
+    return (
+      <div
+        style={{
+          padding: 24,
+          fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+          background: colors.pageBg,
+          color: colors.text,
+          minHeight: "100vh",
+        }}
+      >
+        <h1 style={{ fontSize: 28, fontWeight: 800, display: "flex", alignItems: "center", gap: 8, margin: 0 }}>
+          <span>🚚</span> {t("app.title")}
+        </h1>
+
+        {err && (
+          <div
+            style={{
+              background: colors.dangerBg,
+              color: colors.dangerText,
+              padding: 10,
+              borderRadius: 8,
+              marginTop: 12,
+              border: `1px solid ${colors.panelBorder}`,
+              maxWidth: 360,
+            }}
+          >
+            {err}
+          </div>
+        )}
+
+        {authReady && (
+          <div
+            style={{
+              marginTop: 16,
+              maxWidth: 360,
+              padding: 16,
+              borderRadius: 16,
+              border: `1px solid ${colors.panelBorder}`,
+              background: colors.cardBg,
+              display: "flex",
+              flexDirection: "column",
+              gap: 10,
+            }}
+          >
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <span style={{ fontWeight: 700 }}>{t("auth.heading")}</span>
+              <select
+                value={lang}
+                onChange={(e) => changeLang(e.target.value as Lang)}
+                title={t("settings.language")}
+                style={{
+                  padding: "2px 6px",
+                  borderRadius: 8,
+                  border: `1px solid ${colors.panelBorder}`,
+                  background: colors.cardBg,
+                  color: colors.text,
+                }}
+              >
+                {LANGS.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {[
+              { label: t("auth.email"), value: email, set: setEmail, type: "email" },
+              { label: t("auth.password"), value: password, set: setPassword, type: "password" },
+              { label: t("auth.displayName"), value: displayName, set: setDisplayName, type: "text" },
+            ].map((f) => (
+              <div key={f.label}>
+                <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{f.label}</label>
+                <input
+                  type={f.type}
+                  value={f.value}
+                  onChange={(e) => f.set(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && signIn()}
+                  style={{
+                    width: "100%",
+                    padding: 8,
+                    border: `1px solid ${colors.panelBorder}`,
+                    borderRadius: 8,
+                    background: colors.cardBg,
+                    color: colors.text,
+                  }}
+                />
+              </div>
+            ))}
+            <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+              <button
+                onClick={signUp}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.cardBg,
+                  color: colors.text,
+                }}
+              >
+                {t("auth.createAccount")}
+              </button>
+              <button
+                onClick={signIn}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.btnPrimaryBg,
+                  color: colors.btnPrimaryText,
+                }}
+              >
+                {t("auth.signIn")}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {toast && (
+          <div
+            style={{
+              position: "fixed",
+              bottom: 16,
+              right: 16,
+              background: colors.cardBg,
+              border: `1px solid ${colors.panelBorder}`,
+              color: colors.text,
+              borderRadius: 10,
+              padding: "8px 12px",
+              boxShadow: "0 8px 20px rgba(0,0,0,0.15)",
+            }}
+          >
+            {toast}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (boards && boards.length === 0) {
+    return (
+      <div
+        style={{
+          padding: 24,
+          fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+          background: colors.pageBg,
+          color: colors.text,
+          minHeight: "100vh",
+        }}
+      >
+        <h1 style={{ fontSize: 28, fontWeight: 800, display: "flex", alignItems: "center", gap: 8, margin: 0 }}>
+          <span>🚚</span> {t("app.title")}
+        </h1>
+        <div
+          style={{
+            marginTop: 16,
+            maxWidth: 420,
+            padding: 16,
+            borderRadius: 16,
+            border: `1px solid ${colors.panelBorder}`,
+            background: colors.cardBg,
+            display: "flex",
+            flexDirection: "column",
+            gap: 10,
+          }}
+        >
+          <div style={{ fontWeight: 700 }}>{t("boards.none")}</div>
+          <div style={{ color: colors.subtext }}>{me?.is_admin ? t("boards.noneAdmin") : t("boards.noneMember")}</div>
+          <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+            <button
+              onClick={signOut}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${colors.btnGhostBorder}`,
+                background: colors.cardBg,
+                color: colors.text,
+              }}
+            >
+              {t("auth.signOut")}
+            </button>
+            {me?.is_admin && (
+              <button
+                onClick={() => setBoardsOpen(true)}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.btnPrimaryBg,
+                  color: colors.btnPrimaryText,
+                }}
+              >
+                {t("header.boards")}
+              </button>
+            )}
+          </div>
+        </div>
+        {boardsOpen && (
+          <BoardsModal
+            boards={boards}
+            currentBoardId={null}
+            colors={colors}
+            tr={tr}
+            onBoardsChanged={setBoards}
+            onClose={() => setBoardsOpen(false)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  // phones: rows become cards, each cell a labelled block
+  const cellStyle: React.CSSProperties = narrow ? { display: "block", padding: "6px 12px" } : { padding: 12 };
+  const cellLabel = (text: string) =>
+    narrow ? <div style={{ fontSize: 11, fontWeight: 600, color: colors.subtext, marginBottom: 2 }}>{text}</div> : null;
+  const pendingFor = (driverId: string) => offlineQueue.filter((o) => o.driverId === driverId).length;
+
   return (
     <div
       style={{
-        padding: 24,
+        padding: narrow ? 12 : 24,
         fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
         background: colors.pageBg,
         color: colors.text,
         minHeight: "100vh",
       }}
     >
+      <Head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+      </Head>
+
       {/* Header */}
-      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12 }}>
-        <h1 style={{ fontSize: 28, fontWeight: 800, display: "flex", alignItems: "center", gap: 8, margin: 0 }}>
-          <span>🚚</span> Driver Reserve Timers
+      <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", justifyContent: "space-between", gap: 12 }}>
+        <h1 style={{ fontSize: narrow ? 22 : 28, fontWeight: 800, display: "flex", alignItems: "center", gap: 8, margin: 0 }}>
+          <span>🚚</span> {t("app.title")}
+          {boards && boards.length > 1 ? (
+            <select
+              value={boardId ?? ""}
+              onChange={(e) => router.push(boardPath(e.target.value))}
+              style={{
+                fontSize: 16,
+                fontWeight: 600,
+                padding: "4px 8px",
+                borderRadius: 8,
+                border: `1px solid ${colors.panelBorder}`,
+                background: colors.cardBg,
+                color: colors.text,
+              }}
+            >
+              {boards.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          ) : currentBoard ? (
+            <span style={{ fontSize: 16, fontWeight: 600, color: colors.subtext }}>· {currentBoard.name}</span>
+          ) : null}
         </h1>
-        <div style={{ display: "flex", gap: 8 }}>
+        <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
+          {otherPeers.length > 0 && (
+            <span style={{ display: "inline-flex", alignItems: "center", gap: 6, fontSize: 13, color: colors.subtext }}>
+              {t("presence.online")} <PresenceAvatars peers={otherPeers} tr={tr} />
+            </span>
+          )}
+          <span style={{ fontSize: 13, color: colors.subtext }}>
+            {me ? (me.is_admin ? t("header.admin", { name: me.display_name }) : me.display_name) : session.user.email}
+          </span>
+          <button
+            onClick={signOut}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("auth.signOut")}
+          </button>
+          <button
+            onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {theme === "dark" ? t("header.light") : t("header.dark")}
+          </button>
+          <select
+            value={lang}
+            onChange={(e) => changeLang(e.target.value as Lang)}
+            title={t("settings.language")}
+            style={{
+              padding: "8px 6px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {LANGS.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={timeZone}
+            onChange={(e) => changeTimeZone(e.target.value)}
+            title={t("settings.timeZone")}
+            style={{
+              padding: "8px 6px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            <option value="">{t("settings.browserZone", { zone: browserTimeZone() })}</option>
+            {TIME_ZONES.map((z) => (
+              <option key={z} value={z}>
+                {z.replace(/_/g, " ")}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={openAlertSettings}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {alertSettings.enabled ? t("header.alertsOn") : t("header.alertsOff")}
+          </button>
+          {me?.is_admin && (
+            <button
+              onClick={() => setPolicyOpen(true)}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${colors.btnGhostBorder}`,
+                background: colors.cardBg,
+                color: colors.text,
+              }}
+            >
+              {t("header.policies")}
+            </button>
+          )}
+          {me?.is_admin && (
+            <button
+              onClick={() => setBoardsOpen(true)}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${colors.btnGhostBorder}`,
+                background: colors.cardBg,
+                color: colors.text,
+              }}
+            >
+              {t("header.boards")}
+            </button>
+          )}
+          <button
+            onClick={() => setShowArchived((v) => !v)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: showArchived ? colors.headerBg : colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {showArchived ? t("header.hideArchived") : t("header.archived", { n: archivedCount })}
+          </button>
+          <button
+            onClick={() => setMatchOpen((v) => !v)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: matchOpen ? colors.headerBg : colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("header.matchLoad")}
+          </button>
+          <button
+            onClick={() => setNoteSearchOpen(true)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("header.notes")}
+          </button>
+          <button
+            onClick={() => setPaletteOpen(true)}
+            title={t("header.palette")}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            ⌘K
+          </button>
+          <button
+            onClick={() => boardId && router.push(`${boardPath(boardId)}/analytics`)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("header.analytics")}
+          </button>
+          {me?.is_admin && (
+            <button
+              onClick={() => boardId && router.push(`${boardPath(boardId)}/webhooks`)}
+              style={{
+                padding: "8px 12px",
+                borderRadius: 10,
+                border: `1px solid ${colors.btnGhostBorder}`,
+                background: colors.cardBg,
+                color: colors.text,
+              }}
+            >
+              {t("header.webhooks")}
+            </button>
+          )}
+          <button
+            onClick={() => setDisplayLinksOpen(true)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("header.display")}
+          </button>
+          <button
+            onClick={openAddDriver}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("header.addDriver")}
+          </button>
           <button
-            onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+            onClick={() => setImportOpen(true)}
+            style={{
+              padding: "8px 12px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {t("header.import")}
+          </button>
+          <button
+            onClick={exportCsv}
             style={{
               padding: "8px 12px",
               borderRadius: 10,
@@ -274,7 +1710,38 @@ export default function DriverReserves() {
               color: colors.text,
             }}
           >
-            {theme === "dark" ? "☀️ Light" : "🌙 Dark"}
+            {t("header.export")}
+          </button>
+          <select
+            value={currentTemplate.id}
+            onChange={(e) => chooseTemplate(e.target.value)}
+            title={t("header.template")}
+            style={{
+              padding: "8px 10px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            {templates.map((tpl) => (
+              <option key={tpl.id} value={tpl.id}>
+                {tpl.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setEditingTemplate(currentTemplate)}
+            title={t("header.editTemplate")}
+            style={{
+              padding: "8px 10px",
+              borderRadius: 10,
+              border: `1px solid ${colors.btnGhostBorder}`,
+              background: colors.cardBg,
+              color: colors.text,
+            }}
+          >
+            ⚙
           </button>
           <button
             onClick={copyUpdate}
@@ -286,7 +1753,7 @@ export default function DriverReserves() {
               color: colors.btnPrimaryText,
             }}
           >
-            Copy Update
+            {t("header.copyUpdate")}
           </button>
         </div>
       </div>
@@ -306,194 +1773,508 @@ export default function DriverReserves() {
         </div>
       )}
 
+      {(staleSince || offlineQueue.length > 0) && (
+        <div
+          style={{
+            background: colors.warnBg,
+            color: colors.warnText,
+            padding: 10,
+            borderRadius: 8,
+            marginTop: 12,
+            border: `1px solid ${colors.panelBorder}`,
+          }}
+        >
+          {staleSince
+            ? t(online ? "offline.reconnecting" : "offline.offline", { time: fmtTime(staleSince) })
+            : t("offline.sending")}
+          {offlineQueue.length > 0 && (
+            <span title={offlineQueue.map((o) => o.label).join("\n")}>
+              {" "}
+              {tn("offline.queued", offlineQueue.length)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {offlineFailures.length > 0 && (
+        <div
+          style={{
+            background: colors.dangerBg,
+            color: colors.dangerText,
+            padding: 10,
+            borderRadius: 8,
+            marginTop: 12,
+            border: `1px solid ${colors.panelBorder}`,
+          }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", gap: 8, fontWeight: 600 }}>
+            {tn("offline.failed", offlineFailures.length)}
+            <button
+              onClick={() => setOfflineFailures([])}
+              style={{ border: "none", background: "transparent", color: "inherit", cursor: "pointer" }}
+            >
+              {t("common.dismiss")}
+            </button>
+          </div>
+          {offlineFailures.map((f) => (
+            <div key={f.op.id} style={{ fontSize: 13, marginTop: 4 }}>
+              {f.op.label} — {f.error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {matchOpen && (
+        <MatchLoadPanel
+          drivers={activeDrivers}
+          me={me}
+          colors={colors}
+          tr={tr}
+          timeZone={timeZone}
+          onReserve={(d, note) => openReserve(d, note)}
+          onLocationInput={queueLocationSuggest}
+          onClose={() => setMatchOpen(false)}
+        />
+      )}
+
+      <BoardToolbar
+        view={boardView}
+        onChange={changeBoardView}
+        states={boardStates}
+        shown={shownCount}
+        total={boardDrivers.length}
+        colors={colors}
+        tr={tr}
+      />
+
       <div
         style={{
-          marginTop: 16,
+          marginTop: 12,
           overflow: "hidden",
           borderRadius: 16,
           border: `1px solid ${colors.panelBorder}`,
           background: colors.cardBg,
         }}
       >
-        <table style={{ width: "100%", borderCollapse: "collapse" }}>
-          <thead style={{ background: colors.headerBg }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", display: narrow ? "block" : undefined }}>
+          <thead style={{ background: colors.headerBg, display: narrow ? "none" : undefined }}>
             <tr>
-              <th style={{ textAlign: "left", padding: 12, width: 90 }}>Unit</th> {/* 👈 новый столбец */}
-              <th style={{ textAlign: "left", padding: 12 }}>Name</th>
-              <th style={{ textAlign: "left", padding: 12 }}>Location</th>
-              <th style={{ textAlign: "left", padding: 12 }}>Available Time</th>
-              <th style={{ textAlign: "left", padding: 12 }}>Reserve</th>
-              <th style={{ textAlign: "left", padding: 12 }}>Actions</th>
+              {(
+                [
+                  ["unit", t("col.unit"), 90], // 👈 новый столбец
+                  ["name", t("col.name")],
+                  ["status", t("col.status"), 130],
+                  ["location", t("col.location")],
+                  ["available", t("col.available")],
+                  ["reserve", t("col.reserve")],
+                ] as [SortKey, string, number?][]
+              ).map(([key, label, width]) => (
+                <th
+                  key={key}
+                  onClick={() => toggleSort(key)}
+                  style={{ textAlign: "left", padding: 12, width, cursor: "pointer", userSelect: "none" }}
+                >
+                  {label}
+                  {boardView.sortKey === key ? (boardView.sortDir === "asc" ? " ▲" : " ▼") : ""}
+                </th>
+              ))}
+              <th style={{ textAlign: "left", padding: 12 }}>{t("col.actions")}</th>
             </tr>
           </thead>
-          <tbody>
+          <tbody style={{ display: narrow ? "block" : undefined }}>
             {loading && (
               <tr>
-                <td colSpan={6} style={{ padding: 16, color: colors.subtext }}>
-                  Loading…
+                <td colSpan={7} style={{ padding: 16, color: colors.subtext }}>
+                  {t("table.loading")}
                 </td>
               </tr>
             )}
-            {!loading && drivers.length === 0 && (
+            {!loading && shownCount === 0 && (
               <tr>
-                <td colSpan={6} style={{ padding: 16, color: colors.subtext }}>
-                  No drivers found.
+                <td colSpan={7} style={{ padding: 16, color: colors.subtext }}>
+                  {isViewFiltered(boardView) && boardDrivers.length > 0 ? t("table.noMatch") : t("table.empty")}
                 </td>
               </tr>
             )}
 
-            {drivers.map((d) => {
-              const until = d.reserve_until ? new Date(d.reserve_until) : null;
-              const msLeft = until ? until.getTime() - new Date().getTime() : 0;
-              const active = !!until && msLeft > 0;
-
-              return (
-                <tr key={d.id} style={{ borderTop: `1px solid ${colors.panelBorder}` }}>
-                  {/* Unit */}
-                  <td style={{ padding: 12 }}>
-                    <input
-                      defaultValue={d.unit_no ?? ""}
-                      onBlur={(e) => updateField(d.id, "unit_no", e.target.value)}
-                      placeholder="1401"
-                      style={{
-                        width: 80,
-                        padding: 8,
-                        border: `1px solid ${colors.panelBorder}`,
-                        borderRadius: 8,
-                        background: colors.cardBg,
-                        color: colors.text,
-                      }}
-                    />
-                  </td>
-
-                  {/* Name */}
-                  <td style={{ padding: 12, fontWeight: 600 }}>{d.name}</td>
-
-                  {/* Location */}
-                  <td style={{ padding: 12 }}>
-                    <input
-                      defaultValue={d.location ?? ""}
-                      onBlur={(e) => updateField(d.id, "location", e.target.value)}
-                      placeholder="City, ST | ZIP"
-                      style={{
-                        width: 220,
-                        padding: 8,
-                        border: `1px solid ${colors.panelBorder}`,
-                        borderRadius: 8,
-                        background: colors.cardBg,
-                        color: colors.text,
-                      }}
-                    />
-                  </td>
-
-                  {/* Available */}
-                  <td style={{ padding: 12 }}>
-                    <input
-                      defaultValue={d.available_time ?? ""}
-                      onBlur={(e) => updateField(d.id, "available_time", e.target.value)}
-                      placeholder="Any text"
+            {viewGroups.map((g) => (
+              <React.Fragment key={g.key}>
+                {boardView.groupByState && (
+                  <tr style={{ background: colors.softBg, borderTop: `1px solid ${colors.panelBorder}` }}>
+                    <td colSpan={7} style={{ padding: "6px 12px", fontSize: 12, fontWeight: 700, color: colors.subtext }}>
+                      {g.label} · {g.drivers.length}
+                    </td>
+                  </tr>
+                )}
+                {g.drivers.map((d) => {
+                  const until = d.reserve_until ? new Date(d.reserve_until) : null;
+                  const msLeft = until ? until.getTime() - new Date().getTime() : 0;
+                  const active = !!until && msLeft > 0;
+                  const canManage = canManageReserve(d, me);
+
+                  return (
+                    <tr
+                      key={d.id}
+                      id={`driver-row-${d.id}`}
+                      onClick={() => setFocusedRowId(d.id)}
                       style={{
-                        width: 180,
-                        padding: 8,
-                        border: `1px solid ${colors.panelBorder}`,
-                        borderRadius: 8,
-                        background: colors.cardBg,
-                        color: colors.text,
+                        borderTop: `1px solid ${colors.panelBorder}`,
+                        opacity: d.archived_at ? 0.55 : 1,
+                        outline: d.id === focusedRowId ? `2px solid ${colors.text}` : undefined,
+                        outlineOffset: -2,
+                        display: narrow ? "block" : undefined,
+                        padding: narrow ? "6px 0" : undefined,
                       }}
-                    />
-                  </td>
-
-                  {/* Reserve */}
-                  <td style={{ padding: 12 }}>
-                    {active ? (
-                      <span
-                        style={{
-                          display: "inline-flex",
-                          alignItems: "center",
-                          gap: 8,
-                          background: colors.successBg,
-                          color: colors.successText,
-                          padding: "4px 10px",
-                          borderRadius: 999,
-                        }}
-                      >
-                        ● {fmtTimeLeft(msLeft)}
-                      </span>
-                    ) : (
-                      <span style={{ color: colors.subtext }}>—</span>
-                    )}
-                  </td>
-
-                  {/* Actions */}
-                  <td style={{ padding: 12 }}>
-                    <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
-                      <button
-                        onClick={() => openReserve(d)}
-                        style={{
-                          padding: "6px 10px",
-                          borderRadius: 10,
-                          border: `1px solid ${colors.btnGhostBorder}`,
-                          background: colors.btnPrimaryBg,
-                          color: colors.btnPrimaryText,
-                        }}
-                      >
-                        Reserve…
-                      </button>
-                      <button
-                        onClick={() => openProfile(d)}
-                        style={{
-                          padding: "6px 10px",
-                          borderRadius: 10,
-                          border: `1px solid ${colors.btnGhostBorder}`,
-                          background: colors.cardBg,
-                          color: colors.text,
-                        }}
-                      >
-                        Profile
-                      </button>
-                      <button
-                        onClick={() => resetReserve(d.id)}
-                        style={{
-                          padding: "6px 10px",
-                          borderRadius: 10,
-                          border: `1px solid ${colors.btnGhostBorder}`,
-                          background: "#dc2626",
-                          color: "#ffffff",
-                        }}
-                      >
-                        Reset
-                      </button>
-                    </div>
-
-                    {/* Current reserve note */}
-                    {active && d.reserve_note ? (
-                      <div
-                        style={{
-                          marginTop: 8,
-                          background: colors.softBg,
-                          border: `1px solid ${colors.panelBorder}`,
-                          borderRadius: 8,
-                          padding: "8px 10px",
-                          maxWidth: 420,
-                        }}
-                      >
-                        <div style={{ fontSize: 12, color: colors.subtext, marginBottom: 4 }}>
-                          Note for this reserve
-                          {d.reserve_started_at
-                            ? ` • ${new Date(d.reserve_started_at).toLocaleString()}`
-                            : ""}
+                    >
+                      {/* Unit */}
+                      <td style={cellStyle}>
+                        {cellLabel(t("col.unit"))}
+                        <EditableCell
+                          value={d.unit_no ?? ""}
+                          onCommit={(text, base) => updateField(d.id, "unit_no", text, base)}
+                          onFocusChange={(on) => setFocusedCell(on ? { driverId: d.id, field: "unit_no" } : null)}
+                          placeholder="1401"
+                          style={{
+                            width: 80,
+                            padding: 8,
+                            border: `1px solid ${colors.panelBorder}`,
+                            borderRadius: 8,
+                            background: colors.cardBg,
+                            color: colors.text,
+                          }}
+                        />
+                      </td>
+
+                      {/* Name */}
+                      <td style={{ ...cellStyle, whiteSpace: narrow ? undefined : "nowrap" }}>
+                        {cellLabel(t("col.name"))}
+                        <EditableCell
+                          value={d.name}
+                          onCommit={(text, base) => updateField(d.id, "name", text, base)}
+                          onFocusChange={(on) => setFocusedCell(on ? { driverId: d.id, field: "name" } : null)}
+                          style={{
+                            width: narrow ? "100%" : 160,
+                            boxSizing: "border-box",
+                            padding: 8,
+                            fontWeight: 600,
+                            border: `1px solid ${colors.panelBorder}`,
+                            borderRadius: 8,
+                            background: colors.cardBg,
+                            color: colors.text,
+                          }}
+                        />
+                        {pendingFor(d.id) > 0 && (
+                          <span
+                            title={offlineQueue.filter((o) => o.driverId === d.id).map((o) => o.label).join("\n")}
+                            style={{ marginLeft: 6, fontSize: 12, color: colors.warnText }}
+                          >
+                            {t("row.queued", { n: pendingFor(d.id) })}
+                          </span>
+                        )}
+                        {peersOnRow(d.id).length > 0 && (
+                          <span style={{ marginLeft: 6 }}>
+                            <PresenceAvatars peers={peersOnRow(d.id)} tr={tr} size={20} />
+                          </span>
+                        )}
+                        {pinnedFor(d.id).map((n) => (
+                          <div
+                            key={n.id}
+                            onClick={() => openProfile(d)}
+                            title={`${n.author_name || t("common.unknown")} · ${fmtTime(n.created_at)}`}
+                            style={{
+                              marginTop: 4,
+                              maxWidth: 220,
+                              overflow: "hidden",
+                              textOverflow: "ellipsis",
+                              fontSize: 12,
+                              padding: "2px 8px",
+                              borderRadius: 6,
+                              background: colors.warnBg,
+                              color: colors.warnText,
+                              cursor: "pointer",
+                            }}
+                          >
+                            📌 {n.body}
+                            {n.tags && n.tags.length > 0 ? ` ${n.tags.map((tag) => `#${tag}`).join(" ")}` : ""}
+                          </div>
+                        ))}
+                      </td>
+
+                      {/* Status */}
+                      <td style={cellStyle}>
+                        {cellLabel(t("col.status"))}
+                        {(() => {
+                          const st = driverStatus(d);
+                          const badge = statusBadgeColors(st, colors);
+                          return (
+                            <select
+                              value={st}
+                              disabled={!!d.archived_at}
+                              onChange={(e) => changeStatus(d, e.target.value as DriverStatus)}
+                              title={d.status_changed_at ? t("row.statusSince", { time: fmtTime(d.status_changed_at) }) : undefined}
+                              style={{
+                                padding: "4px 8px",
+                                borderRadius: 999,
+                                border: "none",
+                                fontSize: 13,
+                                fontWeight: 600,
+                                background: badge.bg,
+                                color: badge.text,
+                                cursor: d.archived_at ? "default" : "pointer",
+                              }}
+                            >
+                              {[st, ...STATUS_TRANSITIONS[st]].map((s) => (
+                                <option key={s} value={s}>
+                                  {statusLabel(s)}
+                                </option>
+                              ))}
+                            </select>
+                          );
+                        })()}
+                      </td>
+
+                      {/* Location */}
+                      <td style={cellStyle}>
+                        {cellLabel(t("col.location"))}
+                        <EditableCell
+                          value={d.location ?? ""}
+                          onCommit={(text, base) => updateField(d.id, "location", text, base)}
+                          onFocusChange={(on) => setFocusedCell(on ? { driverId: d.id, field: "location" } : null)}
+                          onDraftChange={queueLocationSuggest}
+                          list="location-suggestions"
+                          placeholder={t("row.locationPlaceholder")}
+                          style={{
+                            width: narrow ? "100%" : 220,
+                            boxSizing: "border-box",
+                            padding: 8,
+                            border: `1px solid ${locErrors[d.id] ? colors.dangerText : colors.panelBorder}`,
+                            borderRadius: 8,
+                            background: colors.cardBg,
+                            color: colors.text,
+                          }}
+                        />
+                        {locErrors[d.id] ? (
+                          <div style={{ fontSize: 11, marginTop: 4, color: colors.dangerText }}>{t("row.locationNotSaved", { error: locErrors[d.id] })}</div>
+                        ) : null}
+                      </td>
+
+                      {/* Available */}
+                      <td style={cellStyle}>
+                        {cellLabel(t("col.available"))}
+                        <EditableCell
+                          value={d.available_time ?? ""}
+                          onDraftChange={(text) => setAvailDrafts((prev) => ({ ...prev, [d.id]: text }))}
+                          onFocusChange={(on) => setFocusedCell(on ? { driverId: d.id, field: "available_time" } : null)}
+                          onCommit={async (text, base) => {
+                            const ok = await updateField(d.id, "available_time", text, base);
+                            setAvailDrafts(({ [d.id]: _, ...rest }) => rest);
+                            return ok;
+                          }}
+                          placeholder={t("row.availablePlaceholder")}
+                          style={{
+                            width: narrow ? "100%" : 180,
+                            boxSizing: "border-box",
+                            padding: 8,
+                            border: `1px solid ${colors.panelBorder}`,
+                            borderRadius: 8,
+                            background: colors.cardBg,
+                            color: colors.text,
+                          }}
+                        />
+                        {(() => {
+                          const hint = availabilityHint(d);
+                          return hint ? (
+                            <div style={{ fontSize: 11, marginTop: 4, color: hint.bad ? colors.dangerText : colors.subtext }}>
+                              {hint.text}
+                            </div>
+                          ) : null;
+                        })()}
+                      </td>
+
+                      {/* Reserve */}
+                      <td style={cellStyle}>
+                        {cellLabel(t("col.reserve"))}
+                        {active ? (
+                          <span
+                            style={{
+                              display: "inline-flex",
+                              alignItems: "center",
+                              gap: 8,
+                              background:
+                                msLeft <= 60_000 ? colors.dangerBg : msLeft <= warnMs ? colors.warnBg : colors.successBg,
+                              color:
+                                msLeft <= 60_000 ? colors.dangerText : msLeft <= warnMs ? colors.warnText : colors.successText,
+                              padding: "4px 10px",
+                              borderRadius: 999,
+                            }}
+                          >
+                            ● {fmtTimeLeft(msLeft)}
+                            {d.reserved_by_name ? (
+                              <span style={{ fontSize: 12, opacity: 0.85 }}>
+                                {d.reserved_by === me?.id ? t("common.you") : d.reserved_by_name}
+                              </span>
+                            ) : null}
+                            {canManage && (
+                              <span style={{ display: "inline-flex", gap: 2 }}>
+                                {msLeft > 6 * 60_000 && (
+                                  <button
+                                    onClick={() => adjustReserve(d, "shorten", 5)}
+                                    title={t("row.shortenBy", { n: 5 })}
+                                    style={pillButtonStyle}
+                                  >
+                                    −5
+                                  </button>
+                                )}
+                                {EXTEND_PRESETS.slice(0, 2).map((n) => (
+                                  <button
+                                    key={n}
+                                    onClick={() => adjustReserve(d, "extend", n)}
+                                    title={t("row.extendBy", { n })}
+                                    style={pillButtonStyle}
+                                  >
+                                    +{n}
+                                  </button>
+                                ))}
+                              </span>
+                            )}
+                          </span>
+                        ) : (
+                          <span style={{ color: colors.subtext }}>—</span>
+                        )}
+                        {queueFor(waitlist, d.id).length > 0 && (
+                          <div
+                            title={queueFor(waitlist, d.id)
+                              .map((e, i) => t("row.queueEntry", { pos: i + 1, name: e.dispatcher_name, minutes: e.minutes }))
+                              .join("\n")}
+                            style={{ fontSize: 11, marginTop: 4, color: colors.subtext }}
+                          >
+                            {t("row.queue", { n: queueFor(waitlist, d.id).length })}
+                            {queuePosition(waitlist, d.id, me?.id)
+                              ? t("row.queuePosition", { n: queuePosition(waitlist, d.id, me?.id) })
+                              : ""}
+                          </div>
+                        )}
+                      </td>
+
+                      {/* Actions */}
+                      <td style={cellStyle}>
+                        <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+                          {queuePosition(waitlist, d.id, me?.id) ? (
+                            <button
+                              onClick={() => leaveQueue(d)}
+                              style={{
+                                padding: "6px 10px",
+                                borderRadius: 10,
+                                border: `1px solid ${colors.btnGhostBorder}`,
+                                background: colors.cardBg,
+                                color: colors.text,
+                              }}
+                            >
+                              {t("row.leaveQueue", { n: queuePosition(waitlist, d.id, me?.id) })}
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => openReserve(d)}
+                              disabled={!!d.archived_at || (!heldByOther(d) && !!reserveBlocked(d))}
+                              title={
+                                heldByOther(d)
+                                  ? t("row.heldJoin", { who: d.reserved_by_name ?? t("common.anotherDispatcher") })
+                                  : reserveBlocked(d) ?? undefined
+                              }
+                              style={{
+                                padding: "6px 10px",
+                                borderRadius: 10,
+                                border: `1px solid ${colors.btnGhostBorder}`,
+                                background: colors.btnPrimaryBg,
+                                color: colors.btnPrimaryText,
+                                opacity: d.archived_at || (!heldByOther(d) && reserveBlocked(d)) ? 0.5 : 1,
+                              }}
+                            >
+                              {heldByOther(d) ? t("row.joinQueue") : t("row.reserve")}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => openProfile(d)}
+                            style={{
+                              padding: "6px 10px",
+                              borderRadius: 10,
+                              border: `1px solid ${colors.btnGhostBorder}`,
+                              background: colors.cardBg,
+                              color: colors.text,
+                            }}
+                          >
+                            {t("row.profile")}
+                          </button>
+                          <button
+                            onClick={() => resetReserve(d.id)}
+                            disabled={!active || !canManage}
+                            title={
+                              !active
+                                ? t("err.notOnHold", { name: d.name })
+                                : canManage
+                                  ? undefined
+                                  : t("row.heldBy", { who: d.reserved_by_name ?? t("common.anotherDispatcher") })
+                            }
+                            style={{
+                              padding: "6px 10px",
+                              borderRadius: 10,
+                              border: `1px solid ${colors.btnGhostBorder}`,
+                              background: "#dc2626",
+                              color: "#ffffff",
+                              opacity: active && canManage ? 1 : 0.5,
+                            }}
+                          >
+                            {t("row.reset")}
+                          </button>
+                          <button
+                            onClick={() => setArchived(d, !d.archived_at)}
+                            style={{
+                              padding: "6px 10px",
+                              borderRadius: 10,
+                              border: `1px solid ${colors.btnGhostBorder}`,
+                              background: colors.cardBg,
+                              color: colors.subtext,
+                            }}
+                          >
+                            {d.archived_at ? t("row.unarchive") : t("row.archive")}
+                          </button>
                         </div>
-                        <div>{d.reserve_note}</div>
-                      </div>
-                    ) : null}
-                  </td>
-                </tr>
-              );
-            })}
+
+                        {/* Current reserve note */}
+                        {active && d.reserve_note ? (
+                          <div
+                            style={{
+                              marginTop: 8,
+                              background: colors.softBg,
+                              border: `1px solid ${colors.panelBorder}`,
+                              borderRadius: 8,
+                              padding: "8px 10px",
+                              maxWidth: 420,
+                            }}
+                          >
+                            <div style={{ fontSize: 12, color: colors.subtext, marginBottom: 4 }}>
+                              {t("row.reserveNote")}
+                              {d.reserve_started_at ? ` • ${fmtTime(d.reserve_started_at)}` : ""}
+                            </div>
+                            <div>{d.reserve_note}</div>
+                          </div>
+                        ) : null}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </React.Fragment>
+            ))}
           </tbody>
         </table>
       </div>
 
+      <datalist id="location-suggestions">
+        {locSuggestions.map((s) => (
+          <option key={s} value={s} />
+        ))}
+      </datalist>
+
       {/* toast */}
       {toast && (
         <div
@@ -513,21 +2294,358 @@ export default function DriverReserves() {
         </div>
       )}
 
+      {boardsOpen && boards && (
+        <BoardsModal
+          boards={boards}
+          currentBoardId={boardId}
+          colors={colors}
+          tr={tr}
+          onBoardsChanged={setBoards}
+          onClose={() => setBoardsOpen(false)}
+        />
+      )}
+
+      {policyOpen && me && (
+        <ReservePolicyModal
+          policy={policy}
+          me={me}
+          colors={colors}
+          tr={tr}
+          fmtTime={fmtTime}
+          onSaved={(p) => {
+            setPolicy({ ...defaultReservePolicy, ...p });
+            setPolicyOpen(false);
+            showToast(t("toast.policiesSaved"));
+          }}
+          onClose={() => setPolicyOpen(false)}
+        />
+      )}
+
+      {displayLinksOpen && boardId && (
+        <DisplayLinksModal
+          boardId={boardId}
+          boardName={currentBoard?.name ?? ""}
+          colors={colors}
+          tr={tr}
+          fmtTime={fmtTime}
+          onCopied={showToast}
+          onClose={() => setDisplayLinksOpen(false)}
+        />
+      )}
+
+      {paletteOpen && (
+        <CommandPalette
+          drivers={activeDrivers}
+          colors={colors}
+          tr={tr}
+          defaultMinutes={policy.default_minutes}
+          onRun={runCommand}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
+      {keysHelpOpen && (
+        <div style={overlayStyle} onClick={() => setKeysHelpOpen(false)}>
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}
+          >
+            <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("keys.title")}</h3>
+            <table style={{ marginTop: 10, fontSize: 14, borderCollapse: "collapse" }}>
+              <tbody>
+                {[
+                  [`↑ ↓  ${t("keys.or")}  j k`, t("keys.move")],
+                  ["r", t("keys.reserve")],
+                  ["e", t("keys.extend", { n: EXTEND_PRESETS[1] })],
+                  [`x  ${t("keys.or")}  Delete`, t("keys.reset")],
+                  [`p  ${t("keys.or")}  Enter`, t("keys.profile")],
+                  ["c", t("keys.copy")],
+                  ["Ctrl+K / ⌘K", t("keys.palette")],
+                  ["Esc", t("keys.clear")],
+                ].map(([k, what]) => (
+                  <tr key={k}>
+                    <td style={{ padding: "4px 12px 4px 0", fontFamily: "monospace", whiteSpace: "nowrap" }}>{k}</td>
+                    <td style={{ padding: "4px 0", color: colors.subtext }}>{what}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {noteSearchOpen && (
+        <NoteSearchModal
+          boardId={boardId}
+          drivers={drivers}
+          colors={colors}
+          tr={tr}
+          onOpenDriver={openProfile}
+          fmtTime={fmtTime}
+          onClose={() => setNoteSearchOpen(false)}
+        />
+      )}
+
+      {importOpen && (
+        <ImportRosterModal
+          boardId={boardId}
+          drivers={drivers}
+          colors={colors}
+          tr={tr}
+          timeZone={timeZone}
+          onApplied={importApplied}
+          onClose={() => setImportOpen(false)}
+        />
+      )}
+
+      {editingTemplate && (
+        <CopyTemplateEditor
+          template={editingTemplate}
+          drivers={activeDrivers}
+          colors={colors}
+          tr={tr}
+          timeZone={timeZone}
+          onSave={saveTemplate}
+          onDelete={deleteTemplate}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+
+      {/* Edit conflict prompt */}
+      {conflict && (
+        <div style={overlayStyle}>
+          <div style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}>
+            <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("conflict.title")}</h3>
+            <div style={{ marginTop: 12 }}>
+              {t("conflict.changed", {
+                who: conflict.latest.updated_by_name ?? t("common.AnotherDispatcher"),
+                field: fieldLabel(conflict.field),
+              })}{" "}
+              <b>{conflict.latest.name}</b>{" "}
+              {t("conflict.to", {
+                value: conflict.latest[conflict.field] || t("conflict.blank"),
+                ago: fmtAgo(conflict.latest.updated_at, tr, timeZone),
+              })}
+            </div>
+            <div style={{ marginTop: 8, fontSize: 13, color: colors.subtext }}>
+              {t("conflict.yours", { value: conflict.mine || t("conflict.blank") })}
+            </div>
+
+            <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
+              <button
+                onClick={() => setConflict(null)}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.cardBg,
+                  color: colors.text,
+                }}
+              >
+                {t("conflict.keepTheirs")}
+              </button>
+              <button
+                onClick={keepMine}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.btnPrimaryBg,
+                  color: colors.btnPrimaryText,
+                }}
+              >
+                {t("conflict.keepMine")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Alert settings modal */}
+      {alertsOpen && (
+        <div style={overlayStyle}>
+          <div style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}>
+            <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("alerts.title")}</h3>
+
+            {(
+              [
+                { key: "enabled", label: t("alerts.enabled") },
+                { key: "sound", label: t("alerts.sound") },
+                { key: "onlyMine", label: t("alerts.onlyMine") },
+              ] as { key: "enabled" | "sound" | "onlyMine"; label: string }[]
+            ).map((f) => (
+              <label key={f.key} style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 12 }}>
+                <input
+                  type="checkbox"
+                  checked={alertSettings[f.key]}
+                  onChange={(e) => setAlertSettings((prev) => ({ ...prev, [f.key]: e.target.checked }))}
+                />
+                {f.label}
+              </label>
+            ))}
+
+            <div style={{ marginTop: 12 }}>
+              <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>
+                {t("alerts.warnAt")}
+              </label>
+              <input
+                value={thresholdText}
+                onChange={(e) => setThresholdText(e.target.value)}
+                placeholder="5, 0"
+                style={{
+                  width: "100%",
+                  padding: 8,
+                  border: `1px solid ${colors.panelBorder}`,
+                  borderRadius: 8,
+                  background: colors.cardBg,
+                  color: colors.text,
+                }}
+              />
+            </div>
+
+            <div style={{ marginTop: 12, fontSize: 13, color: colors.subtext }}>
+              {t("alerts.permission", { state: notifPermission })}
+              {notifPermission === "default" ? (
+                <button
+                  onClick={enableNotifications}
+                  style={{
+                    marginLeft: 8,
+                    padding: "4px 10px",
+                    borderRadius: 10,
+                    border: `1px solid ${colors.btnGhostBorder}`,
+                    background: colors.cardBg,
+                    color: colors.text,
+                  }}
+                >
+                  {t("alerts.enable")}
+                </button>
+              ) : null}
+            </div>
+
+            <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
+              <button
+                onClick={() => {
+                  if (me) setAlertSettings(loadAlertSettings(me.id));
+                  setAlertsOpen(false);
+                }}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.cardBg,
+                  color: colors.text,
+                }}
+              >
+                {t("common.cancel")}
+              </button>
+              <button
+                onClick={saveAlerts}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.btnPrimaryBg,
+                  color: colors.btnPrimaryText,
+                }}
+              >
+                {t("common.save")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Add driver modal */}
+      {addOpen && (
+        <div style={overlayStyle}>
+          <div style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}>
+            <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>{t("add.title")}</h3>
+
+            {(
+              [
+                { key: "name", label: t("add.name"), placeholder: "John Smith" },
+                { key: "unit_no", label: t("add.unit"), placeholder: "1401" },
+                { key: "location", label: t("add.location"), placeholder: t("row.locationPlaceholder") },
+                { key: "available_time", label: t("add.available"), placeholder: t("row.availablePlaceholder") },
+              ] as { key: keyof DriverInput; label: string; placeholder: string }[]
+            ).map((f) => (
+              <div key={f.key} style={{ marginTop: 12 }}>
+                <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{f.label}</label>
+                <input
+                  value={addForm[f.key]}
+                  onChange={(e) => setAddForm((prev) => ({ ...prev, [f.key]: e.target.value }))}
+                  placeholder={f.placeholder}
+                  style={{
+                    width: "100%",
+                    padding: 8,
+                    border: `1px solid ${colors.panelBorder}`,
+                    borderRadius: 8,
+                    background: colors.cardBg,
+                    color: colors.text,
+                  }}
+                />
+              </div>
+            ))}
+
+            <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
+              <button
+                onClick={() => setAddOpen(false)}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.cardBg,
+                  color: colors.text,
+                }}
+              >
+                {t("common.cancel")}
+              </button>
+              <button
+                onClick={createDriver}
+                style={{
+                  padding: "8px 12px",
+                  borderRadius: 10,
+                  border: `1px solid ${colors.btnGhostBorder}`,
+                  background: colors.btnPrimaryBg,
+                  color: colors.btnPrimaryText,
+                }}
+              >
+                {t("common.add")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reserve modal */}
       {reserveOpen && reserveDriver && (
         <div style={overlayStyle}>
           <div style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}>
             <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
-              Reserve — {reserveDriver.name}
+              {heldByOther(reserveDriver) ? t("reserve.joinQueue") : t("reserve.title")} — {reserveDriver.name}
             </h3>
+            {heldByOther(reserveDriver) && (
+              <div style={{ fontSize: 12, color: colors.subtext, marginTop: 4 }}>
+                {t("reserve.heldBy", { who: reserveDriver.reserved_by_name ?? t("common.anotherDispatcher") })}
+                {queueFor(waitlist, reserveDriver.id).length
+                  ? t("reserve.ahead", { n: queueFor(waitlist, reserveDriver.id).length })
+                  : ""}
+                {t("reserve.handOff")}
+              </div>
+            )}
 
             <div style={{ marginTop: 12 }}>
-              <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>Minutes</label>
+              <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>
+                {isReserveActive(reserveDriver) && !heldByOther(reserveDriver) ? t("reserve.minutesToAdd") : t("reserve.minutes")}
+              </label>
               <input
                 type="number"
                 min={1}
                 value={reserveMinutes}
-                onChange={(e) => setReserveMinutes(e.target.value)}
+                onChange={(e) => {
+                  setReserveMinutes(e.target.value);
+                  setReserveUntilText("");
+                }}
                 style={{
                   width: "100%",
                   padding: 8,
@@ -535,15 +2653,64 @@ export default function DriverReserves() {
                   borderRadius: 8,
                   background: colors.cardBg,
                   color: colors.text,
+                  opacity: reserveUntilText.trim() ? 0.5 : 1,
                 }}
               />
+              <div style={{ display: "flex", gap: 6, marginTop: 6, alignItems: "center" }}>
+                {EXTEND_PRESETS.map((n) => (
+                  <button
+                    key={n}
+                    onClick={() => addReserveMinutes(n)}
+                    style={{
+                      padding: "4px 10px",
+                      borderRadius: 999,
+                      border: `1px solid ${colors.btnGhostBorder}`,
+                      background: colors.cardBg,
+                      color: colors.text,
+                    }}
+                  >
+                    +{n}
+                  </button>
+                ))}
+                <span style={{ fontSize: 12, color: colors.subtext, marginLeft: 6 }}>{t("reserve.orUntil")}</span>
+                <input
+                  value={reserveUntilText}
+                  onChange={(e) => setReserveUntilText(e.target.value)}
+                  placeholder="3pm"
+                  style={{
+                    width: 90,
+                    padding: "4px 8px",
+                    border: `1px solid ${colors.panelBorder}`,
+                    borderRadius: 8,
+                    background: colors.cardBg,
+                    color: colors.text,
+                  }}
+                />
+              </div>
+              {(policy.max_total_minutes || policy.note_required_over_minutes != null || policy.max_holds_per_dispatcher) && (
+                <div style={{ fontSize: 12, color: colors.subtext, marginTop: 6 }}>
+                  {[
+                    policy.max_total_minutes
+                      ? t("reserve.maxPerHold", { limit: fmtDuration(policy.max_total_minutes * 60, tr) })
+                      : "",
+                    policy.max_holds_per_dispatcher
+                      ? t("reserve.holdsPerDispatcher", { n: policy.max_holds_per_dispatcher })
+                      : "",
+                    policy.note_required_over_minutes != null
+                      ? t("reserve.noteOver", { limit: fmtDuration(policy.note_required_over_minutes * 60, tr) })
+                      : "",
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </div>
+              )}
             </div>
 
             <div style={{ marginTop: 12 }}>
-              <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>Note (optional)</label>
+              <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>{t("reserve.note")}</label>
               <textarea
                 rows={4}
-                placeholder="Anything to remember…"
+                placeholder={t("reserve.notePlaceholder")}
                 value={reserveNote}
                 onChange={(e) => setReserveNote(e.target.value)}
                 style={{
@@ -557,6 +2724,8 @@ export default function DriverReserves() {
               />
             </div>
 
+            {reserveProblem && <div style={{ marginTop: 8, color: colors.dangerText }}>{reserveProblem}</div>}
+
             <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 14 }}>
               <button
                 onClick={() => setReserveOpen(false)}
@@ -568,7 +2737,7 @@ export default function DriverReserves() {
                   color: colors.text,
                 }}
               >
-                Cancel
+                {t("common.cancel")}
               </button>
               <button
                 onClick={confirmReserve}
@@ -580,7 +2749,11 @@ export default function DriverReserves() {
                   color: colors.btnPrimaryText,
                 }}
               >
-                Start
+                {heldByOther(reserveDriver)
+                  ? t("reserve.joinQueue")
+                  : isReserveActive(reserveDriver)
+                    ? t("reserve.extend")
+                    : t("reserve.start")}
               </button>
             </div>
           </div>
@@ -592,58 +2765,38 @@ export default function DriverReserves() {
         <div style={overlayStyle}>
           <div style={{ ...modalStyle, background: colors.cardBg, color: colors.text, border: `1px solid ${colors.panelBorder}` }}>
             <h3 style={{ margin: 0, fontSize: 18, fontWeight: 700 }}>
-              Profile — {profileDriver.name}
+              {t("profile.title", { name: profileDriver.name })}
             </h3>
 
-            <div style={{ marginTop: 12 }}>
-              <label style={{ display: "block", fontSize: 12, color: colors.subtext }}>Add note</label>
-              <div style={{ display: "flex", gap: 8 }}>
-                <input
-                  value={newNote}
-                  onChange={(e) => setNewNote(e.target.value)}
-                  placeholder="Type a note…"
-                  style={{
-                    flex: 1,
-                    padding: 8,
-                    border: `1px solid ${colors.panelBorder}`,
-                    borderRadius: 8,
-                    background: colors.cardBg,
-                    color: colors.text,
-                  }}
-                />
-                <button
-                  onClick={addProfileNote}
-                  style={{
-                    padding: "8px 12px",
-                    borderRadius: 10,
-                    border: `1px solid ${colors.btnGhostBorder}`,
-                    background: colors.btnPrimaryBg,
-                    color: colors.btnPrimaryText,
-                  }}
-                >
-                  Save
-                </button>
-              </div>
-            </div>
+            <DriverNotes driverId={profileDriver.id} me={me} colors={colors} tr={tr} fmtTime={fmtTime} />
 
+            <div style={{ marginTop: 16, fontSize: 12, color: colors.subtext }}>{t("profile.history")}</div>
             <div
               style={{
-                marginTop: 16,
-                maxHeight: 280,
+                marginTop: 4,
+                maxHeight: 220,
                 overflowY: "auto",
                 border: `1px solid ${colors.panelBorder}`,
                 borderRadius: 8,
               }}
             >
-              {notes.length === 0 ? (
-                <div style={{ padding: 12, color: colors.subtext }}>No notes yet.</div>
+              {events.length === 0 ? (
+                <div style={{ padding: 12, color: colors.subtext }}>{t("profile.noHistory")}</div>
               ) : (
-                notes.map((n) => (
-                  <div key={n.id} style={{ padding: 12, borderTop: `1px solid ${colors.panelBorder}` }}>
-                    <div style={{ fontSize: 12, color: colors.subtext, marginBottom: 4 }}>
-                      {new Date(n.created_at).toLocaleString()}
-                    </div>
-                    <div>{n.body}</div>
+                events.map((ev) => (
+                  <div
+                    key={ev.id}
+                    style={{
+                      padding: "8px 12px",
+                      borderTop: `1px solid ${colors.panelBorder}`,
+                      borderLeft: `3px solid ${
+                        ev.kind === "expired" ? colors.dangerText : ev.kind === "released" ? colors.subtext : colors.successText
+                      }`,
+                    }}
+                  >
+                    <div style={{ fontSize: 12, color: colors.subtext }}>{fmtTime(ev.created_at)}</div>
+                    <div>{describeEvent(ev, tr)}</div>
+                    {ev.note ? <div style={{ fontSize: 13, color: colors.subtext }}>“{ev.note}”</div> : null}
                   </div>
                 ))
               )}
@@ -660,7 +2813,7 @@ export default function DriverReserves() {
                   color: colors.btnPrimaryText,
                 }}
               >
-                Close
+                {t("common.close")}
               </button>
             </div>
           </div>
@@ -669,24 +2822,3 @@ export default function DriverReserves() {
     </div>
   );
 }
-
-/* Styles */
-const overlayStyle: React.CSSProperties = {
-  position: "fixed",
-  inset: 0,
-  background: "rgba(0,0,0,0.35)",
-  display: "flex",
-  alignItems: "center",
-  justifyContent: "center",
-  padding: 20,
-  zIndex: 50,
-};
-
-const modalStyle: React.CSSProperties = {
-  width: 520,
-  maxWidth: "100%",
-  background: "white",
-  borderRadius: 16,
-  padding: 16,
-  boxShadow: "0 10px 25px rgba(0,0,0,0.12)",
-};
@@ -0,0 +1,19 @@
+// Sends due webhook deliveries through a running app: `npm run webhooks`
+// WEBHOOKS_URL defaults to the local dev server.
+const url = process.env.WEBHOOKS_URL ?? "http://localhost:3000/api/webhooks/deliver";
+const secret = process.env.SWEEP_SECRET;
+
+if (!secret) {
+  console.error("SWEEP_SECRET is not set");
+  process.exit(1);
+}
+
+const res = await fetch(url, { method: "POST", headers: { Authorization: `Bearer ${secret}` } });
+const body = await res.json().catch(() => ({}));
+if (!res.ok) {
+  console.error(`Webhook delivery failed (${res.status}):`, body.error ?? body);
+  process.exit(1);
+}
+console.log(
+  `Delivered ${body.delivered.length}, retrying ${body.retrying.length}, failed ${body.failed.length}, skipped ${body.skipped.length}`
+);
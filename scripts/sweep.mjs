@@ -0,0 +1,19 @@
+// Triggers the expiry sweeper against a running app: `npm run sweep`
+// SWEEP_URL defaults to the local dev server.
+const url = process.env.SWEEP_URL ?? "http://localhost:3000/api/reserves/sweep";
+const secret = process.env.SWEEP_SECRET;
+
+if (!secret) {
+  console.error("SWEEP_SECRET is not set");
+  process.exit(1);
+}
+
+const res = await fetch(url, { method: "POST", headers: { Authorization: `Bearer ${secret}` } });
+const body = await res.json().catch(() => ({}));
+if (!res.ok) {
+  console.error(`Sweep failed (${res.status}):`, body.error ?? body);
+  process.exit(1);
+}
+console.log(
+  `Cleared ${body.cleared.length} expired hold(s), handed ${body.handedOff.length} to the waitlist, skipped ${body.skipped.length}`
+);
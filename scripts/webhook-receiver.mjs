@@ -0,0 +1,47 @@
+// Local webhook receiver for trying webhooks out: `npm run webhook-receiver`
+// Prints each request and checks its signature when WEBHOOK_SECRET is set.
+// PORT defaults to 4000; point a webhook at http://localhost:4000/.
+// FAIL_EVERY=n answers every n-th request with a 500 to exercise retries.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET;
+const failEvery = Number(process.env.FAIL_EVERY ?? 0);
+/** Signatures older than this are rejected, so a captured request cannot be replayed later */
+const MAX_AGE_SECONDS = 5 * 60;
+let count = 0;
+
+function checkSignature(req, body) {
+  if (!secret) return "not checked (WEBHOOK_SECRET is not set)";
+  const timestamp = Number(req.headers["x-webhook-timestamp"]);
+  const given = String(req.headers["x-webhook-signature"] ?? "").replace(/^sha256=/, "");
+  if (!Number.isFinite(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > MAX_AGE_SECONDS) return null;
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  const ok = given.length === expected.length && timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+  return ok ? "valid" : null;
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    count += 1;
+    const signature = checkSignature(req, body);
+    console.log(`\n#${count} ${req.method} ${req.url} — ${req.headers["x-webhook-event"]} (${req.headers["x-webhook-id"]})`);
+    console.log(`signature: ${signature ?? "INVALID"}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (!signature) {
+      res.writeHead(401).end("bad signature");
+    } else if (failEvery && count % failEvery === 0) {
+      res.writeHead(500).end("failing on purpose (FAIL_EVERY)");
+    } else {
+      res.writeHead(204).end();
+    }
+  });
+}).listen(port, () => console.log(`Listening for webhooks on http://localhost:${port}/`));
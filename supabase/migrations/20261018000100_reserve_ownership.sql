@@ -0,0 +1,66 @@
+-- Dispatcher identities and reservation ownership.
+
+create table if not exists public.dispatchers (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text not null,
+  is_admin boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+alter table public.dispatchers enable row level security;
+
+create policy "dispatchers readable by signed-in users"
+  on public.dispatchers for select
+  to authenticated
+  using (true);
+
+create policy "dispatchers manage own profile"
+  on public.dispatchers for insert
+  to authenticated
+  with check (id = auth.uid() and is_admin = false);
+
+alter table public.drivers
+  add column if not exists reserved_by uuid references public.dispatchers (id) on delete set null,
+  add column if not exists reserved_by_name text;
+
+create or replace function public.is_admin(uid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select is_admin from public.dispatchers where id = uid), false);
+$$;
+
+-- Only the holder of an active reserve (or an admin) may extend or clear it.
+create or replace function public.enforce_reserve_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.reserve_until is not null
+     and old.reserve_until > now()
+     and old.reserved_by is not null
+     and old.reserved_by is distinct from auth.uid()
+     and not public.is_admin(auth.uid())
+     and (
+       new.reserve_until is distinct from old.reserve_until
+       or new.reserve_started_at is distinct from old.reserve_started_at
+       or new.reserve_note is distinct from old.reserve_note
+       or new.reserved_by is distinct from old.reserved_by
+     )
+  then
+    raise exception 'Driver is reserved by %', coalesce(old.reserved_by_name, 'another dispatcher')
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists drivers_enforce_reserve_owner on public.drivers;
+create trigger drivers_enforce_reserve_owner
+  before update on public.drivers
+  for each row execute function public.enforce_reserve_owner();
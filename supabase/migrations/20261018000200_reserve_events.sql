@@ -0,0 +1,29 @@
+-- Append-only history of every reserve action.
+
+create table if not exists public.reserve_events (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers (id) on delete cascade,
+  kind text not null check (kind in ('started', 'extended', 'released', 'expired')),
+  note text,
+  minutes integer,               -- time added by started/extended
+  held_seconds integer,          -- total hold length for released/expired
+  reserve_until timestamptz,     -- hold end after this event (null once cleared)
+  actor_id uuid references public.dispatchers (id) on delete set null,
+  actor_name text,               -- null for system events (expiry)
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reserve_events_driver_created_idx
+  on public.reserve_events (driver_id, created_at desc);
+
+alter table public.reserve_events enable row level security;
+
+create policy "reserve events readable by signed-in users"
+  on public.reserve_events for select
+  to authenticated
+  using (true);
+
+create policy "dispatchers log their own reserve events"
+  on public.reserve_events for insert
+  to authenticated
+  with check (actor_id = auth.uid() or (kind = 'expired' and actor_id is null));
@@ -0,0 +1,12 @@
+-- Roster management: archiving and unit number uniqueness.
+
+alter table public.drivers
+  add column if not exists archived_at timestamptz;
+
+-- A unit number belongs to one active driver; archived drivers free it up.
+create unique index if not exists drivers_unit_no_active_key
+  on public.drivers (upper(trim(unit_no)))
+  where unit_no is not null and archived_at is null;
+
+alter table public.drivers
+  add constraint drivers_name_not_blank check (length(trim(name)) > 0) not valid;
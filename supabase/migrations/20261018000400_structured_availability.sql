@@ -0,0 +1,9 @@
+-- Parsed availability alongside the free text dispatchers type.
+-- available_time keeps the original text (used verbatim by Copy Update);
+-- available_at is null when the driver is available now.
+
+alter table public.drivers
+  add column if not exists available_at timestamptz,
+  add column if not exists available_tz text;
+
+create index if not exists drivers_available_at_idx on public.drivers (available_at);
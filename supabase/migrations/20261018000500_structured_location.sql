@@ -0,0 +1,11 @@
+-- Resolved driver location. `location` stays the display text
+-- ("City, ST" or "City, ST | ZIP"); the rest comes from the ZIP dataset.
+
+alter table public.drivers
+  add column if not exists location_city text,
+  add column if not exists location_state text check (location_state ~ '^[A-Z]{2}$'),
+  add column if not exists location_zip text check (location_zip ~ '^\d{5}$'),
+  add column if not exists location_lat double precision,
+  add column if not exists location_lng double precision;
+
+create index if not exists drivers_location_state_idx on public.drivers (location_state);
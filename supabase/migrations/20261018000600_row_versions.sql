@@ -0,0 +1,32 @@
+-- Row versions for inline-edit conflict detection. Every update bumps
+-- `version` and records who made it; the board writes with `version = <seen>`
+-- and prompts instead of overwriting when the row moved on.
+
+alter table public.drivers
+  add column if not exists version integer not null default 1,
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists updated_by uuid references public.dispatchers (id) on delete set null,
+  add column if not exists updated_by_name text;
+
+create or replace function public.bump_driver_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.version := old.version + 1;
+  new.updated_at := now();
+  new.updated_by := auth.uid();
+  new.updated_by_name := coalesce(
+    (select display_name from public.dispatchers where id = auth.uid()),
+    'system'
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists drivers_bump_version on public.drivers;
+create trigger drivers_bump_version
+  before update on public.drivers
+  for each row execute function public.bump_driver_version();
@@ -0,0 +1,60 @@
+-- Full driver notes: authors, edits, pins, tags, search and realtime.
+
+alter table public.driver_notes
+  add column if not exists author_id uuid references public.dispatchers (id) on delete set null default auth.uid(),
+  add column if not exists author_name text,
+  add column if not exists edited_at timestamptz,
+  add column if not exists pinned boolean not null default false,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists driver_notes_driver_created_idx on public.driver_notes (driver_id, created_at desc);
+create index if not exists driver_notes_pinned_idx on public.driver_notes (driver_id) where pinned;
+create index if not exists driver_notes_tags_idx on public.driver_notes using gin (tags);
+
+-- Author name is stamped server-side; editing the body marks the note edited.
+create or replace function public.stamp_driver_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.author_id := auth.uid();
+    new.author_name := (select display_name from public.dispatchers where id = auth.uid());
+  else
+    new.author_id := old.author_id;
+    new.author_name := old.author_name;
+    new.created_at := old.created_at;
+    if new.body is distinct from old.body or new.tags is distinct from old.tags then
+      new.edited_at := now();
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists driver_notes_stamp on public.driver_notes;
+create trigger driver_notes_stamp
+  before insert or update on public.driver_notes
+  for each row execute function public.stamp_driver_note();
+
+alter table public.driver_notes enable row level security;
+
+create policy "notes readable by signed-in users"
+  on public.driver_notes for select to authenticated using (true);
+
+create policy "dispatchers add notes"
+  on public.driver_notes for insert to authenticated with check (true);
+
+create policy "authors and admins edit notes"
+  on public.driver_notes for update to authenticated
+  using (author_id = auth.uid() or public.is_admin(auth.uid()));
+
+create policy "authors and admins delete notes"
+  on public.driver_notes for delete to authenticated
+  using (author_id = auth.uid() or public.is_admin(auth.uid()));
+
+-- deletes carry the driver id so boards can drop pinned notes
+alter table public.driver_notes replica identity full;
+alter publication supabase_realtime add table public.driver_notes;
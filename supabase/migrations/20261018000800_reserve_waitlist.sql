@@ -0,0 +1,87 @@
+-- Per-driver queue of dispatchers waiting for a hold.
+
+create table if not exists public.reserve_waitlist (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers (id) on delete cascade,
+  dispatcher_id uuid not null references public.dispatchers (id) on delete cascade default auth.uid(),
+  dispatcher_name text not null,
+  minutes integer not null check (minutes between 1 and 1440),  -- hold length once handed over
+  note text,
+  created_at timestamptz not null default now(),
+  unique (driver_id, dispatcher_id)
+);
+
+create index if not exists reserve_waitlist_driver_created_idx
+  on public.reserve_waitlist (driver_id, created_at);
+
+alter table public.reserve_waitlist enable row level security;
+
+create policy "waitlist readable by signed-in users"
+  on public.reserve_waitlist for select
+  to authenticated
+  using (true);
+
+create policy "dispatchers queue themselves"
+  on public.reserve_waitlist for insert
+  to authenticated
+  with check (dispatcher_id = auth.uid());
+
+create policy "dispatchers leave the queue (admins may remove anyone)"
+  on public.reserve_waitlist for delete
+  to authenticated
+  using (dispatcher_id = auth.uid() or public.is_admin(auth.uid()));
+
+alter table public.reserve_waitlist replica identity full;
+alter publication supabase_realtime add table public.reserve_waitlist;
+
+alter table public.reserve_events drop constraint if exists reserve_events_kind_check;
+alter table public.reserve_events
+  add constraint reserve_events_kind_check
+  check (kind in ('started', 'extended', 'released', 'expired', 'handed_off'));
+
+-- Gives a free driver to the first dispatcher in line. Runs as definer because
+-- the caller (the releasing dispatcher or the sweeper) reserves on someone
+-- else's behalf. Returns the updated driver, or nothing when the queue is empty
+-- or the driver is held/archived.
+create or replace function public.hand_off_reserve(p_driver_id uuid)
+returns setof public.drivers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_up public.reserve_waitlist;
+  d public.drivers;
+begin
+  select * into next_up
+    from public.reserve_waitlist
+    where driver_id = p_driver_id
+    order by created_at
+    limit 1
+    for update skip locked;
+  if not found then
+    return;
+  end if;
+
+  update public.drivers
+    set reserve_started_at = now(),
+        reserve_until = now() + make_interval(mins => next_up.minutes),
+        reserve_note = next_up.note,
+        reserved_by = next_up.dispatcher_id,
+        reserved_by_name = next_up.dispatcher_name
+    where id = p_driver_id
+      and archived_at is null
+      and (reserve_until is null or reserve_until <= now())
+    returning * into d;
+  if not found then
+    return;
+  end if;
+
+  delete from public.reserve_waitlist where id = next_up.id;
+  insert into public.reserve_events (driver_id, kind, note, minutes, reserve_until, actor_id, actor_name)
+    values (p_driver_id, 'handed_off', next_up.note, next_up.minutes, d.reserve_until, next_up.dispatcher_id, next_up.dispatcher_name);
+  return next d;
+end;
+$$;
+
+grant execute on function public.hand_off_reserve(uuid) to authenticated, service_role;
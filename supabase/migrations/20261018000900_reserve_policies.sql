@@ -0,0 +1,34 @@
+-- Admin-set limits on holds, enforced by /api/reserves. A single row; null
+-- means "no limit".
+
+create table if not exists public.reserve_policies (
+  id boolean primary key default true check (id),
+  default_minutes integer not null default 15 check (default_minutes between 1 and 1440),
+  max_total_minutes integer check (max_total_minutes between 1 and 1440),      -- start to end of one hold
+  max_holds_per_dispatcher integer check (max_holds_per_dispatcher >= 1),      -- concurrent active holds
+  note_required_over_minutes integer check (note_required_over_minutes >= 0),
+  updated_at timestamptz not null default now(),
+  updated_by_name text
+);
+
+insert into public.reserve_policies (id) values (true) on conflict do nothing;
+
+alter table public.reserve_policies enable row level security;
+
+create policy "policies readable by signed-in users"
+  on public.reserve_policies for select
+  to authenticated
+  using (true);
+
+create policy "admins change policies"
+  on public.reserve_policies for update
+  to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+alter publication supabase_realtime add table public.reserve_policies;
+
+alter table public.reserve_events drop constraint if exists reserve_events_kind_check;
+alter table public.reserve_events
+  add constraint reserve_events_kind_check
+  check (kind in ('started', 'extended', 'shortened', 'released', 'expired', 'handed_off'));
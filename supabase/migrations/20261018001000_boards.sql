@@ -0,0 +1,174 @@
+-- Boards (fleets/terminals). Drivers and notes belong to one board; a
+-- dispatcher sees and edits only the boards they are a member of. Admins see
+-- every board and manage membership.
+
+create table if not exists public.boards (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.board_members (
+  board_id uuid not null references public.boards (id) on delete cascade,
+  dispatcher_id uuid not null references public.dispatchers (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (board_id, dispatcher_id)
+);
+
+create index if not exists board_members_dispatcher_idx on public.board_members (dispatcher_id);
+
+-- Existing data moves onto one board that every current dispatcher joins.
+insert into public.boards (id, name)
+  values ('00000000-0000-0000-0000-000000000001', 'Main')
+  on conflict do nothing;
+insert into public.board_members (board_id, dispatcher_id)
+  select '00000000-0000-0000-0000-000000000001', id from public.dispatchers
+  on conflict do nothing;
+
+create or replace function public.is_board_member(p_board_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin(auth.uid())
+      or exists (select 1 from public.board_members where board_id = p_board_id and dispatcher_id = auth.uid());
+$$;
+
+/* drivers */
+
+alter table public.drivers
+  add column if not exists board_id uuid references public.boards (id) on delete restrict;
+update public.drivers set board_id = '00000000-0000-0000-0000-000000000001' where board_id is null;
+alter table public.drivers alter column board_id set not null;
+create index if not exists drivers_board_idx on public.drivers (board_id);
+
+-- unit numbers are unique per board now
+drop index if exists public.drivers_unit_no_active_key;
+create unique index drivers_unit_no_active_key
+  on public.drivers (board_id, upper(trim(unit_no)))
+  where unit_no is not null and archived_at is null;
+
+-- Replaces whatever open access the table had: only board members get in.
+alter table public.drivers enable row level security;
+
+create policy "board members read drivers"
+  on public.drivers for select to authenticated
+  using (public.is_board_member(board_id));
+
+create policy "board members add drivers"
+  on public.drivers for insert to authenticated
+  with check (public.is_board_member(board_id));
+
+create policy "board members edit drivers"
+  on public.drivers for update to authenticated
+  using (public.is_board_member(board_id))
+  with check (public.is_board_member(board_id));
+
+create policy "admins delete drivers"
+  on public.drivers for delete to authenticated
+  using (public.is_admin(auth.uid()));
+
+/* notes: board comes from the driver */
+
+alter table public.driver_notes
+  add column if not exists board_id uuid references public.boards (id) on delete cascade;
+update public.driver_notes n set board_id = d.board_id from public.drivers d where d.id = n.driver_id and n.board_id is null;
+alter table public.driver_notes alter column board_id set not null;
+create index if not exists driver_notes_board_pinned_idx on public.driver_notes (board_id) where pinned;
+
+create or replace function public.stamp_driver_note()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.author_id := auth.uid();
+    new.author_name := (select display_name from public.dispatchers where id = auth.uid());
+    new.board_id := (select board_id from public.drivers where id = new.driver_id);
+  else
+    new.author_id := old.author_id;
+    new.author_name := old.author_name;
+    new.created_at := old.created_at;
+    new.board_id := old.board_id;
+    if new.body is distinct from old.body or new.tags is distinct from old.tags then
+      new.edited_at := now();
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop policy if exists "notes readable by signed-in users" on public.driver_notes;
+drop policy if exists "dispatchers add notes" on public.driver_notes;
+drop policy if exists "authors and admins edit notes" on public.driver_notes;
+drop policy if exists "authors and admins delete notes" on public.driver_notes;
+
+create policy "board members read notes"
+  on public.driver_notes for select to authenticated
+  using (public.is_board_member(board_id));
+
+create policy "board members add notes"
+  on public.driver_notes for insert to authenticated
+  with check (public.is_board_member(board_id));
+
+create policy "authors and admins edit notes"
+  on public.driver_notes for update to authenticated
+  using (public.is_board_member(board_id) and (author_id = auth.uid() or public.is_admin(auth.uid())));
+
+create policy "authors and admins delete notes"
+  on public.driver_notes for delete to authenticated
+  using (public.is_board_member(board_id) and (author_id = auth.uid() or public.is_admin(auth.uid())));
+
+/* reserve history and waitlist follow the driver (the drivers subquery is itself filtered by RLS) */
+
+drop policy if exists "reserve events readable by signed-in users" on public.reserve_events;
+create policy "board members read reserve events"
+  on public.reserve_events for select to authenticated
+  using (exists (select 1 from public.drivers d where d.id = driver_id));
+
+drop policy if exists "dispatchers log their own reserve events" on public.reserve_events;
+create policy "dispatchers log their own reserve events"
+  on public.reserve_events for insert to authenticated
+  with check (
+    (actor_id = auth.uid() or (kind = 'expired' and actor_id is null))
+    and exists (select 1 from public.drivers d where d.id = driver_id)
+  );
+
+drop policy if exists "waitlist readable by signed-in users" on public.reserve_waitlist;
+create policy "board members read the waitlist"
+  on public.reserve_waitlist for select to authenticated
+  using (exists (select 1 from public.drivers d where d.id = driver_id));
+
+drop policy if exists "dispatchers queue themselves" on public.reserve_waitlist;
+create policy "dispatchers queue themselves"
+  on public.reserve_waitlist for insert to authenticated
+  with check (dispatcher_id = auth.uid() and exists (select 1 from public.drivers d where d.id = driver_id));
+
+/* boards and membership */
+
+alter table public.boards enable row level security;
+alter table public.board_members enable row level security;
+
+create policy "members see their boards"
+  on public.boards for select to authenticated
+  using (public.is_board_member(id));
+
+create policy "admins manage boards"
+  on public.boards for all to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+create policy "members see who else is on their boards"
+  on public.board_members for select to authenticated
+  using (public.is_board_member(board_id));
+
+create policy "admins manage membership"
+  on public.board_members for all to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+alter publication supabase_realtime add table public.board_members;
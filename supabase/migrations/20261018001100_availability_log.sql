@@ -0,0 +1,46 @@
+-- History of availability changes, so analytics can measure how long a driver
+-- sat available before someone reserved them. `drivers` only keeps the latest.
+
+create table if not exists public.availability_log (
+  id uuid primary key default gen_random_uuid(),
+  driver_id uuid not null references public.drivers (id) on delete cascade,
+  available_time text,
+  available_at timestamptz,      -- null = available from `created_at`
+  created_at timestamptz not null default now()
+);
+
+create index if not exists availability_log_driver_created_idx
+  on public.availability_log (driver_id, created_at);
+
+create or replace function public.log_driver_availability()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT'
+     or new.available_at is distinct from old.available_at
+     or new.available_time is distinct from old.available_time
+  then
+    insert into public.availability_log (driver_id, available_time, available_at)
+      values (new.id, new.available_time, new.available_at);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists drivers_log_availability on public.drivers;
+create trigger drivers_log_availability
+  after insert or update on public.drivers
+  for each row execute function public.log_driver_availability();
+
+-- seed one entry per driver so the first reserve after this migration has a baseline
+insert into public.availability_log (driver_id, available_time, available_at, created_at)
+  select id, available_time, available_at, coalesce(updated_at, now()) from public.drivers;
+
+alter table public.availability_log enable row level security;
+
+create policy "board members read availability history"
+  on public.availability_log for select to authenticated
+  using (exists (select 1 from public.drivers d where d.id = driver_id));
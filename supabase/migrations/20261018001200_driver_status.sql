@@ -0,0 +1,82 @@
+-- Duty status lifecycle. Only "available" drivers can be reserved or handed
+-- off from the waitlist; moves between statuses follow the allowed transitions
+-- below (keep in sync with lib/driverStatus.ts).
+
+alter table public.drivers
+  add column if not exists status text not null default 'available'
+    check (status in ('available', 'on_load', 'off_duty', 'home_time', 'out_of_service')),
+  add column if not exists status_changed_at timestamptz;
+
+create or replace function public.enforce_driver_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status then
+    if not (old.status, new.status) in (
+      ('available', 'on_load'), ('available', 'off_duty'), ('available', 'home_time'), ('available', 'out_of_service'),
+      ('on_load', 'available'), ('on_load', 'off_duty'), ('on_load', 'out_of_service'),
+      ('off_duty', 'available'), ('off_duty', 'home_time'), ('off_duty', 'out_of_service'),
+      ('home_time', 'available'), ('home_time', 'off_duty'), ('home_time', 'out_of_service'),
+      ('out_of_service', 'available'), ('out_of_service', 'off_duty')
+    ) then
+      raise exception 'A driver cannot go from % to %', replace(old.status, '_', ' '), replace(new.status, '_', ' ')
+        using errcode = 'P0001';
+    end if;
+    if new.status <> 'available' and new.reserve_until is not null and new.reserve_until > now() then
+      raise exception 'Release the hold on % before changing their status', old.name
+        using errcode = 'P0001';
+    end if;
+    new.status_changed_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists drivers_enforce_status on public.drivers;
+create trigger drivers_enforce_status
+  before update on public.drivers
+  for each row execute function public.enforce_driver_status();
+
+-- Same as before, but the driver must also be available.
+create or replace function public.hand_off_reserve(p_driver_id uuid)
+returns setof public.drivers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_up public.reserve_waitlist;
+  d public.drivers;
+begin
+  select * into next_up
+    from public.reserve_waitlist
+    where driver_id = p_driver_id
+    order by created_at
+    limit 1
+    for update skip locked;
+  if not found then
+    return;
+  end if;
+
+  update public.drivers
+    set reserve_started_at = now(),
+        reserve_until = now() + make_interval(mins => next_up.minutes),
+        reserve_note = next_up.note,
+        reserved_by = next_up.dispatcher_id,
+        reserved_by_name = next_up.dispatcher_name
+    where id = p_driver_id
+      and archived_at is null
+      and status = 'available'
+      and (reserve_until is null or reserve_until <= now())
+    returning * into d;
+  if not found then
+    return;
+  end if;
+
+  delete from public.reserve_waitlist where id = next_up.id;
+  insert into public.reserve_events (driver_id, kind, note, minutes, reserve_until, actor_id, actor_name)
+    values (p_driver_id, 'handed_off', next_up.note, next_up.minutes, d.reserve_until, next_up.dispatcher_id, next_up.dispatcher_name);
+  return next d;
+end;
+$$;
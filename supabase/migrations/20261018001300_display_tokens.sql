@@ -0,0 +1,83 @@
+-- Read-only share links for wall displays. A token is exchanged by
+-- /api/display/session for a short-lived JWT (role anon, claim
+-- `display_token`); the policies below let that JWT read one board's drivers
+-- and nothing else. Revoking the token cuts access on the next query or
+-- realtime event, whatever JWTs were already handed out.
+
+create table if not exists public.display_tokens (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  token text not null unique default encode(gen_random_bytes(24), 'hex'),
+  label text not null default '',
+  created_by uuid references public.dispatchers (id) on delete set null,
+  created_by_name text,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists display_tokens_board_idx on public.display_tokens (board_id);
+
+create or replace function public.stamp_display_token()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by := auth.uid();
+    new.created_by_name := (select display_name from public.dispatchers where id = auth.uid());
+    new.revoked_at := null;
+  else
+    -- only the label and revocation can change, and a revoked link stays revoked
+    new.board_id := old.board_id;
+    new.token := old.token;
+    new.created_by := old.created_by;
+    new.created_by_name := old.created_by_name;
+    new.created_at := old.created_at;
+    new.revoked_at := coalesce(old.revoked_at, new.revoked_at);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists display_tokens_stamp on public.display_tokens;
+create trigger display_tokens_stamp
+  before insert or update on public.display_tokens
+  for each row execute function public.stamp_display_token();
+
+alter table public.display_tokens enable row level security;
+
+create policy "board members see share links"
+  on public.display_tokens for select to authenticated
+  using (public.is_board_member(board_id));
+
+create policy "board members create share links"
+  on public.display_tokens for insert to authenticated
+  with check (public.is_board_member(board_id));
+
+create policy "board members revoke share links"
+  on public.display_tokens for update to authenticated
+  using (public.is_board_member(board_id))
+  with check (public.is_board_member(board_id));
+
+/* what a display JWT can see */
+
+create or replace function public.display_board_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select board_id from public.display_tokens
+  where token = auth.jwt() ->> 'display_token' and revoked_at is null;
+$$;
+
+create policy "displays read their board's drivers"
+  on public.drivers for select to anon
+  using (board_id = public.display_board_id());
+
+create policy "displays read their board"
+  on public.boards for select to anon
+  using (id = public.display_board_id());
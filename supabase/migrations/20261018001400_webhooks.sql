@@ -0,0 +1,210 @@
+-- Outgoing webhooks. Triggers on reserve_events and drivers write one
+-- `webhook_deliveries` row per subscribed webhook (an outbox, committed with
+-- the change itself); /api/webhooks/deliver sends them, signed with the
+-- webhook's secret, and retries failures with backoff. Event names and the
+-- payload shape are documented in lib/webhooks.ts — keep them in sync.
+
+create table if not exists public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  board_id uuid not null references public.boards (id) on delete cascade,
+  label text not null default '',
+  url text not null check (url ~* '^https?://'),
+  secret text not null default encode(gen_random_bytes(24), 'hex'),
+  events text[] not null default '{}' check (events <@ array[
+    'reserve.started', 'reserve.extended', 'reserve.shortened', 'reserve.released', 'reserve.expired', 'reserve.handed_off',
+    'driver.added', 'driver.location_changed', 'driver.status_changed', 'driver.archived'
+  ]::text[]),
+  active boolean not null default true,
+  created_by uuid references public.dispatchers (id) on delete set null,
+  created_by_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_board_idx on public.webhooks (board_id);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  event_id uuid not null,          -- same for every webhook (and every retry) of one event
+  event text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_status integer,             -- HTTP status of the last attempt, null if it never got one
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhook_deliveries_due_idx
+  on public.webhook_deliveries (next_attempt_at) where status = 'pending';
+create index if not exists webhook_deliveries_webhook_created_idx
+  on public.webhook_deliveries (webhook_id, created_at desc);
+
+create or replace function public.stamp_webhook()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_by := auth.uid();
+    new.created_by_name := (select display_name from public.dispatchers where id = auth.uid());
+  else
+    new.board_id := old.board_id;
+    new.secret := old.secret;
+    new.created_by := old.created_by;
+    new.created_by_name := old.created_by_name;
+    new.created_at := old.created_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists webhooks_stamp on public.webhooks;
+create trigger webhooks_stamp
+  before insert or update on public.webhooks
+  for each row execute function public.stamp_webhook();
+
+-- Webhooks carry a signing secret and send board data off-site: admins only.
+alter table public.webhooks enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "admins manage webhooks"
+  on public.webhooks for all to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+create policy "admins read deliveries"
+  on public.webhook_deliveries for select to authenticated
+  using (public.is_admin(auth.uid()));
+
+-- test pings and manual retries from the webhooks page
+create policy "admins queue deliveries"
+  on public.webhook_deliveries for insert to authenticated
+  with check (public.is_admin(auth.uid()));
+
+create policy "admins update deliveries"
+  on public.webhook_deliveries for update to authenticated
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+/* payloads */
+
+create or replace function public.webhook_driver_json(d public.drivers)
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_build_object(
+    'id', d.id,
+    'unit_no', d.unit_no,
+    'name', d.name,
+    'location', d.location,
+    'status', d.status,
+    'available_time', d.available_time,
+    'available_at', d.available_at,
+    'reserve_until', d.reserve_until,
+    'reserved_by_name', d.reserved_by_name,
+    'archived_at', d.archived_at
+  );
+$$;
+
+-- Queues `p_event` for every active webhook on the board that subscribed to it.
+create or replace function public.enqueue_webhook_event(p_board_id uuid, p_event text, p_body jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ev_id uuid := gen_random_uuid();
+  payload jsonb;
+begin
+  if not exists (select 1 from public.webhooks where board_id = p_board_id and active and p_event = any (events)) then
+    return;
+  end if;
+  payload := jsonb_build_object(
+    'id', ev_id,
+    'type', p_event,
+    'created_at', now(),
+    'board', (select jsonb_build_object('id', b.id, 'name', b.name) from public.boards b where b.id = p_board_id),
+    'driver', null,
+    'reserve', null,
+    'previous', null
+  ) || p_body;
+  insert into public.webhook_deliveries (webhook_id, event_id, event, payload)
+    select w.id, ev_id, p_event, payload
+    from public.webhooks w
+    where w.board_id = p_board_id and w.active and p_event = any (w.events);
+end;
+$$;
+
+create or replace function public.webhook_reserve_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  d public.drivers;
+begin
+  select * into d from public.drivers where id = new.driver_id;
+  if not found then
+    return new;
+  end if;
+  perform public.enqueue_webhook_event(d.board_id, 'reserve.' || new.kind, jsonb_build_object(
+    'driver', public.webhook_driver_json(d),
+    'reserve', jsonb_build_object(
+      'minutes', new.minutes,
+      'held_seconds', new.held_seconds,
+      'reserve_until', new.reserve_until,
+      'note', new.note,
+      'actor_name', new.actor_name
+    )
+  ));
+  return new;
+end;
+$$;
+
+drop trigger if exists reserve_events_webhooks on public.reserve_events;
+create trigger reserve_events_webhooks
+  after insert on public.reserve_events
+  for each row execute function public.webhook_reserve_event();
+
+create or replace function public.webhook_driver_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.enqueue_webhook_event(new.board_id, 'driver.added', jsonb_build_object('driver', public.webhook_driver_json(new)));
+    return new;
+  end if;
+  if new.location is distinct from old.location then
+    perform public.enqueue_webhook_event(new.board_id, 'driver.location_changed', jsonb_build_object(
+      'driver', public.webhook_driver_json(new),
+      'previous', jsonb_build_object('location', old.location)
+    ));
+  end if;
+  if new.status is distinct from old.status then
+    perform public.enqueue_webhook_event(new.board_id, 'driver.status_changed', jsonb_build_object(
+      'driver', public.webhook_driver_json(new),
+      'previous', jsonb_build_object('status', old.status)
+    ));
+  end if;
+  if new.archived_at is not null and old.archived_at is null then
+    perform public.enqueue_webhook_event(new.board_id, 'driver.archived', jsonb_build_object('driver', public.webhook_driver_json(new)));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists drivers_webhooks on public.drivers;
+create trigger drivers_webhooks
+  after insert or update on public.drivers
+  for each row execute function public.webhook_driver_change();
@@ -0,0 +1,24 @@
+-- `hand_off_reserve` runs as definer and skips board membership, so it is
+-- for the server only (the reserve API and the sweeper, both with the service
+-- role). The waitlist name is stamped from the dispatcher profile: it ends up
+-- on the hold and in the history, so the client must not choose it.
+
+revoke execute on function public.hand_off_reserve(uuid) from public, anon, authenticated;
+grant execute on function public.hand_off_reserve(uuid) to service_role;
+
+create or replace function public.stamp_waitlist_entry()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.dispatcher_name := (select display_name from public.dispatchers where id = new.dispatcher_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists reserve_waitlist_stamp on public.reserve_waitlist;
+create trigger reserve_waitlist_stamp
+  before insert or update on public.reserve_waitlist
+  for each row execute function public.stamp_waitlist_entry();
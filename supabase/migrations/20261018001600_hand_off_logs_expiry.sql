@@ -0,0 +1,59 @@
+-- When the driver still carries a lapsed hold (the sweeper has not cleared it
+-- yet), the hand-off logs that hold's "expired" event itself, in the same
+-- transaction and only when the hand-off happens. Callers no longer log it
+-- first, which wrote it twice whenever the hand-off then lost a race.
+create or replace function public.hand_off_reserve(p_driver_id uuid)
+returns setof public.drivers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  next_up public.reserve_waitlist;
+  prev public.drivers;
+  d public.drivers;
+begin
+  select * into next_up
+    from public.reserve_waitlist
+    where driver_id = p_driver_id
+    order by created_at
+    limit 1
+    for update skip locked;
+  if not found then
+    return;
+  end if;
+
+  select * into prev from public.drivers where id = p_driver_id for update;
+
+  update public.drivers
+    set reserve_started_at = now(),
+        reserve_until = now() + make_interval(mins => next_up.minutes),
+        reserve_note = next_up.note,
+        reserved_by = next_up.dispatcher_id,
+        reserved_by_name = next_up.dispatcher_name
+    where id = p_driver_id
+      and archived_at is null
+      and status = 'available'
+      and (reserve_until is null or reserve_until <= now())
+    returning * into d;
+  if not found then
+    return;
+  end if;
+
+  if prev.reserve_until is not null then
+    insert into public.reserve_events (driver_id, kind, note, held_seconds, reserve_until, actor_id, actor_name)
+      values (
+        p_driver_id, 'expired', prev.reserve_note,
+        case when prev.reserve_started_at is not null
+          then greatest(0, round(extract(epoch from prev.reserve_until - prev.reserve_started_at)))::integer
+        end,
+        null, null, null
+      );
+  end if;
+
+  delete from public.reserve_waitlist where id = next_up.id;
+  insert into public.reserve_events (driver_id, kind, note, minutes, reserve_until, actor_id, actor_name)
+    values (p_driver_id, 'handed_off', next_up.note, next_up.minutes, d.reserve_until, next_up.dispatcher_id, next_up.dispatcher_name);
+  return next d;
+end;
+$$;
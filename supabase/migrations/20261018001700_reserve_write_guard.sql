@@ -0,0 +1,103 @@
+-- Holds change only through the server. The reserve API checks the
+-- compare-and-set, admin policies, the waitlist head and duty status before
+-- writing; a plain `update drivers set reserve_until = …` from the browser
+-- skipped all of that. Now only service-role requests (the API, the sweeper,
+-- `hand_off_reserve`) may touch the reserve columns.
+
+create or replace function public.is_service_request()
+returns boolean
+language sql
+stable
+as $$
+  -- no JWT at all means a direct database session (migrations, SQL editor)
+  select coalesce(auth.jwt() ->> 'role', 'service_role') = 'service_role';
+$$;
+
+create or replace function public.guard_reserve_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.is_service_request() then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    if new.reserve_until is not null or new.reserve_started_at is not null or new.reserve_note is not null
+       or new.reserved_by is not null or new.reserved_by_name is not null
+    then
+      raise exception 'New drivers start without a hold — reserve them from the board'
+        using errcode = 'P0001';
+    end if;
+  elsif (new.reserve_until, new.reserve_started_at, new.reserve_note, new.reserved_by, new.reserved_by_name)
+        is distinct from (old.reserve_until, old.reserve_started_at, old.reserve_note, old.reserved_by, old.reserved_by_name)
+  then
+    raise exception 'Holds can only be changed through the reserve buttons'
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists drivers_guard_reserve on public.drivers;
+create trigger drivers_guard_reserve
+  before insert or update on public.drivers
+  for each row execute function public.guard_reserve_columns();
+
+-- Superseded: the API checks who may change a hold, and nobody else can write one.
+drop trigger if exists drivers_enforce_reserve_owner on public.drivers;
+
+-- Server writes run without a user session; `write_reserve` passes the
+-- dispatcher in `app.actor_id` so conflict prompts still name them.
+create or replace function public.bump_driver_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor uuid := coalesce(auth.uid(), nullif(current_setting('app.actor_id', true), '')::uuid);
+begin
+  new.version := old.version + 1;
+  new.updated_at := now();
+  new.updated_by := actor;
+  new.updated_by_name := coalesce(
+    (select display_name from public.dispatchers where id = actor),
+    'system'
+  );
+  return new;
+end;
+$$;
+
+-- Compare-and-set on `reserve_until` for the reserve API. Returns the updated
+-- driver, or nothing when the hold moved on since `p_expected_until` was read.
+create or replace function public.write_reserve(
+  p_driver_id uuid,
+  p_expected_until timestamptz,
+  p_reserve jsonb,
+  p_actor_id uuid
+)
+returns setof public.drivers
+language plpgsql
+set search_path = public
+as $$
+declare
+  d public.drivers;
+begin
+  perform set_config('app.actor_id', coalesce(p_actor_id::text, ''), true);
+  update public.drivers
+    set reserve_until = (p_reserve ->> 'reserve_until')::timestamptz,
+        reserve_started_at = (p_reserve ->> 'reserve_started_at')::timestamptz,
+        reserve_note = p_reserve ->> 'reserve_note',
+        reserved_by = (p_reserve ->> 'reserved_by')::uuid,
+        reserved_by_name = p_reserve ->> 'reserved_by_name'
+    where id = p_driver_id
+      and reserve_until is not distinct from p_expected_until
+    returning * into d;
+  if found then
+    return next d;
+  end if;
+end;
+$$;
+
+revoke execute on function public.write_reserve(uuid, timestamptz, jsonb, uuid) from public, anon, authenticated;
+grant execute on function public.write_reserve(uuid, timestamptz, jsonb, uuid) to service_role;
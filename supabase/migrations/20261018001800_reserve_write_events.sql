@@ -0,0 +1,44 @@
+-- `write_reserve` also logs the hold's history rows, in the same transaction
+-- as the change: a history (and analytics, and webhooks) that silently missed
+-- an event when the separate insert failed is no longer possible.
+
+drop function if exists public.write_reserve(uuid, timestamptz, jsonb, uuid);
+
+create or replace function public.write_reserve(
+  p_driver_id uuid,
+  p_expected_until timestamptz,
+  p_reserve jsonb,
+  p_actor_id uuid,
+  p_events jsonb                   -- reserve_events rows, without id/created_at, in order
+)
+returns setof public.drivers
+language plpgsql
+set search_path = public
+as $$
+declare
+  d public.drivers;
+begin
+  perform set_config('app.actor_id', coalesce(p_actor_id::text, ''), true);
+  update public.drivers
+    set reserve_until = (p_reserve ->> 'reserve_until')::timestamptz,
+        reserve_started_at = (p_reserve ->> 'reserve_started_at')::timestamptz,
+        reserve_note = p_reserve ->> 'reserve_note',
+        reserved_by = (p_reserve ->> 'reserved_by')::uuid,
+        reserved_by_name = p_reserve ->> 'reserved_by_name'
+    where id = p_driver_id
+      and reserve_until is not distinct from p_expected_until
+    returning * into d;
+  if not found then
+    return;
+  end if;
+
+  insert into public.reserve_events (driver_id, kind, note, minutes, held_seconds, reserve_until, actor_id, actor_name)
+    select p_driver_id, e.kind, e.note, e.minutes, e.held_seconds, e.reserve_until, e.actor_id, e.actor_name
+    from jsonb_populate_recordset(null::public.reserve_events, coalesce(p_events, '[]'::jsonb)) with ordinality as e
+    order by ordinality;
+  return next d;
+end;
+$$;
+
+revoke execute on function public.write_reserve(uuid, timestamptz, jsonb, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.write_reserve(uuid, timestamptz, jsonb, uuid, jsonb) to service_role;
@@ -0,0 +1,30 @@
+-- Events written in one transaction share `created_at` (an expiry and the
+-- hand-off that follows it, or a release and a new hold), so ordering by time
+-- alone could put the new hold before the end of the old one. `seq` records
+-- insert order. Existing rows are numbered by time, ends before starts on a tie.
+
+alter table public.reserve_events add column if not exists seq bigint;
+
+with ordered as (
+  select id,
+         row_number() over (
+           order by created_at,
+                    case kind when 'released' then 0 when 'expired' then 0 else 1 end,
+                    id
+         ) as n
+  from public.reserve_events
+)
+update public.reserve_events e
+  set seq = o.n
+  from ordered o
+  where o.id = e.id;
+
+alter table public.reserve_events alter column seq set not null;
+alter table public.reserve_events alter column seq add generated always as identity;
+select setval(
+  pg_get_serial_sequence('public.reserve_events', 'seq'),
+  coalesce((select max(seq) from public.reserve_events), 0) + 1,
+  false
+);
+
+create index if not exists reserve_events_driver_seq_idx on public.reserve_events (driver_id, seq);
@@ -0,0 +1,143 @@
+-- Text we cannot read as a time used to land with available_at = null, which
+-- also means "available now", so filters, load matching and the "today"
+-- template counted those drivers as free. `available_unparsed` marks them.
+--
+-- Rows typed before available_at existed only have the text. They are parsed
+-- here with the same rules as lib/availability.ts, relative to when the row
+-- was last written and in Central time (the app's fallback zone); anything
+-- unreadable is flagged.
+
+alter table public.drivers
+  add column if not exists available_unparsed boolean not null default false;
+
+create function pg_temp.parse_legacy_availability(
+  p_text text,
+  p_anchor timestamptz,
+  p_tz text,
+  out p_at timestamptz,
+  out p_zone text,
+  out p_unreadable boolean
+)
+language plpgsql
+as $$
+declare
+  weekdays constant text[] := array['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+  raw text := btrim(coalesce(p_text, ''));
+  zone text := p_tz;
+  day_offset int;
+  mo int;
+  dd int;
+  yy int;
+  wd int;
+  hh int;
+  mi int;
+  ampm text;
+  word text;
+  tok text;
+  m text[];
+  today date;
+  y int;
+  d date;
+begin
+  p_unreadable := false;
+  if raw = '' then
+    return;
+  end if;
+
+  raw := regexp_replace(raw, ',', ' ', 'g');
+  raw := regexp_replace(raw, '(\d)\s+(am|pm|a|p)\M', '\1\2', 'gi');
+
+  foreach word in array regexp_split_to_array(btrim(raw), '\s+') loop
+    tok := lower(word);
+    if tok in ('ava', 'avail', 'available', 'at', '@', 'by', 'after', 'around', 'from', 'on', '~',
+               'now', 'asap', 'rn', 'ready', 'immediately') then
+      continue;
+    end if;
+    if tok in ('et', 'est', 'edt') then zone := 'America/New_York'; continue; end if;
+    if tok in ('ct', 'cst', 'cdt') then zone := 'America/Chicago'; continue; end if;
+    if tok in ('mt', 'mst', 'mdt') then zone := 'America/Denver'; continue; end if;
+    if tok in ('pt', 'pst', 'pdt') then zone := 'America/Los_Angeles'; continue; end if;
+    if tok = 'az' then zone := 'America/Phoenix'; continue; end if;
+    if word ~* '^[a-z]+/[a-z_]+$' and exists (select 1 from pg_timezone_names where name = word) then
+      zone := word;
+      continue;
+    end if;
+    if tok in ('today', 'tdy', 'tonight', 'tonite') then day_offset := 0; continue; end if;
+    if tok in ('tomorrow', 'tmrw', 'tmr', 'tom', 'tmw') then day_offset := 1; continue; end if;
+
+    m := regexp_match(tok, '^(\d{1,2})/(\d{1,2})(?:/(\d{2}|\d{4}))?$');
+    if m is not null then
+      mo := m[1]::int;
+      dd := m[2]::int;
+      yy := case when m[3] is null then null when length(m[3]) = 2 then 2000 + m[3]::int else m[3]::int end;
+      continue;
+    end if;
+    if tok ~ '^[a-z]+$' and left(tok, 3) = any (weekdays) then
+      wd := array_position(weekdays, left(tok, 3)) - 1;
+      continue;
+    end if;
+    if tok in ('noon', 'midnight') then
+      hh := case when tok = 'noon' then 12 else 0 end;
+      mi := 0;
+      continue;
+    end if;
+    m := regexp_match(tok, '^([01]\d|2[0-3])([0-5]\d)$');
+    if m is not null then
+      hh := m[1]::int;
+      mi := m[2]::int;
+      continue;
+    end if;
+    m := regexp_match(tok, '^(\d{1,2})(?::(\d{2}))?(am|pm|a|p)?$');
+    if m is not null then
+      hh := m[1]::int;
+      mi := coalesce(m[2]::int, 0);
+      ampm := left(m[3], 1);
+      if ampm is not null and (hh < 1 or hh > 12) then p_unreadable := true; return; end if;
+      if ampm = 'p' and hh < 12 then hh := hh + 12; end if;
+      if ampm = 'a' and hh = 12 then hh := 0; end if;
+      if hh > 23 or mi > 59 then p_unreadable := true; return; end if;
+      continue;
+    end if;
+
+    p_unreadable := true;
+    return;
+  end loop;
+
+  -- only "ava", "now", a zone… — available now
+  if hh is null and mo is null and day_offset is null and wd is null then
+    return;
+  end if;
+
+  today := (p_anchor at time zone zone)::date;
+  if mo is not null then
+    if mo > 12 or mo < 1 or dd < 1 or dd > 31 then p_unreadable := true; return; end if;
+    y := coalesce(yy, extract(year from today)::int);
+    if yy is null and make_date(y, mo, 1) + (dd - 1) < today - 60 then
+      y := y + 1;
+    end if;
+    if dd > extract(day from make_date(y, mo, 1) + interval '1 month' - interval '1 day') then
+      p_unreadable := true;
+      return;
+    end if;
+    d := make_date(y, mo, dd);
+  elsif wd is not null then
+    d := today + (wd - extract(dow from today)::int + 7) % 7;
+  else
+    d := today + coalesce(day_offset, 0);
+  end if;
+
+  p_at := (d + make_time(coalesce(hh, 0), coalesce(mi, 0), 0)) at time zone zone;
+  p_zone := zone;
+end;
+$$;
+
+update public.drivers dr
+  set available_at = p.p_at,
+      available_tz = p.p_zone,
+      available_unparsed = p.p_unreadable
+  from public.drivers src
+  cross join lateral pg_temp.parse_legacy_availability(src.available_time, coalesce(src.updated_at, now()), 'America/Chicago') p
+  where src.id = dr.id
+    and src.available_at is null
+    and btrim(coalesce(src.available_time, '')) <> ''
+    and (p.p_at is not null or p.p_unreadable);
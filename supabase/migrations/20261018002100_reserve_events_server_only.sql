@@ -0,0 +1,9 @@
+-- Reserve history is written only by the server: `write_reserve` and
+-- `hand_off_reserve` run with the service role, which bypasses RLS. The old
+-- insert policy still let any signed-in dispatcher add rows, including
+-- actor-less `expired` ones, forging history, analytics and the
+-- `reserve.*` webhooks fired from those rows.
+
+drop policy if exists "dispatchers log their own reserve events" on public.reserve_events;
+
+revoke insert, update, delete on public.reserve_events from anon, authenticated;
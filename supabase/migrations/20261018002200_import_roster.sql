@@ -0,0 +1,88 @@
+-- CSV imports apply in one transaction. Every row being changed is locked and
+-- its `version` compared with the preview first; if any moved on, nothing is
+-- written and their ids come back so the board can reload them. Otherwise
+-- the inserts and updates run together, so an error part-way (a unit number
+-- taken meanwhile) rolls the whole import back.
+--
+-- Runs as the caller: RLS still limits it to boards the dispatcher belongs to,
+-- and rows they cannot see count as conflicts.
+
+create or replace function public.import_roster(
+  p_board_id uuid,
+  p_rows jsonb                     -- driver records; `expected_version` set for existing drivers, null for new ones
+)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  conflicts uuid[];
+  saved jsonb;
+begin
+  perform 1
+    from public.drivers d
+    where d.id in (
+      select (e ->> 'id')::uuid
+        from jsonb_array_elements(p_rows) e
+        where e ->> 'expected_version' is not null
+    )
+    order by d.id
+    for update;
+
+  select coalesce(array_agg((e ->> 'id')::uuid order by ord), '{}')
+    into conflicts
+    from jsonb_array_elements(p_rows) with ordinality as t(e, ord)
+    left join public.drivers d on d.id = (e ->> 'id')::uuid
+    where e ->> 'expected_version' is not null
+      and d.version is distinct from (e ->> 'expected_version')::int;
+
+  if cardinality(conflicts) > 0 then
+    return jsonb_build_object('saved', '[]'::jsonb, 'conflicts', to_jsonb(conflicts));
+  end if;
+
+  with input as (
+    select e ->> 'expected_version' is null as is_new, jsonb_populate_record(null::public.drivers, e) as r
+      from jsonb_array_elements(p_rows) e
+  ),
+  inserted as (
+    insert into public.drivers (
+      id, board_id, name, unit_no,
+      location, location_city, location_state, location_zip, location_lat, location_lng,
+      available_time, available_at, available_tz, available_unparsed
+    )
+    select (r).id, p_board_id, (r).name, (r).unit_no,
+           (r).location, (r).location_city, (r).location_state, (r).location_zip, (r).location_lat, (r).location_lng,
+           (r).available_time, (r).available_at, (r).available_tz, coalesce((r).available_unparsed, false)
+      from input
+      where is_new
+    returning *
+  ),
+  updated as (
+    update public.drivers d
+      set name = (i.r).name,
+          unit_no = (i.r).unit_no,
+          location = (i.r).location,
+          location_city = (i.r).location_city,
+          location_state = (i.r).location_state,
+          location_zip = (i.r).location_zip,
+          location_lat = (i.r).location_lat,
+          location_lng = (i.r).location_lng,
+          available_time = (i.r).available_time,
+          available_at = (i.r).available_at,
+          available_tz = (i.r).available_tz,
+          available_unparsed = coalesce((i.r).available_unparsed, false)
+      from input i
+      where not i.is_new
+        and d.id = (i.r).id
+    returning d.*
+  )
+  select coalesce(jsonb_agg(to_jsonb(x)), '[]'::jsonb)
+    into saved
+    from (select * from inserted union all select * from updated) x;
+
+  return jsonb_build_object('saved', saved, 'conflicts', '[]'::jsonb);
+end;
+$$;
+
+revoke execute on function public.import_roster(uuid, jsonb) from public, anon;
+grant execute on function public.import_roster(uuid, jsonb) to authenticated;
@@ -0,0 +1,115 @@
+-- The admin hold policies apply to the waitlist too. Joining the queue is a
+-- plain insert from the browser, so the length limit and the required note
+-- are checked here on the entry. At hand-off the policy is read again: an
+-- entry the current policy no longer allows is dropped, and a dispatcher
+-- already at the holds-per-dispatcher limit is passed over (keeping their
+-- place) for the next one in line.
+
+create or replace function public.check_waitlist_policy()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  p public.reserve_policies;
+begin
+  select * into p from public.reserve_policies limit 1;
+  if p.max_total_minutes is not null and new.minutes > p.max_total_minutes then
+    raise exception 'Holds are limited to % min in total', p.max_total_minutes
+      using errcode = 'P0001';
+  end if;
+  if p.note_required_over_minutes is not null and new.minutes > p.note_required_over_minutes
+     and coalesce(btrim(new.note), '') = ''
+  then
+    raise exception 'Add a note — it is required for holds over % min', p.note_required_over_minutes
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists reserve_waitlist_policy on public.reserve_waitlist;
+create trigger reserve_waitlist_policy
+  before insert or update of minutes, note on public.reserve_waitlist
+  for each row execute function public.check_waitlist_policy();
+
+create or replace function public.hand_off_reserve(p_driver_id uuid)
+returns setof public.drivers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p public.reserve_policies;
+  entry public.reserve_waitlist;
+  next_up public.reserve_waitlist;
+  prev public.drivers;
+  d public.drivers;
+begin
+  select * into p from public.reserve_policies limit 1;
+
+  for entry in
+    select * from public.reserve_waitlist
+      where driver_id = p_driver_id
+      order by created_at
+      for update skip locked
+  loop
+    if (p.max_total_minutes is not null and entry.minutes > p.max_total_minutes)
+       or (p.note_required_over_minutes is not null and entry.minutes > p.note_required_over_minutes
+           and coalesce(btrim(entry.note), '') = '')
+    then
+      delete from public.reserve_waitlist where id = entry.id;
+      continue;
+    end if;
+    if p.max_holds_per_dispatcher is not null and (
+      select count(*) from public.drivers
+        where reserved_by = entry.dispatcher_id
+          and reserve_until > now()
+          and id <> p_driver_id
+    ) >= p.max_holds_per_dispatcher then
+      continue;
+    end if;
+    next_up := entry;
+    exit;
+  end loop;
+  if next_up.id is null then
+    return;
+  end if;
+
+  select * into prev from public.drivers where id = p_driver_id for update;
+
+  update public.drivers
+    set reserve_started_at = now(),
+        reserve_until = now() + make_interval(mins => next_up.minutes),
+        reserve_note = next_up.note,
+        reserved_by = next_up.dispatcher_id,
+        reserved_by_name = next_up.dispatcher_name
+    where id = p_driver_id
+      and archived_at is null
+      and status = 'available'
+      and (reserve_until is null or reserve_until <= now())
+    returning * into d;
+  if not found then
+    return;
+  end if;
+
+  if prev.reserve_until is not null then
+    insert into public.reserve_events (driver_id, kind, note, held_seconds, reserve_until, actor_id, actor_name)
+      values (
+        p_driver_id, 'expired', prev.reserve_note,
+        case when prev.reserve_started_at is not null
+          then greatest(0, round(extract(epoch from prev.reserve_until - prev.reserve_started_at)))::integer
+        end,
+        null, null, null
+      );
+  end if;
+
+  delete from public.reserve_waitlist where id = next_up.id;
+  insert into public.reserve_events (driver_id, kind, note, minutes, reserve_until, actor_id, actor_name)
+    values (p_driver_id, 'handed_off', next_up.note, next_up.minutes, d.reserve_until, next_up.dispatcher_id, next_up.dispatcher_name);
+  return next d;
+end;
+$$;
+
+revoke execute on function public.hand_off_reserve(uuid) from public, anon, authenticated;
+grant execute on function public.hand_off_reserve(uuid) to service_role;